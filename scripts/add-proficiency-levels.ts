@@ -1,7 +1,10 @@
 /**
- * Post-processing script to add HSK and TOCFL proficiency levels
+ * Post-processing script to add HSK 2.0, HSK 3.0 and TOCFL proficiency levels
  * to all preprocessed Bible chapter files.
  *
+ * HSK 3.0 levels are only added when the new-hsk1.json ... new-hsk7.json lists
+ * are present in scripts/data (see proficiency-lookup.ts).
+ *
  * Run with: npx tsx scripts/add-proficiency-levels.ts
  */
 
@@ -21,6 +24,7 @@ interface WordData {
   definition?: string;
   pos?: string;
   hskLevel?: number;
+  hsk3Level?: number;
   tocflLevel?: number;
   freq?: 'common' | 'uncommon' | 'rare' | 'biblical';
   [key: string]: unknown;
@@ -64,6 +68,12 @@ async function processChapterFile(filePath: string): Promise<{ wordsUpdated: num
         updated = true;
       }
 
+      // Add HSK 3.0 level if found and not already present
+      if (info.hsk3Level !== undefined && word.hsk3Level === undefined) {
+        word.hsk3Level = info.hsk3Level;
+        updated = true;
+      }
+
       // Add TOCFL level if found and not already present
       if (info.tocflLevel !== undefined && word.tocflLevel === undefined) {
         word.tocflLevel = info.tocflLevel;
@@ -136,7 +146,8 @@ async function main() {
 
   for (const bookDir of bookDirs) {
     const bookPath = path.join(PREPROCESSED_DIR, bookDir);
-    const chapterFiles = fs.readdirSync(bookPath).filter((f) => f.endsWith('.json'));
+    // Only chapter files - other directories hold derived data such as chapter-stats
+    const chapterFiles = fs.readdirSync(bookPath).filter((f) => /^chapter-\d+\.json$/.test(f));
 
     for (const chapterFile of chapterFiles) {
       const filePath = path.join(bookPath, chapterFile);
@@ -0,0 +1,91 @@
+/**
+ * Builds the chapter statistics used for chapter difficulty scores.
+ *
+ * Scans every preprocessed chapter, counting its running words by proficiency
+ * level and listing its distinct words. Output format: src/data/chapterStats.ts.
+ *
+ * Run with: npx tsx scripts/build-chapter-stats.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { BIBLE_BOOKS } from '../src/data/bible/books';
+import {
+  getWordLevelKey,
+  type BookWordList,
+  type ChapterStatsSummary,
+} from '../src/data/chapterStats';
+import type { SegmentedWord } from '../src/types';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const PREPROCESSED_DIR = path.join(__dirname, '../public/data/preprocessed');
+const OUTPUT_DIR = path.join(PREPROCESSED_DIR, 'chapter-stats');
+
+type ChapterWord = Pick<SegmentedWord, 'chinese' | 'pinyin' | 'hskLevel' | 'hsk3Level' | 'tocflLevel' | 'freq' | 'isName'>;
+
+interface ChapterData {
+  verses: { words: ChapterWord[] }[];
+}
+
+function buildStats(): void {
+  const summary: ChapterStatsSummary = { levels: [], books: {} };
+  const levelIndex = new Map<string, number>();
+  let chapterCount = 0;
+
+  const getLevelIndex = (word: ChapterWord): number => {
+    const key = getWordLevelKey(word);
+    let index = levelIndex.get(key);
+    if (index === undefined) {
+      index = summary.levels.push(key) - 1;
+      levelIndex.set(key, index);
+    }
+    return index;
+  };
+
+  fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+
+  for (const book of BIBLE_BOOKS) {
+    const wordList: BookWordList = { levels: {}, chapters: [] };
+    summary.books[book.id] = [];
+
+    for (let chapter = 1; chapter <= book.chapterCount; chapter++) {
+      const counts = new Map<number, number>();
+      const words = new Set<string>();
+      const filePath = path.join(PREPROCESSED_DIR, book.id, `chapter-${chapter}.json`);
+
+      // Missing chapters keep their slot so lists stay indexed by chapter
+      if (fs.existsSync(filePath)) {
+        const data: ChapterData = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        chapterCount++;
+
+        for (const verse of data.verses) {
+          for (const word of verse.words) {
+            if (!word.chinese || !word.pinyin) continue;
+            const level = getLevelIndex(word);
+            counts.set(level, (counts.get(level) ?? 0) + 1);
+            if (!word.isName) {
+              words.add(word.chinese);
+              wordList.levels[word.chinese] ??= level;
+            }
+          }
+        }
+      }
+
+      summary.books[book.id].push([...counts].flat());
+      wordList.chapters.push([...words]);
+    }
+
+    fs.writeFileSync(path.join(OUTPUT_DIR, `${book.id}.json`), JSON.stringify(wordList));
+    console.log(`Counted ${book.name.english}`);
+  }
+
+  fs.writeFileSync(path.join(OUTPUT_DIR, 'summary.json'), JSON.stringify(summary));
+  console.log(
+    `\nWrote statistics for ${chapterCount} chapters (${summary.levels.length} word levels) to ${OUTPUT_DIR}`
+  );
+}
+
+buildStats();
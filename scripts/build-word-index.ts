@@ -0,0 +1,74 @@
+/**
+ * Builds the inverted word index used by the concordance.
+ *
+ * Scans every preprocessed chapter and records, for each segmented word,
+ * the verses it appears in. Output is sharded (see src/data/wordIndex.ts).
+ *
+ * Run with: npx tsx scripts/build-word-index.ts
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { BIBLE_BOOKS } from '../src/data/bible/books';
+import {
+  WORD_INDEX_SHARD_COUNT,
+  getWordIndexShard,
+  type WordIndexShard,
+} from '../src/data/wordIndex';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const PREPROCESSED_DIR = path.join(__dirname, '../public/data/preprocessed');
+const OUTPUT_DIR = path.join(PREPROCESSED_DIR, 'word-index');
+
+interface ChapterData {
+  verses: {
+    number: number;
+    words: { chinese: string; pinyin?: string }[];
+  }[];
+}
+
+function buildIndex(): void {
+  const shards: WordIndexShard[] = Array.from({ length: WORD_INDEX_SHARD_COUNT }, () => ({}));
+  let chapterCount = 0;
+  let postingCount = 0;
+
+  // Canonical book order keeps each word's postings in reading order
+  for (const book of BIBLE_BOOKS) {
+    for (let chapter = 1; chapter <= book.chapterCount; chapter++) {
+      const filePath = path.join(PREPROCESSED_DIR, book.id, `chapter-${chapter}.json`);
+      if (!fs.existsSync(filePath)) continue;
+
+      const data: ChapterData = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      chapterCount++;
+
+      for (const verse of data.verses) {
+        // A word repeated within a verse is listed once
+        const words = new Set(
+          verse.words.filter((w) => w.chinese && w.pinyin).map((w) => w.chinese)
+        );
+        for (const word of words) {
+          const shard = shards[getWordIndexShard(word)];
+          const books = (shard[word] ??= {});
+          (books[book.id] ??= []).push(chapter, verse.number);
+          postingCount++;
+        }
+      }
+    }
+    console.log(`Indexed ${book.name.english}`);
+  }
+
+  fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+  shards.forEach((shard, index) => {
+    fs.writeFileSync(path.join(OUTPUT_DIR, `${index}.json`), JSON.stringify(shard));
+  });
+
+  const wordCount = shards.reduce((sum, shard) => sum + Object.keys(shard).length, 0);
+  console.log(
+    `\nIndexed ${wordCount} words (${postingCount} occurrences) from ${chapterCount} chapters into ${WORD_INDEX_SHARD_COUNT} shards`
+  );
+}
+
+buildIndex();
@@ -4,6 +4,9 @@
  * Provides HSK and TOCFL level lookups for Chinese words.
  * Sources:
  * - HSK: https://github.com/drkameleon/complete-hsk-vocabulary
+ *   - data/hsk1.json ... hsk6.json: HSK 2.0 ("old") lists, one file per level
+ *   - data/new-hsk1.json ... new-hsk7.json: HSK 3.0 ("new") lists, optional;
+ *     new-hsk7.json holds the shared 7-9 band
  * - TOCFL: https://github.com/PSeitz/tocfl
  */
 
@@ -33,6 +36,7 @@ interface TOCFLEntry {
 
 export interface ProficiencyInfo {
   hskLevel?: number;      // 1-6 (classic HSK)
+  hsk3Level?: number;     // 1-7 (HSK 3.0, 7 = levels 7-9)
   tocflLevel?: number;    // 1-7 (TOCFL bands)
   /** Combined level for filtering (1=easiest, 10=hardest/unknown) */
   combinedLevel: number;
@@ -41,9 +45,40 @@ export interface ProficiencyInfo {
 // Lookup maps
 let hskTraditionalMap: Map<string, number> = new Map();
 let hskSimplifiedMap: Map<string, number> = new Map();
+const hsk3TraditionalMap: Map<string, number> = new Map();
+const hsk3SimplifiedMap: Map<string, number> = new Map();
 let tocflMap: Map<string, number> = new Map();
 let initialized = false;
 
+/**
+ * Add one complete-hsk-vocabulary level list to the lookup maps.
+ * Missing files are skipped; a word keeps the first (lowest) level it appears at.
+ */
+function loadHskList(
+  filePath: string,
+  level: number,
+  traditionalMap: Map<string, number>,
+  simplifiedMap: Map<string, number>
+): void {
+  if (!fs.existsSync(filePath)) return;
+
+  const data: HSKEntry[] = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  for (const entry of data) {
+    // Map simplified
+    if (entry.simplified && !simplifiedMap.has(entry.simplified)) {
+      simplifiedMap.set(entry.simplified, level);
+    }
+    // Map traditional
+    if (entry.forms) {
+      for (const form of entry.forms) {
+        if (form.traditional && !traditionalMap.has(form.traditional)) {
+          traditionalMap.set(form.traditional, level);
+        }
+      }
+    }
+  }
+}
+
 /**
  * Initialize the proficiency lookup tables
  */
@@ -52,26 +87,14 @@ export async function initProficiencyLookup(): Promise<void> {
 
   const dataDir = path.join(__dirname, 'data');
 
-  // Load HSK data (levels 1-6)
+  // Load HSK 2.0 data (levels 1-6)
   for (let level = 1; level <= 6; level++) {
-    const filePath = path.join(dataDir, `hsk${level}.json`);
-    if (fs.existsSync(filePath)) {
-      const data: HSKEntry[] = JSON.parse(fs.readFileSync(filePath, 'utf8'));
-      for (const entry of data) {
-        // Map simplified
-        if (entry.simplified && !hskSimplifiedMap.has(entry.simplified)) {
-          hskSimplifiedMap.set(entry.simplified, level);
-        }
-        // Map traditional
-        if (entry.forms) {
-          for (const form of entry.forms) {
-            if (form.traditional && !hskTraditionalMap.has(form.traditional)) {
-              hskTraditionalMap.set(form.traditional, level);
-            }
-          }
-        }
-      }
-    }
+    loadHskList(path.join(dataDir, `hsk${level}.json`), level, hskTraditionalMap, hskSimplifiedMap);
+  }
+
+  // Load HSK 3.0 data (levels 1-6, then the 7-9 band)
+  for (let level = 1; level <= 7; level++) {
+    loadHskList(path.join(dataDir, `new-hsk${level}.json`), level, hsk3TraditionalMap, hsk3SimplifiedMap);
   }
 
   // Load TOCFL data
@@ -99,6 +122,7 @@ export async function initProficiencyLookup(): Promise<void> {
   console.log(`Proficiency lookup initialized:`);
   console.log(`  HSK Traditional: ${hskTraditionalMap.size} words`);
   console.log(`  HSK Simplified: ${hskSimplifiedMap.size} words`);
+  console.log(`  HSK 3.0 Traditional: ${hsk3TraditionalMap.size} words`);
   console.log(`  TOCFL: ${tocflMap.size} words`);
 }
 
@@ -112,6 +136,7 @@ export function lookupProficiency(word: string): ProficiencyInfo {
 
   // Try traditional first (most common in this app), then simplified
   const hskLevel = hskTraditionalMap.get(word) ?? hskSimplifiedMap.get(word);
+  const hsk3Level = hsk3TraditionalMap.get(word) ?? hsk3SimplifiedMap.get(word);
   const tocflLevel = tocflMap.get(word);
 
   // Calculate combined level (1-10 scale)
@@ -139,6 +164,7 @@ export function lookupProficiency(word: string): ProficiencyInfo {
 
   return {
     hskLevel,
+    hsk3Level,
     tocflLevel,
     combinedLevel,
   };
@@ -205,7 +231,7 @@ if (isMain) {
     for (const word of testWords) {
       const info = lookupProficiency(word);
       const freq = getFrequencyFromProficiency(word);
-      console.log(`  ${word}: HSK=${info.hskLevel ?? '-'}, TOCFL=${info.tocflLevel ?? '-'}, combined=${info.combinedLevel}, freq=${freq ?? 'unknown'}`);
+      console.log(`  ${word}: HSK=${info.hskLevel ?? '-'}, HSK3=${info.hsk3Level ?? '-'}, TOCFL=${info.tocflLevel ?? '-'}, combined=${info.combinedLevel}, freq=${freq ?? 'unknown'}`);
     }
   });
 }
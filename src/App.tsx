@@ -4,7 +4,7 @@ import { useSettingsStore } from './stores';
 import { useSyncManager } from './hooks';
 
 function App() {
-  const { theme, textSize, pinyinDisplay, showHskIndicators } = useSettingsStore();
+  const { theme, textSize, pinyinDisplay, showHskIndicators, toneColors } = useSettingsStore();
 
   // Initialize sync manager for Firebase sync
   useSyncManager();
@@ -15,7 +15,8 @@ function App() {
     document.documentElement.setAttribute('data-text-size', textSize);
     document.documentElement.setAttribute('data-pinyin', pinyinDisplay);
     document.documentElement.setAttribute('data-show-hsk', String(showHskIndicators));
-  }, [theme, textSize, pinyinDisplay, showHskIndicators]);
+    document.documentElement.setAttribute('data-tone-colors', toneColors);
+  }, [theme, textSize, pinyinDisplay, showHskIndicators, toneColors]);
 
   return <ReadingScreen />;
 }
@@ -0,0 +1,543 @@
+/**
+ * BookmarksScreen - saved verses, filed in collections and tagged
+ *
+ * Each bookmark shows its verse in Chinese and English, loaded as the list
+ * needs it. Select mode moves, tags or deletes many bookmarks at once.
+ */
+
+import { memo, useEffect, useMemo, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useShallow } from 'zustand/react/shallow';
+import type { VerseReference } from '../../types';
+import { useBookmarkStore, useReadingStore, useSettingsStore } from '../../stores';
+import type { Bookmark } from '../../stores/bookmarkStore';
+import { getBookById } from '../../data/bible';
+import { getEnglishVerseAsync, loadTranslation } from '../../data/english';
+import { loadPreprocessedVerse } from '../../services/preprocessedLoader';
+import { convertCharacters } from '../../utils/characterConversion';
+import { BOOKMARK_SORTS, getBookmarkTags, sortBookmarks, type BookmarkSort } from '../../utils/bookmarks';
+
+interface BookmarksScreenProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Collection filter: everything, bookmarks in no collection, or one collection by name
+type CollectionFilter = { kind: 'all' } | { kind: 'unfiled' } | { kind: 'collection'; name: string };
+
+const verseKey = (ref: VerseReference) => `${ref.bookId}:${ref.chapter}:${ref.verse}`;
+
+function FilterChip({
+  label,
+  isActive,
+  onClick,
+}: {
+  label: string;
+  isActive: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      className="touch-feedback flex-shrink-0 rounded-full px-3 py-1 font-body text-xs tracking-wide"
+      style={{
+        backgroundColor: isActive ? 'var(--accent-subtle)' : 'var(--bg-secondary)',
+        color: isActive ? 'var(--accent)' : 'var(--text-secondary)',
+      }}
+      onClick={onClick}
+      aria-pressed={isActive}
+    >
+      {label}
+    </button>
+  );
+}
+
+// Small inline form for a name: new collection, rename, or a tag
+function NameInput({
+  placeholder,
+  initialValue = '',
+  onSubmit,
+  onCancel,
+}: {
+  placeholder: string;
+  initialValue?: string;
+  onSubmit: (value: string) => void;
+  onCancel: () => void;
+}) {
+  const [value, setValue] = useState(initialValue);
+  return (
+    <form
+      className="flex items-center gap-1"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (value.trim()) onSubmit(value);
+      }}
+    >
+      <input
+        type="text"
+        className="w-32 rounded-full px-3 py-1 font-body text-xs outline-none"
+        style={{ backgroundColor: 'var(--bg-secondary)', color: 'var(--text-primary)' }}
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => e.key === 'Escape' && onCancel()}
+        autoFocus
+      />
+      <button type="submit" className="font-body text-xs" style={{ color: 'var(--accent)' }}>
+        OK
+      </button>
+      <button type="button" className="font-body text-xs" style={{ color: 'var(--text-tertiary)' }} onClick={onCancel}>
+        Cancel
+      </button>
+    </form>
+  );
+}
+
+export const BookmarksScreen = memo(function BookmarksScreen({ isOpen, onClose }: BookmarksScreenProps) {
+  const { setCurrentPosition } = useReadingStore();
+  const characterSet = useSettingsStore((state) => state.characterSet);
+  const englishVersion = useSettingsStore((state) => state.englishVersion);
+  const bookmarks = useBookmarkStore((state) => state.bookmarks);
+  // Shallow compare, since the list is rebuilt on every call
+  const collections = useBookmarkStore(useShallow((state) => state.getCollections()));
+  const {
+    createCollection,
+    renameCollection,
+    deleteCollection,
+    moveBookmarks,
+    setTags,
+    addTag,
+    removeBookmarks,
+  } = useBookmarkStore();
+
+  const [sort, setSort] = useState<BookmarkSort>('canonical');
+  const [filter, setFilter] = useState<CollectionFilter>({ kind: 'all' });
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null); // null outside select mode
+  const [naming, setNaming] = useState<'new' | 'rename' | 'tag' | null>(null);
+  const [chineseTexts, setChineseTexts] = useState<Record<string, string>>({});
+  const [englishTexts, setEnglishTexts] = useState<Record<string, string>>({});
+  const requestedRef = useRef(new Set<string>());
+
+  const tags = useMemo(() => getBookmarkTags(bookmarks), [bookmarks]);
+
+  // A deleted collection or tag falls back to showing everything
+  const activeFilter = useMemo<CollectionFilter>(
+    () => (filter.kind === 'collection' && !collections.includes(filter.name) ? { kind: 'all' } : filter),
+    [filter, collections]
+  );
+  const activeTag = tagFilter && tags.includes(tagFilter) ? tagFilter : null;
+
+  const visibleBookmarks = useMemo(() => {
+    const filtered = bookmarks.filter((b) => {
+      if (activeFilter.kind === 'unfiled' && b.collection) return false;
+      if (activeFilter.kind === 'collection' && b.collection !== activeFilter.name) return false;
+      if (activeTag && !b.tags?.includes(activeTag)) return false;
+      return true;
+    });
+    return sortBookmarks(filtered, sort);
+  }, [bookmarks, activeFilter, activeTag, sort]);
+
+  // Load verse text for bookmarks not shown before; failed ones are retried on the next pass
+  useEffect(() => {
+    if (!isOpen) return;
+    const requestKey = (ref: VerseReference) => `${englishVersion}|${verseKey(ref)}`;
+    const pending = visibleBookmarks.filter((b) => !requestedRef.current.has(requestKey(b.verseRef)));
+    if (pending.length === 0) return;
+    pending.forEach((b) => requestedRef.current.add(requestKey(b.verseRef)));
+
+    loadTranslation(englishVersion)
+      .then(() =>
+        Promise.allSettled(
+          pending.map(async ({ verseRef }) => {
+            const [verse, english] = await Promise.all([
+              loadPreprocessedVerse(verseRef.bookId, verseRef.chapter, verseRef.verse),
+              getEnglishVerseAsync(verseRef.bookId, verseRef.chapter, verseRef.verse, englishVersion),
+            ]);
+            return { key: verseKey(verseRef), chinese: verse?.text, english };
+          })
+        )
+      )
+      .then((settled) => {
+        const results = settled.flatMap((r, i) => {
+          if (r.status === 'fulfilled') return [r.value];
+          console.warn('[BookmarksScreen] Failed to load verse text:', r.reason);
+          requestedRef.current.delete(requestKey(pending[i].verseRef));
+          return [];
+        });
+        setChineseTexts((prev) => {
+          const next = { ...prev };
+          results.forEach((r) => r.chinese && (next[r.key] = r.chinese));
+          return next;
+        });
+        setEnglishTexts((prev) => {
+          const next = { ...prev };
+          results.forEach((r) => r.english && (next[`${englishVersion}|${r.key}`] = r.english));
+          return next;
+        });
+      })
+      .catch((error) => {
+        console.warn('[BookmarksScreen] Failed to load verse text:', error);
+        pending.forEach((b) => requestedRef.current.delete(requestKey(b.verseRef)));
+      });
+  }, [isOpen, visibleBookmarks, englishVersion]);
+
+  const isSelecting = selectedIds !== null;
+  const selectedCount = selectedIds?.size ?? 0;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const exitSelectMode = () => {
+    setSelectedIds(null);
+    setNaming(null);
+  };
+
+  const handleOpen = (bookmark: Bookmark) => {
+    setCurrentPosition(bookmark.verseRef.bookId, bookmark.verseRef.chapter, bookmark.verseRef.verse);
+    onClose();
+  };
+
+  const handleMoveSelected = (value: string) => {
+    if (!selectedIds) return;
+    moveBookmarks([...selectedIds], value === '' ? undefined : value);
+    exitSelectMode();
+  };
+
+  const handleDeleteSelected = () => {
+    if (!selectedIds || selectedCount === 0) return;
+    if (window.confirm(`Delete ${selectedCount} bookmark${selectedCount === 1 ? '' : 's'}?`)) {
+      removeBookmarks([...selectedIds]);
+      exitSelectMode();
+    }
+  };
+
+  const handleNameSubmit = (value: string) => {
+    if (naming === 'new') {
+      createCollection(value);
+      setFilter({ kind: 'collection', name: value.trim() });
+    } else if (naming === 'rename' && activeFilter.kind === 'collection') {
+      renameCollection(activeFilter.name, value);
+      setFilter({ kind: 'collection', name: value.trim() });
+    } else if (naming === 'tag' && selectedIds && selectedCount > 0) {
+      addTag([...selectedIds], value);
+      exitSelectMode();
+    }
+    setNaming(null);
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          className="fixed inset-0 z-46 flex flex-col safe-area-top safe-area-bottom"
+          style={{ backgroundColor: 'var(--bg-primary)' }}
+          initial={{ y: '100%' }}
+          animate={{ y: 0 }}
+          exit={{ y: '100%' }}
+          transition={{ type: 'spring', damping: 30, stiffness: 300 }}
+        >
+          <div className="mx-auto flex w-full max-w-2xl flex-1 flex-col overflow-hidden">
+            {/* Header */}
+            <div
+              className="flex items-center gap-3 px-4 py-3"
+              style={{ borderBottom: '1px solid var(--border-subtle)' }}
+            >
+              <h2 className="flex-1 font-display text-lg" style={{ color: 'var(--text-primary)' }}>
+                Bookmarks
+                <span className="ml-2 font-body text-xs" style={{ color: 'var(--text-tertiary)' }}>
+                  {bookmarks.length}
+                </span>
+              </h2>
+              {bookmarks.length > 0 && (
+                <button
+                  className="touch-feedback rounded-lg px-2 py-1 font-body text-xs"
+                  style={{ color: 'var(--accent)' }}
+                  onClick={() => (isSelecting ? exitSelectMode() : setSelectedIds(new Set()))}
+                >
+                  {isSelecting ? 'Done' : 'Select'}
+                </button>
+              )}
+              <motion.button
+                className="touch-feedback rounded-lg p-1.5"
+                style={{ color: 'var(--text-tertiary)' }}
+                onClick={onClose}
+                whileTap={{ scale: 0.9 }}
+                aria-label="Close bookmarks"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                  <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
+                </svg>
+              </motion.button>
+            </div>
+
+            {/* Collections */}
+            <div className="flex items-center gap-1.5 overflow-x-auto px-4 pt-2 pb-1">
+              <FilterChip label="All" isActive={activeFilter.kind === 'all'} onClick={() => setFilter({ kind: 'all' })} />
+              <FilterChip
+                label="Unfiled"
+                isActive={activeFilter.kind === 'unfiled'}
+                onClick={() => setFilter({ kind: 'unfiled' })}
+              />
+              {collections.map((name) => (
+                <FilterChip
+                  key={name}
+                  label={name}
+                  isActive={activeFilter.kind === 'collection' && activeFilter.name === name}
+                  onClick={() => setFilter({ kind: 'collection', name })}
+                />
+              ))}
+              {naming === 'new' ? (
+                <NameInput placeholder="Collection name" onSubmit={handleNameSubmit} onCancel={() => setNaming(null)} />
+              ) : (
+                <button
+                  className="touch-feedback flex-shrink-0 rounded-full px-3 py-1 font-body text-xs"
+                  style={{ color: 'var(--text-tertiary)', border: '1px dashed var(--border)' }}
+                  onClick={() => setNaming('new')}
+                >
+                  + Collection
+                </button>
+              )}
+            </div>
+
+            {/* Selected collection actions */}
+            {activeFilter.kind === 'collection' && !isSelecting && (
+              <div className="flex items-center gap-3 px-4 py-1">
+                {naming === 'rename' ? (
+                  <NameInput
+                    placeholder="Collection name"
+                    initialValue={activeFilter.name}
+                    onSubmit={handleNameSubmit}
+                    onCancel={() => setNaming(null)}
+                  />
+                ) : (
+                  <>
+                    <button
+                      className="font-body text-[11px]"
+                      style={{ color: 'var(--text-tertiary)' }}
+                      onClick={() => setNaming('rename')}
+                    >
+                      Rename
+                    </button>
+                    <button
+                      className="font-body text-[11px]"
+                      style={{ color: 'var(--error)' }}
+                      onClick={() => {
+                        if (window.confirm(`Delete the collection "${activeFilter.name}"? Its bookmarks are kept.`)) {
+                          deleteCollection(activeFilter.name);
+                        }
+                      }}
+                    >
+                      Delete collection
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+
+            {/* Tags and sort order */}
+            <div className="flex flex-wrap items-center gap-1.5 px-4 py-2">
+              {tags.map((tag) => (
+                <button
+                  key={tag}
+                  className="touch-feedback rounded-md px-1.5 py-0.5 font-body text-[11px]"
+                  style={{
+                    backgroundColor: activeTag === tag ? 'var(--accent-subtle)' : 'transparent',
+                    color: activeTag === tag ? 'var(--accent)' : 'var(--text-tertiary)',
+                  }}
+                  onClick={() => setTagFilter(activeTag === tag ? null : tag)}
+                  aria-pressed={activeTag === tag}
+                >
+                  #{tag}
+                </button>
+              ))}
+              <div className="ml-auto flex rounded-lg p-0.5" style={{ backgroundColor: 'var(--bg-secondary)' }}>
+                {BOOKMARK_SORTS.map((option) => (
+                  <button
+                    key={option.value}
+                    className="rounded-md px-2 py-0.5 font-body text-[11px]"
+                    style={{
+                      backgroundColor: sort === option.value ? 'var(--card-bg)' : 'transparent',
+                      color: sort === option.value ? 'var(--text-primary)' : 'var(--text-tertiary)',
+                    }}
+                    onClick={() => setSort(option.value)}
+                    aria-pressed={sort === option.value}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Bookmarks */}
+            <div className="flex-1 overflow-y-auto px-2">
+              {visibleBookmarks.length === 0 ? (
+                <p className="px-2 py-6 text-center font-body text-sm italic" style={{ color: 'var(--text-tertiary)' }}>
+                  {bookmarks.length === 0
+                    ? 'No bookmarks yet. Double-tap a verse and tap the bookmark icon to save it.'
+                    : 'No bookmarks here'}
+                </p>
+              ) : (
+                <ul>
+                  {visibleBookmarks.map((bookmark) => {
+                    const { verseRef } = bookmark;
+                    const book = getBookById(verseRef.bookId);
+                    const key = verseKey(verseRef);
+                    const chinese = chineseTexts[key];
+                    const english = englishTexts[`${englishVersion}|${key}`];
+                    const isSelected = selectedIds?.has(bookmark.id) ?? false;
+
+                    return (
+                      <li
+                        key={bookmark.id}
+                        className="mb-2 flex gap-2 rounded-xl px-3 py-2.5"
+                        style={{
+                          backgroundColor: isSelected ? 'var(--accent-subtle)' : 'var(--card-bg)',
+                          border: '1px solid var(--border-subtle)',
+                        }}
+                      >
+                        {isSelecting && (
+                          <input
+                            type="checkbox"
+                            className="mt-1 flex-shrink-0"
+                            checked={isSelected}
+                            onChange={() => toggleSelected(bookmark.id)}
+                            aria-label={`Select ${book?.name.english ?? verseRef.bookId} ${verseRef.chapter}:${verseRef.verse}`}
+                          />
+                        )}
+                        <div className="min-w-0 flex-1">
+                          <button
+                            className="w-full text-left"
+                            onClick={() => (isSelecting ? toggleSelected(bookmark.id) : handleOpen(bookmark))}
+                          >
+                            <span className="flex items-baseline gap-2">
+                              <span className="font-chinese-serif text-xs" style={{ color: 'var(--accent)' }}>
+                                {book ? convertCharacters(book.name.chinese, characterSet) : verseRef.bookId} {verseRef.chapter}:{verseRef.verse}
+                              </span>
+                              <span className="font-body text-[10px]" style={{ color: 'var(--text-tertiary)' }}>
+                                {book?.name.english}
+                              </span>
+                              {bookmark.collection && activeFilter.kind !== 'collection' && (
+                                <span
+                                  className="ml-auto flex-shrink-0 font-display text-[9px] tracking-widest uppercase"
+                                  style={{ color: 'var(--text-tertiary)' }}
+                                >
+                                  {bookmark.collection}
+                                </span>
+                              )}
+                            </span>
+                            <p className="mt-0.5 font-chinese-serif text-sm leading-relaxed" style={{ color: 'var(--text-primary)' }}>
+                              {chinese ? convertCharacters(chinese, characterSet) : '…'}
+                            </p>
+                            {english && (
+                              <p className="mt-0.5 font-body text-sm leading-snug" style={{ color: 'var(--text-secondary)' }}>
+                                {english}
+                              </p>
+                            )}
+                            {bookmark.note && (
+                              <p className="mt-1 font-body text-xs italic" style={{ color: 'var(--text-tertiary)' }}>
+                                {bookmark.note}
+                              </p>
+                            )}
+                          </button>
+                          {bookmark.tags && bookmark.tags.length > 0 && (
+                            <div className="mt-1.5 flex flex-wrap gap-1">
+                              {bookmark.tags.map((tag) => (
+                                <span
+                                  key={tag}
+                                  className="inline-flex items-center gap-1 rounded-md px-1.5 py-0.5 font-body text-[10px]"
+                                  style={{ backgroundColor: 'var(--bg-secondary)', color: 'var(--text-secondary)' }}
+                                >
+                                  #{tag}
+                                  <button
+                                    style={{ color: 'var(--text-tertiary)' }}
+                                    onClick={() => setTags(bookmark.id, bookmark.tags!.filter((t) => t !== tag))}
+                                    aria-label={`Remove tag ${tag}`}
+                                  >
+                                    ×
+                                  </button>
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+
+            {/* Bulk actions */}
+            {isSelecting && (
+              <div
+                className="flex flex-wrap items-center gap-2 px-4 py-2"
+                style={{ borderTop: '1px solid var(--border-subtle)' }}
+              >
+                <span className="font-body text-[11px]" style={{ color: 'var(--text-tertiary)' }}>
+                  {selectedCount} selected
+                </span>
+                <button
+                  className="font-body text-[11px]"
+                  style={{ color: 'var(--accent)' }}
+                  onClick={() =>
+                    setSelectedIds(
+                      selectedCount === visibleBookmarks.length ? new Set() : new Set(visibleBookmarks.map((b) => b.id))
+                    )
+                  }
+                >
+                  {selectedCount === visibleBookmarks.length ? 'Select none' : 'Select all'}
+                </button>
+                {naming === 'tag' ? (
+                  <NameInput placeholder="Tag" onSubmit={handleNameSubmit} onCancel={() => setNaming(null)} />
+                ) : (
+                  <div className="ml-auto flex items-center gap-2">
+                    <select
+                      className="rounded-lg px-2 py-1 font-body text-xs outline-none"
+                      style={{ backgroundColor: 'var(--bg-secondary)', color: 'var(--text-primary)' }}
+                      value=""
+                      onChange={(e) => handleMoveSelected(e.target.value)}
+                      disabled={selectedCount === 0}
+                      aria-label="Move selected bookmarks to a collection"
+                    >
+                      <option value="" disabled>
+                        Move to…
+                      </option>
+                      {collections.map((name) => (
+                        <option key={name} value={name}>
+                          {name}
+                        </option>
+                      ))}
+                      <option value="">No collection</option>
+                    </select>
+                    <button
+                      className="touch-feedback rounded-lg px-2 py-1 font-body text-xs"
+                      style={{ backgroundColor: 'var(--bg-secondary)', color: 'var(--text-primary)' }}
+                      onClick={() => setNaming('tag')}
+                      disabled={selectedCount === 0}
+                    >
+                      Tag…
+                    </button>
+                    <button
+                      className="touch-feedback rounded-lg px-2 py-1 font-body text-xs"
+                      style={{ color: 'var(--error)' }}
+                      onClick={handleDeleteSelected}
+                      disabled={selectedCount === 0}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+});
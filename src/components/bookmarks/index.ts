@@ -0,0 +1 @@
+export { BookmarksScreen } from './BookmarksScreen';
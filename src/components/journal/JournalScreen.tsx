@@ -0,0 +1,567 @@
+/**
+ * JournalScreen - study journal
+ *
+ * Dated entries with light markdown, linked to verse ranges and saved words.
+ * Opened from a verse, the list narrows to entries on that verse and new
+ * entries start out linked to it (or to the highlighted range around it).
+ */
+
+import { memo, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { JournalEntry, JournalPassage, VerseReference } from '../../types';
+import { useHighlightStore, useJournalStore, useReadingStore, useVocabularyStore } from '../../stores';
+import {
+  formatJournalPassage,
+  journalEntryCoversVerse,
+  journalToMarkdown,
+  parseJournalBlocks,
+  parseJournalInline,
+  searchJournalEntries,
+} from '../../utils/journal';
+import { highlightCoversVerse } from '../../utils/highlights';
+import { downloadBlob } from '../../utils/download';
+
+interface JournalScreenProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Verse the journal was opened from, if any
+  verseRef?: VerseReference | null;
+}
+
+const MAX_WORD_SUGGESTIONS = 6;
+
+const isSamePassage = (a: JournalPassage, b: JournalPassage) =>
+  a.bookId === b.bookId && a.chapter === b.chapter && a.startVerse === b.startVerse && a.endVerse === b.endVerse;
+
+const formatEntryDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+
+// **bold** and *italic* within a line
+function InlineText({ text }: { text: string }) {
+  return (
+    <>
+      {parseJournalInline(text).map((run, index) =>
+        run.bold ? (
+          <strong key={index}>{run.text}</strong>
+        ) : run.italic ? (
+          <em key={index}>{run.text}</em>
+        ) : (
+          <span key={index}>{run.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+// Entry body rendered from its markdown subset
+function JournalBody({ body }: { body: string }) {
+  const blocks = useMemo(() => parseJournalBlocks(body), [body]);
+
+  return (
+    <div className="flex flex-col gap-1.5 font-body text-sm leading-relaxed" style={{ color: 'var(--text-primary)' }}>
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'heading':
+            return (
+              <p
+                key={index}
+                className={`font-display ${block.level === 1 ? 'text-base' : 'text-sm'} font-semibold`}
+                style={{ color: block.level === 3 ? 'var(--text-secondary)' : 'var(--text-primary)' }}
+              >
+                <InlineText text={block.text} />
+              </p>
+            );
+          case 'quote':
+            return (
+              <blockquote
+                key={index}
+                className="whitespace-pre-line pl-3 italic"
+                style={{ borderLeft: '2px solid var(--accent-light)', color: 'var(--text-secondary)' }}
+              >
+                <InlineText text={block.text} />
+              </blockquote>
+            );
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul';
+            return (
+              <List key={index} className={`pl-5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}>
+                    <InlineText text={item} />
+                  </li>
+                ))}
+              </List>
+            );
+          }
+          default:
+            return (
+              <p key={index} className="whitespace-pre-line">
+                <InlineText text={block.text} />
+              </p>
+            );
+        }
+      })}
+    </div>
+  );
+}
+
+function Chip({
+  label,
+  onClick,
+  onRemove,
+  chinese = false,
+}: {
+  label: string;
+  onClick?: () => void;
+  onRemove?: () => void;
+  chinese?: boolean;
+}) {
+  return (
+    <span
+      className="inline-flex items-center gap-1 rounded-md px-1.5 py-0.5 text-[11px]"
+      style={{ backgroundColor: 'var(--bg-secondary)', color: 'var(--accent)', border: '1px solid var(--border-subtle)' }}
+    >
+      <button
+        className={`${chinese ? 'font-chinese-serif' : 'font-body'} hover:opacity-80 transition-opacity`}
+        onClick={onClick}
+        disabled={!onClick}
+      >
+        {label}
+      </button>
+      {onRemove && (
+        <button
+          className="hover:opacity-80 transition-opacity"
+          style={{ color: 'var(--text-tertiary)' }}
+          onClick={onRemove}
+          aria-label={`Unlink ${label}`}
+        >
+          ×
+        </button>
+      )}
+    </span>
+  );
+}
+
+// Editing form for one entry; changes are saved as they are made
+function EntryEditor({
+  entry,
+  contextPassage,
+  onDone,
+  onDelete,
+}: {
+  entry: JournalEntry;
+  contextPassage: JournalPassage | null;
+  onDone: () => void;
+  onDelete: () => void;
+}) {
+  const updateEntry = useJournalStore((state) => state.updateEntry);
+  const vocabulary = useVocabularyStore((state) => state.words);
+  const [isPreview, setIsPreview] = useState(false);
+  const [wordQuery, setWordQuery] = useState('');
+
+  const wordSuggestions = useMemo(() => {
+    const q = wordQuery.trim().toLowerCase();
+    if (!q) return [];
+    return vocabulary
+      .filter(
+        (word) =>
+          !entry.words.includes(word.chinese) &&
+          (word.chinese.includes(q) ||
+            word.pinyin.toLowerCase().includes(q) ||
+            word.definition.toLowerCase().includes(q))
+      )
+      .slice(0, MAX_WORD_SUGGESTIONS);
+  }, [vocabulary, wordQuery, entry.words]);
+
+  const canLinkContext = contextPassage && !entry.passages.some((p) => isSamePassage(p, contextPassage));
+
+  return (
+    <div className="flex flex-col gap-3 px-4 py-3">
+      <input
+        type="text"
+        placeholder="Title"
+        className="bg-transparent font-display text-lg outline-none placeholder:italic"
+        style={{ color: 'var(--text-primary)' }}
+        value={entry.title}
+        onChange={(e) => updateEntry(entry.id, { title: e.target.value })}
+        aria-label="Entry title"
+      />
+
+      {/* Linked passages */}
+      <div className="flex flex-wrap items-center gap-1.5">
+        {entry.passages.map((passage) => (
+          <Chip
+            key={`${passage.bookId}:${passage.chapter}:${passage.startVerse}-${passage.endVerse}`}
+            label={formatJournalPassage(passage)}
+            onRemove={() =>
+              updateEntry(entry.id, { passages: entry.passages.filter((p) => !isSamePassage(p, passage)) })
+            }
+          />
+        ))}
+        {canLinkContext && (
+          <button
+            className="touch-feedback rounded-md px-1.5 py-0.5 font-body text-[11px]"
+            style={{ color: 'var(--text-tertiary)', border: '1px dashed var(--border)' }}
+            onClick={() => updateEntry(entry.id, { passages: [...entry.passages, contextPassage] })}
+          >
+            + Link {formatJournalPassage(contextPassage)}
+          </button>
+        )}
+      </div>
+
+      {/* Linked saved words */}
+      <div className="flex flex-wrap items-center gap-1.5">
+        {entry.words.map((chinese) => (
+          <Chip
+            key={chinese}
+            label={chinese}
+            chinese
+            onRemove={() => updateEntry(entry.id, { words: entry.words.filter((w) => w !== chinese) })}
+          />
+        ))}
+        <input
+          type="search"
+          placeholder="Link a saved word…"
+          className="min-w-[8rem] flex-1 bg-transparent font-body text-xs outline-none placeholder:italic"
+          style={{ color: 'var(--text-primary)' }}
+          value={wordQuery}
+          onChange={(e) => setWordQuery(e.target.value)}
+          aria-label="Find a saved word to link"
+        />
+      </div>
+      {wordSuggestions.length > 0 && (
+        <div className="-mt-1.5 flex flex-wrap gap-1.5">
+          {wordSuggestions.map((word) => (
+            <button
+              key={word.id}
+              className="touch-feedback rounded-md px-1.5 py-0.5 text-left"
+              style={{ backgroundColor: 'var(--accent-subtle)', color: 'var(--accent)' }}
+              onClick={() => {
+                updateEntry(entry.id, { words: [...entry.words, word.chinese] });
+                setWordQuery('');
+              }}
+            >
+              <span className="font-chinese-serif text-xs">{word.chinese}</span>
+              <span className="ml-1 font-body text-[10px]" style={{ color: 'var(--text-tertiary)' }}>
+                {word.pinyin}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Write / preview */}
+      <div className="flex rounded-lg p-0.5 self-start" style={{ backgroundColor: 'var(--bg-secondary)' }}>
+        {[
+          { value: false, label: 'Write' },
+          { value: true, label: 'Preview' },
+        ].map((option) => (
+          <button
+            key={option.label}
+            className="rounded-md px-3 py-1 font-body text-xs"
+            style={{
+              backgroundColor: isPreview === option.value ? 'var(--card-bg)' : 'transparent',
+              color: isPreview === option.value ? 'var(--text-primary)' : 'var(--text-tertiary)',
+            }}
+            onClick={() => setIsPreview(option.value)}
+            aria-pressed={isPreview === option.value}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {isPreview ? (
+        <div className="min-h-[12rem]">
+          <JournalBody body={entry.body} />
+        </div>
+      ) : (
+        <textarea
+          placeholder={'Thoughts, questions, prayers…\n\n# Heading, **bold**, *italic*, - list, > quote'}
+          rows={10}
+          className="w-full resize-y rounded-lg px-3 py-2 font-body text-sm leading-relaxed outline-none"
+          style={{
+            backgroundColor: 'var(--bg-secondary)',
+            color: 'var(--text-primary)',
+            border: '1px solid var(--border-subtle)',
+          }}
+          value={entry.body}
+          onChange={(e) => updateEntry(entry.id, { body: e.target.value })}
+          aria-label="Entry text"
+        />
+      )}
+
+      <div className="flex items-center justify-between">
+        <button
+          className="touch-feedback rounded-lg px-3 py-1.5 font-body text-xs"
+          style={{ color: 'var(--error)' }}
+          onClick={onDelete}
+        >
+          Delete entry
+        </button>
+        <button
+          className="touch-feedback rounded-lg px-4 py-1.5 font-body text-xs"
+          style={{ backgroundColor: 'var(--accent)', color: 'white' }}
+          onClick={onDone}
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export const JournalScreen = memo(function JournalScreen({ isOpen, onClose, verseRef = null }: JournalScreenProps) {
+  const { setCurrentPosition } = useReadingStore();
+  const entries = useJournalStore((state) => state.entries);
+  const addEntry = useJournalStore((state) => state.addEntry);
+  const removeEntry = useJournalStore((state) => state.removeEntry);
+  const highlights = useHighlightStore((state) => state.highlights);
+
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  // The verse filter is dropped per verse, so opening from another verse brings it back
+  const [unfilteredVerse, setUnfilteredVerse] = useState<VerseReference | null>(null);
+  const verseFilter = verseRef && verseRef !== unfilteredVerse ? verseRef : null;
+
+  // Passage to link from the verse: the highlighted range around it, or the verse alone
+  const contextPassage = useMemo<JournalPassage | null>(() => {
+    if (!verseRef) return null;
+    const highlight = highlights.find((h) =>
+      highlightCoversVerse(h.range, verseRef.bookId, verseRef.chapter, verseRef.verse)
+    );
+    return {
+      bookId: verseRef.bookId,
+      chapter: verseRef.chapter,
+      startVerse: highlight?.range.startVerse ?? verseRef.verse,
+      endVerse: highlight?.range.endVerse ?? verseRef.verse,
+    };
+  }, [verseRef, highlights]);
+
+  const visibleEntries = useMemo(() => {
+    const matches = searchJournalEntries(entries, query);
+    return verseFilter
+      ? matches.filter((entry) =>
+          journalEntryCoversVerse(entry, verseFilter.bookId, verseFilter.chapter, verseFilter.verse)
+        )
+      : matches;
+  }, [entries, query, verseFilter]);
+
+  const editingEntry = editingId ? entries.find((entry) => entry.id === editingId) : undefined;
+
+  const handleNewEntry = () => {
+    const entry = addEntry({ passages: contextPassage ? [contextPassage] : [] });
+    setEditingId(entry.id);
+  };
+
+  // Leaving an untouched new entry behind would only clutter the list
+  const handleDoneEditing = () => {
+    if (
+      editingEntry &&
+      !editingEntry.title.trim() &&
+      !editingEntry.body.trim() &&
+      editingEntry.words.length === 0 &&
+      editingEntry.passages.every((p) => contextPassage && isSamePassage(p, contextPassage))
+    ) {
+      removeEntry(editingEntry.id);
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = () => {
+    if (!editingEntry) return;
+    if (window.confirm('Delete this journal entry?')) {
+      removeEntry(editingEntry.id);
+      setEditingId(null);
+    }
+  };
+
+  const handleClose = () => {
+    if (editingEntry) handleDoneEditing();
+    onClose();
+  };
+
+  const handleOpenPassage = (passage: JournalPassage) => {
+    setCurrentPosition(passage.bookId, passage.chapter, passage.startVerse);
+    handleClose();
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([journalToMarkdown(entries)], { type: 'text/markdown;charset=utf-8' });
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(blob, `study-journal-${date}.md`);
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          className="fixed inset-0 z-46 flex flex-col safe-area-top safe-area-bottom"
+          style={{ backgroundColor: 'var(--bg-primary)' }}
+          initial={{ y: '100%' }}
+          animate={{ y: 0 }}
+          exit={{ y: '100%' }}
+          transition={{ type: 'spring', damping: 30, stiffness: 300 }}
+        >
+          <div className="mx-auto flex w-full max-w-2xl flex-1 flex-col overflow-hidden">
+            {/* Header */}
+            <div
+              className="flex items-center gap-3 px-4 py-3"
+              style={{ borderBottom: '1px solid var(--border-subtle)' }}
+            >
+              {editingEntry ? (
+                <button
+                  className="touch-feedback flex-1 text-left font-body text-sm"
+                  style={{ color: 'var(--accent)' }}
+                  onClick={handleDoneEditing}
+                >
+                  ‹ Journal
+                  <span className="ml-2 text-xs" style={{ color: 'var(--text-tertiary)' }}>
+                    {formatEntryDate(editingEntry.createdAt)}
+                  </span>
+                </button>
+              ) : (
+                <div
+                  className="flex flex-1 items-center gap-3 rounded-xl px-4 py-2.5"
+                  style={{ backgroundColor: 'var(--bg-secondary)' }}
+                >
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth={1.5}
+                    className="h-5 w-5"
+                    style={{ color: 'var(--text-tertiary)' }}
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607z"
+                    />
+                  </svg>
+                  <input
+                    type="search"
+                    placeholder="Search the journal…"
+                    className="flex-1 bg-transparent font-body text-sm outline-none placeholder:italic"
+                    style={{ color: 'var(--text-primary)' }}
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    aria-label="Search the journal"
+                  />
+                </div>
+              )}
+              <motion.button
+                className="touch-feedback rounded-lg p-1.5"
+                style={{ color: 'var(--text-tertiary)' }}
+                onClick={handleClose}
+                whileTap={{ scale: 0.9 }}
+                aria-label="Close journal"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                  <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
+                </svg>
+              </motion.button>
+            </div>
+
+            {editingEntry ? (
+              <div className="flex-1 overflow-y-auto">
+                <EntryEditor
+                  entry={editingEntry}
+                  contextPassage={contextPassage}
+                  onDone={handleDoneEditing}
+                  onDelete={handleDelete}
+                />
+              </div>
+            ) : (
+              <>
+                {/* Actions and verse filter */}
+                <div className="flex flex-wrap items-center gap-1.5 px-4 py-2">
+                  <button
+                    className="touch-feedback rounded-full px-3 py-1 font-body text-xs tracking-wide"
+                    style={{ backgroundColor: 'var(--accent)', color: 'white' }}
+                    onClick={handleNewEntry}
+                  >
+                    + New entry
+                  </button>
+                  {verseFilter && (
+                    <Chip
+                      label={`On ${formatJournalPassage({
+                        bookId: verseFilter.bookId,
+                        chapter: verseFilter.chapter,
+                        startVerse: verseFilter.verse,
+                        endVerse: verseFilter.verse,
+                      })}`}
+                      onRemove={() => setUnfilteredVerse(verseFilter)}
+                    />
+                  )}
+                  {entries.length > 0 && (
+                    <button
+                      className="touch-feedback ml-auto rounded-full px-3 py-1 font-body text-xs tracking-wide"
+                      style={{ backgroundColor: 'var(--bg-secondary)', color: 'var(--text-secondary)' }}
+                      onClick={handleExport}
+                    >
+                      Export Markdown
+                    </button>
+                  )}
+                </div>
+
+                {/* Entries */}
+                <div className="flex-1 overflow-y-auto px-2">
+                  {visibleEntries.length === 0 ? (
+                    <p className="px-2 py-6 text-center font-body text-sm italic" style={{ color: 'var(--text-tertiary)' }}>
+                      {entries.length === 0
+                        ? 'No entries yet. Write down what you notice as you read.'
+                        : verseFilter && !query.trim()
+                        ? 'No entries on this verse yet'
+                        : 'No entries found'}
+                    </p>
+                  ) : (
+                    <ul>
+                      {visibleEntries.map((entry) => (
+                        <li
+                          key={entry.id}
+                          className="mb-2 rounded-xl px-3 py-2.5"
+                          style={{ backgroundColor: 'var(--card-bg)', border: '1px solid var(--border-subtle)' }}
+                        >
+                          <button className="w-full text-left" onClick={() => setEditingId(entry.id)}>
+                            <span className="flex items-baseline justify-between gap-2">
+                              <span className="truncate font-display text-sm" style={{ color: 'var(--text-primary)' }}>
+                                {entry.title.trim() || 'Untitled'}
+                              </span>
+                              <span className="flex-shrink-0 font-body text-[10px]" style={{ color: 'var(--text-tertiary)' }}>
+                                {formatEntryDate(entry.createdAt)}
+                              </span>
+                            </span>
+                            {entry.body.trim() && (
+                              <div className="mt-1 line-clamp-4">
+                                <JournalBody body={entry.body} />
+                              </div>
+                            )}
+                          </button>
+                          {(entry.passages.length > 0 || entry.words.length > 0) && (
+                            <div className="mt-2 flex flex-wrap gap-1">
+                              {entry.passages.map((passage) => (
+                                <Chip
+                                  key={`${passage.bookId}:${passage.chapter}:${passage.startVerse}-${passage.endVerse}`}
+                                  label={formatJournalPassage(passage)}
+                                  onClick={() => handleOpenPassage(passage)}
+                                />
+                              ))}
+                              {entry.words.map((chinese) => (
+                                <Chip key={chinese} label={chinese} chinese />
+                              ))}
+                            </div>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+});
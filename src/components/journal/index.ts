@@ -0,0 +1 @@
+export { JournalScreen } from './JournalScreen';
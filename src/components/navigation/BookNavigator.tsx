@@ -1,8 +1,28 @@
 import { memo, useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useReadingStore } from '../../stores';
-import { getOldTestamentBooks, getNewTestamentBooks } from '../../data/bible';
+import {
+  useReadingStore,
+  useSettingsStore,
+  useVocabularyStore,
+  useKnownWordsStore,
+  useProgressStore,
+  useHighlightStore,
+} from '../../stores';
+import { getOldTestamentBooks, getNewTestamentBooks, getBookById } from '../../data/bible';
+import type { BookWordList, ChapterStatsSummary } from '../../data/chapterStats';
+import {
+  loadChapterStatsSummary,
+  loadBookWordList,
+  getDifficultyScale,
+  getDifficultyTier,
+  getBookAboveLevelShare,
+  getBookChapterDifficulties,
+  getBookWordCounts,
+  recommendNextChapter,
+  type DifficultyTier,
+} from '../../services/chapterDifficulty';
 import { splitPinyinSyllables } from '../../utils/pinyin';
+import { compareHighlightRanges, formatHighlightRange } from '../../utils/highlights';
 import { useConvertedChinese } from '../../hooks';
 import type { Book } from '../../types/bible';
 
@@ -217,9 +237,96 @@ const CompactChinese = memo(function CompactChinese({
   );
 });
 
+// Difficulty tiers are relative to the rest of the Bible at the learner's level
+const TIER_STYLES: Record<DifficultyTier, { label: string; color: string }> = {
+  easy: { label: 'Easier', color: 'var(--success)' },
+  moderate: { label: 'Typical', color: 'var(--accent)' },
+  hard: { label: 'Harder', color: 'var(--error)' },
+};
+
+const formatShare = (share: number) => `${Math.round(share * 100)}%`;
+
+// Share of words above the reading level, colored by tier
+const DifficultyBadge = memo(function DifficultyBadge({
+  share,
+  tier,
+}: {
+  share: number;
+  tier: DifficultyTier;
+}) {
+  const { label, color } = TIER_STYLES[tier];
+  return (
+    <span
+      className="inline-flex items-center gap-0.5 font-display text-[9px] md:text-[10px]"
+      style={{ color: 'var(--text-tertiary)' }}
+      title={`${label} for your level: ${formatShare(share)} of words above it`}
+    >
+      <span className="h-1.5 w-1.5 rounded-full" style={{ backgroundColor: color }} />
+      {formatShare(share)}
+    </span>
+  );
+});
+
+// Highlights and annotations in one book, in reading order
+const BookHighlights = memo(function BookHighlights({
+  bookId,
+  onSelect,
+}: {
+  bookId: string;
+  onSelect: (chapter: number, verse: number) => void;
+}) {
+  const highlights = useHighlightStore((state) => state.highlights);
+  const bookHighlights = useMemo(
+    () =>
+      highlights
+        .filter((h) => h.range.bookId === bookId)
+        .sort((a, b) => compareHighlightRanges(a.range, b.range)),
+    [highlights, bookId]
+  );
+
+  if (bookHighlights.length === 0) return null;
+
+  return (
+    <div className="mt-2.5">
+      <p
+        className="font-body text-[9px] uppercase tracking-widest mb-1"
+        style={{ color: 'var(--text-tertiary)', opacity: 0.7 }}
+      >
+        Highlights
+      </p>
+      <div className="flex flex-col gap-0.5">
+        {bookHighlights.map((highlight) => (
+          <button
+            key={highlight.id}
+            className="touch-feedback flex items-center gap-2 rounded-md px-1.5 py-1 text-left hover:opacity-80 transition-opacity"
+            onClick={(e) => {
+              e.stopPropagation();
+              onSelect(highlight.range.chapter, highlight.range.startVerse);
+            }}
+          >
+            <span
+              className="h-2 w-2 flex-shrink-0 rounded-full"
+              style={{ backgroundColor: `var(--annotation-${highlight.color})` }}
+            />
+            <span className="font-display text-[12px] flex-shrink-0" style={{ color: 'var(--text-secondary)' }}>
+              {formatHighlightRange(highlight.range)}
+            </span>
+            {highlight.note && (
+              <span className="font-body text-[11px] italic truncate" style={{ color: 'var(--text-tertiary)' }}>
+                {highlight.note}
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+});
+
 interface BookNavigatorProps {
   isOpen: boolean;
   onClose: () => void;
+  onOpenBookmarks?: () => void;
 }
 
 type Testament = 'old' | 'new';
@@ -227,8 +334,14 @@ type Testament = 'old' | 'new';
 export const BookNavigator = memo(function BookNavigator({
   isOpen,
   onClose,
+  onOpenBookmarks,
 }: BookNavigatorProps) {
   const { currentBookId, currentChapter, setCurrentPosition } = useReadingStore();
+  const pinyinLevel = useSettingsStore((state) => state.pinyinLevel);
+  const proficiencySystem = useSettingsStore((state) => state.proficiencySystem);
+  const vocabularyWords = useVocabularyStore((state) => state.words);
+  const knownMarks = useKnownWordsStore((state) => state.marks);
+  const chaptersCompleted = useProgressStore((state) => state.chaptersCompleted);
   const [activeTestament, setActiveTestament] = useState<Testament>('new');
   const [expandedBookId, setExpandedBookId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
@@ -236,6 +349,8 @@ export const BookNavigator = memo(function BookNavigator({
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const expandedBookRef = useRef<HTMLDivElement>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
+  const [statsSummary, setStatsSummary] = useState<ChapterStatsSummary | null>(null);
+  const [bookWordList, setBookWordList] = useState<{ bookId: string; list: BookWordList } | null>(null);
 
   // Memoize book arrays to prevent useEffect re-runs on every render
   const oldTestament = useMemo(() => getOldTestamentBooks(), []);
@@ -267,6 +382,79 @@ export const BookNavigator = memo(function BookNavigator({
     }
   }, [isOpen, currentBookId, oldTestament]);
 
+  // Chapter statistics for difficulty badges, loaded the first time the panel opens
+  useEffect(() => {
+    if (!isOpen || statsSummary) return;
+    let cancelled = false;
+
+    loadChapterStatsSummary()
+      .then((summary) => {
+        if (!cancelled) setStatsSummary(summary);
+      })
+      .catch((error) => {
+        console.warn('[BookNavigator] Chapter statistics not available:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, statsSummary]);
+
+  // Distinct words of the expanded book, for new-word counts
+  useEffect(() => {
+    if (!expandedBookId) return;
+    let cancelled = false;
+
+    loadBookWordList(expandedBookId)
+      .then((list) => {
+        if (!cancelled) setBookWordList({ bookId: expandedBookId, list });
+      })
+      .catch((error) => {
+        console.warn(`[BookNavigator] Word list for ${expandedBookId} not available:`, error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [expandedBookId]);
+
+  // Null at levels where every chapter scores the same (all pinyin or none)
+  const difficultyScale = useMemo(
+    () => (statsSummary ? getDifficultyScale(statsSummary, pinyinLevel, proficiencySystem) : null),
+    [statsSummary, pinyinLevel, proficiencySystem]
+  );
+
+  const expandedBookStats = useMemo(() => {
+    if (!statsSummary || !difficultyScale || !expandedBookId) return null;
+    const list = bookWordList?.bookId === expandedBookId ? bookWordList.list : null;
+    return {
+      share: getBookAboveLevelShare(statsSummary, difficultyScale, expandedBookId),
+      words: list ? getBookWordCounts(difficultyScale, list, vocabularyWords, knownMarks) : null,
+      chapters: list
+        ? getBookChapterDifficulties(
+            statsSummary,
+            difficultyScale,
+            expandedBookId,
+            list,
+            vocabularyWords,
+            knownMarks
+          )
+        : null,
+    };
+  }, [statsSummary, difficultyScale, expandedBookId, bookWordList, vocabularyWords, knownMarks]);
+
+  const recommendation = useMemo(() => {
+    if (!statsSummary || !difficultyScale) return null;
+    return recommendNextChapter(
+      statsSummary,
+      difficultyScale,
+      new Set(chaptersCompleted),
+      currentBookId,
+      currentChapter
+    );
+  }, [statsSummary, difficultyScale, chaptersCompleted, currentBookId, currentChapter]);
+  const recommendedBook = recommendation ? getBookById(recommendation.bookId) : undefined;
+
   // Handle search result click - navigate directly if chapter specified
   const handleSearchResultClick = useCallback((bookId: string, book: Book) => {
     if (searchChapter && searchChapter >= 1 && searchChapter <= book.chapterCount) {
@@ -349,6 +537,12 @@ export const BookNavigator = memo(function BookNavigator({
     setTimeout(() => setExpandedBookId(null), 300);
   }, [setCurrentPosition, onClose]);
 
+  const handleHighlightSelect = useCallback((bookId: string, chapter: number, verse: number) => {
+    setCurrentPosition(bookId, chapter, verse);
+    onClose();
+    setTimeout(() => setExpandedBookId(null), 300);
+  }, [setCurrentPosition, onClose]);
+
   const handleBackdropClick = (e: React.MouseEvent) => {
     if (e.target === e.currentTarget) {
       onClose();
@@ -406,6 +600,15 @@ export const BookNavigator = memo(function BookNavigator({
                 >
                   Select Passage
                 </h2>
+                {onOpenBookmarks && (
+                  <button
+                    className="touch-feedback ml-auto mr-2 rounded-full px-2 py-0.5 font-display text-[10px] tracking-[0.15em] uppercase"
+                    style={{ color: 'var(--accent)' }}
+                    onClick={onOpenBookmarks}
+                  >
+                    Bookmarks
+                  </button>
+                )}
                 <motion.button
                   className="touch-feedback rounded-full p-1"
                   style={{ color: 'var(--text-tertiary)' }}
@@ -801,9 +1004,51 @@ export const BookNavigator = memo(function BookNavigator({
                     transition={{ duration: 0.15 }}
                     className="grid grid-cols-2 sm:grid-cols-3 gap-1.5"
                   >
+                  {/* Recommended next chapter for the reading level */}
+                  {recommendation && recommendedBook && difficultyScale && (
+                    <motion.button
+                      className="touch-feedback col-span-full w-full text-left px-3 py-2 rounded-lg flex items-center justify-between gap-2"
+                      style={{ backgroundColor: 'var(--accent-subtle)' }}
+                      onClick={() => handleChapterSelect(recommendation.bookId, recommendation.chapter)}
+                      whileTap={{ scale: 0.98 }}
+                    >
+                      <div className="min-w-0">
+                        <span
+                          className="font-display text-[9px] tracking-[0.15em] uppercase"
+                          style={{ color: 'var(--accent)' }}
+                        >
+                          Next for your level
+                        </span>
+                        <div className="flex items-center gap-2">
+                          <CompactChinese
+                            chinese={recommendedBook.name.chinese}
+                            pinyin={recommendedBook.name.pinyin || ''}
+                          />
+                          <span
+                            className="font-display text-base font-medium"
+                            style={{ color: 'var(--accent)' }}
+                          >
+                            {recommendation.chapter}
+                          </span>
+                          <span className="font-body text-[10px] truncate" style={{ color: 'var(--text-tertiary)' }}>
+                            {recommendedBook.name.english} {recommendation.chapter}
+                          </span>
+                        </div>
+                      </div>
+                      <DifficultyBadge
+                        share={recommendation.aboveLevelShare}
+                        tier={getDifficultyTier(recommendation.aboveLevelShare, difficultyScale)}
+                      />
+                    </motion.button>
+                  )}
+
                   {books.map((book, index) => {
                     const isExpanded = book.id === expandedBookId;
                     const isCurrent = book.id === currentBookId;
+                    const bookShare =
+                      statsSummary && difficultyScale
+                        ? getBookAboveLevelShare(statsSummary, difficultyScale, book.id)
+                        : null;
 
                     return (
                       <motion.div
@@ -840,6 +1085,12 @@ export const BookNavigator = memo(function BookNavigator({
                               />
                             </div>
                             <div className="flex items-center gap-1">
+                              {bookShare !== null && difficultyScale && (
+                                <DifficultyBadge
+                                  share={bookShare}
+                                  tier={getDifficultyTier(bookShare, difficultyScale)}
+                                />
+                              )}
                               <span
                                 className="font-display text-[11px] md:text-[13px]"
                                 style={{ color: 'var(--text-tertiary)', letterSpacing: '0.02em' }}
@@ -887,11 +1138,31 @@ export const BookNavigator = memo(function BookNavigator({
                               <div
                                 className="pt-2 pb-1 px-1"
                               >
+                                {/* Book difficulty for the reading level */}
+                                {expandedBookStats && (
+                                  <p
+                                    className="font-body text-[10px] mb-1.5"
+                                    style={{ color: 'var(--text-tertiary)' }}
+                                  >
+                                    {formatShare(expandedBookStats.share)} of words above your level
+                                    {expandedBookStats.words &&
+                                      ` · ${expandedBookStats.words.uniqueWords.toLocaleString()} words, ${expandedBookStats.words.newWords.toLocaleString()} new to you`}
+                                  </p>
+                                )}
+
                                 {/* Chapter buttons - small inline flow */}
                                 <div className="flex flex-wrap gap-1.5 md:gap-2">
                                   {Array.from({ length: book.chapterCount }, (_, i) => i + 1).map(
                                     (chapter) => {
                                       const isCurrentChapter = currentBookId === book.id && currentChapter === chapter;
+                                      const difficulty = expandedBookStats?.chapters?.[chapter - 1];
+                                      const tier =
+                                        difficulty && difficultyScale
+                                          ? getDifficultyTier(difficulty.aboveLevelShare, difficultyScale)
+                                          : null;
+                                      const difficultyLabel = difficulty && tier
+                                        ? `${TIER_STYLES[tier].label} for your level: ${formatShare(difficulty.aboveLevelShare)} of words above it, ${difficulty.uniqueWords} words, ${difficulty.newWords} new`
+                                        : undefined;
                                       return (
                                         <motion.button
                                           key={chapter}
@@ -904,8 +1175,11 @@ export const BookNavigator = memo(function BookNavigator({
                                             border: isCurrentChapter
                                               ? 'none'
                                               : '1px solid var(--border-subtle)',
+                                            // Non-current chapters carry their difficulty tier as an underline
                                             boxShadow: isCurrentChapter
                                               ? '0 2px 6px rgba(139, 90, 43, 0.25)'
+                                              : tier
+                                              ? `inset 0 -2px 0 ${TIER_STYLES[tier].color}`
                                               : 'none',
                                             fontWeight: isCurrentChapter ? 600 : 400,
                                             letterSpacing: '0.02em',
@@ -915,6 +1189,8 @@ export const BookNavigator = memo(function BookNavigator({
                                             handleChapterSelect(book.id, chapter);
                                           }}
                                           whileTap={{ scale: 0.92 }}
+                                          title={difficultyLabel}
+                                          aria-label={difficultyLabel ? `Chapter ${chapter}. ${difficultyLabel}` : undefined}
                                         >
                                           {chapter}
                                         </motion.button>
@@ -922,6 +1198,12 @@ export const BookNavigator = memo(function BookNavigator({
                                     }
                                   )}
                                 </div>
+
+                                {/* Highlights in this book */}
+                                <BookHighlights
+                                  bookId={book.id}
+                                  onSelect={(chapter, verse) => handleHighlightSelect(book.id, chapter, verse)}
+                                />
                               </div>
                             </motion.div>
                           )}
@@ -61,6 +61,7 @@ interface HeaderProps {
   onMenuClick?: () => void;
   onSettingsClick?: () => void;
   onVocabClick?: () => void;
+  onSearchClick?: () => void;
   onAudioClick?: () => void;
   isAudioActive?: boolean;
   isAudioAvailable?: boolean;
@@ -72,6 +73,7 @@ export const Header = memo(function Header({
   onMenuClick,
   onSettingsClick,
   onVocabClick,
+  onSearchClick,
   onAudioClick,
   isAudioActive = false,
   isAudioAvailable = false,
@@ -88,8 +90,8 @@ export const Header = memo(function Header({
       }}
     >
       <div className="mx-auto flex max-w-2xl md:max-w-3xl lg:max-w-4xl xl:max-w-5xl 2xl:max-w-6xl items-center justify-between px-4 py-1.5">
-        {/* Left side - Vocabulary button (icon only) */}
-        <div className="flex items-center w-20">
+        {/* Left side - Vocabulary and search buttons (icon only) */}
+        <div className="flex items-center gap-0.5 w-20">
           <button
             className="touch-feedback rounded-lg p-2.5 transition-colors hover:bg-[var(--bg-secondary)]"
             style={{ color: 'var(--text-tertiary)' }}
@@ -124,6 +126,27 @@ export const Header = memo(function Header({
               </text>
             </svg>
           </button>
+          <button
+            className="touch-feedback rounded-lg p-2.5 transition-colors hover:bg-[var(--bg-secondary)]"
+            style={{ color: 'var(--text-tertiary)' }}
+            onClick={onSearchClick}
+            aria-label="Search verses"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth={1.5}
+              className="h-5 w-5"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607z"
+              />
+            </svg>
+          </button>
         </div>
 
         {/* Center - Book name with icon and chapter on same line */}
@@ -1,9 +1,20 @@
 import { memo, useCallback, useMemo, useEffect, useState } from 'react';
-import type { SegmentedWord } from '../../types';
-import { shouldShowPinyin } from '../../types';
-import { useVocabularyStore, useSettingsStore } from '../../stores';
+import type { SegmentedWord, HighlightColor, HighlightStyle } from '../../types';
+import { getProficiencyLevel, shouldShowPinyin } from '../../types';
+import { useVocabularyStore, useSettingsStore, useKnownWordsStore } from '../../stores';
 import { useHold } from '../../hooks/useHold';
-import { splitPinyinSyllables, splitChineseCharacters } from '../../utils/pinyin';
+import {
+  splitPinyinSyllables,
+  splitChineseCharacters,
+  getPinyinTone,
+  toZhuyinSyllable,
+  type ZhuyinSyllable,
+} from '../../utils/pinyin';
+import {
+  getKnownWordKey,
+  getVocabularyFamiliarity,
+  resolveWordFamiliarity,
+} from '../../utils/knownWords';
 
 /**
  * Check if a string contains only punctuation marks.
@@ -19,6 +30,16 @@ function isPunctuationOnly(text: string): boolean {
   return punctuationRegex.test(text);
 }
 
+/**
+ * Short interlinear gloss from a full definition: the first sense, without
+ * parenthetical notes, e.g. "believe in, trust" -> "believe in".
+ */
+function getShortGloss(definition?: string): string {
+  if (!definition) return '';
+  const firstSense = definition.split(/[;,/]/)[0].replace(/\([^)]*\)/g, '').trim();
+  return firstSense || definition.trim();
+}
+
 interface ChineseWordProps {
   word: SegmentedWord;
   onTapAndHold?: (word: SegmentedWord) => void; // Called on hold (for word definition)
@@ -27,6 +48,9 @@ interface ChineseWordProps {
   isHighlighted?: boolean;
   isSelected?: boolean; // True when this word is selected and definition card is showing
   showHsk?: boolean;
+  spokenSyllables?: string[] | null; // Pinyin with tone sandhi applied, one syllable per character
+  annotationColor?: HighlightColor; // Set when a highlight covers this word
+  annotationStyle?: HighlightStyle;
 }
 
 export const ChineseWord = memo(function ChineseWord({
@@ -37,10 +61,20 @@ export const ChineseWord = memo(function ChineseWord({
   isHighlighted = false,
   isSelected = false,
   showHsk = false,
+  spokenSyllables = null,
+  annotationColor,
+  annotationStyle,
 }: ChineseWordProps) {
   const isWordSaved = useVocabularyStore((state) => state.isWordSaved);
   const pinyinLevel = useSettingsStore((state) => state.pinyinLevel);
+  const proficiencySystem = useSettingsStore((state) => state.proficiencySystem);
+  const glossDisplay = useSettingsStore((state) => state.glossDisplay);
+  const phoneticSystem = useSettingsStore((state) => state.phoneticSystem);
   const isSaved = isWordSaved(word.chinese);
+  const knownMark = useKnownWordsStore((state) => state.marks[getKnownWordKey(word.chinese)]);
+  const vocabularyFamiliarity = useVocabularyStore((state) =>
+    getVocabularyFamiliarity(state.words, word.chinese)
+  );
 
   // Track hold progress for visual feedback (0-1)
   const [holdProgress, setHoldProgress] = useState(0);
@@ -48,8 +82,24 @@ export const ChineseWord = memo(function ChineseWord({
   // word.chinese is already in correct character set from cache (pre-converted)
   const displayText = word.chinese;
 
-  // Determine if pinyin should be shown for this word based on settings, HSK/TOCFL level, and frequency
-  const showPinyin = shouldShowPinyin(pinyinLevel, word.hskLevel, word.freq, word.tocflLevel);
+  // Displayed pinyin: as spoken when tone sandhi is on, otherwise the citation tones
+  const pinyin = spokenSyllables ? spokenSyllables.join(' ') : word.pinyin;
+
+  // Determine if pinyin should be shown for this word based on settings, its level in the chosen
+  // proficiency system, and frequency, unless the learner already knows the word (or is still learning it)
+  const proficiencyLevel = getProficiencyLevel(word, proficiencySystem);
+  const familiarity = resolveWordFamiliarity(knownMark, vocabularyFamiliarity);
+  const showPinyin = shouldShowPinyin(
+    pinyinLevel,
+    proficiencySystem,
+    proficiencyLevel,
+    word.freq,
+    familiarity
+  );
+
+  // Interlinear gloss: every word, or only the words that get pinyin at this level
+  const showGloss = glossDisplay === 'all' || (glossDisplay === 'unfamiliar' && showPinyin);
+  const gloss = showGloss ? getShortGloss(word.definition) : '';
 
   // Debug: Log when highlighting changes (only in development)
   useEffect(() => {
@@ -112,15 +162,31 @@ export const ChineseWord = memo(function ChineseWord({
   // Split multi-character words into character-pinyin pairs for proper alignment
   const charPinyinPairs = useMemo(() => {
     const chars = splitChineseCharacters(displayText);
-    if (chars.length <= 1 || !word.pinyin) {
+    if (chars.length <= 1 || !pinyin) {
       return null; // Single char or no pinyin - use simple render
     }
-    const syllables = splitPinyinSyllables(word.pinyin, chars.length);
+    const syllables = splitPinyinSyllables(pinyin, chars.length);
+    return chars.map((char, i) => ({
+      char,
+      pinyin: syllables[i] || '',
+      tone: syllables[i] ? getPinyinTone(syllables[i]) : undefined,
+    }));
+  }, [displayText, pinyin]);
+
+  // Tone of a single-character word (colored via data-tone when tone colors are on)
+  const singleTone = pinyin ? getPinyinTone(pinyin) : undefined;
+
+  // Zhuyin and "both" modes: every character gets its own unit, zhuyin to its right
+  const zhuyinUnits = useMemo(() => {
+    if (phoneticSystem === 'pinyin') return null;
+    const chars = splitChineseCharacters(displayText);
+    const syllables = pinyin ? splitPinyinSyllables(pinyin, chars.length) : [];
     return chars.map((char, i) => ({
       char,
       pinyin: syllables[i] || '',
+      zhuyin: syllables[i] ? toZhuyinSyllable(syllables[i]) : null,
     }));
-  }, [displayText, word.pinyin]);
+  }, [phoneticSystem, displayText, pinyin]);
 
   // Calculate visual feedback styles based on hold progress
   const holdProgressStyle = useMemo(() => {
@@ -140,7 +206,15 @@ export const ChineseWord = memo(function ChineseWord({
   // Skip punctuation - render without interaction
   // Note: Must be after hooks to preserve consistent hook ordering.
   if (isPunctuation) {
-    return <span className="select-none">{displayText}</span>;
+    return (
+      <span
+        className={`select-none ${annotationColor ? 'annotated-text' : ''}`}
+        data-annotation-color={annotationColor}
+        data-annotation-style={annotationStyle}
+      >
+        {displayText}
+      </span>
+    );
   }
 
   // Render character with centered pinyin above using flexbox
@@ -153,34 +227,72 @@ export const ChineseWord = memo(function ChineseWord({
         ${isSaved ? 'saved' : ''}
         ${holdProgress > 0 ? 'word-holding' : ''}
       `}
-      data-hsk={showHsk && word.hskLevel ? word.hskLevel : undefined}
+      data-hsk={showHsk && proficiencyLevel ? proficiencyLevel : undefined}
+      data-annotation-color={annotationColor}
+      data-annotation-style={annotationStyle}
       role="button"
       tabIndex={0}
       onKeyDown={handleKeyDown}
       style={holdProgressStyle}
       {...holdHandlers}
     >
-      {charPinyinPairs ? (
+      {zhuyinUnits ? (
+        <span className="char-pinyin-pairs">
+          {zhuyinUnits.map((unit, idx) => (
+            <span key={idx} className="char-pinyin-unit">
+              {phoneticSystem === 'both' && (
+                <span className="pinyin-text" data-tone={unit.zhuyin?.tone}>
+                  {showPinyin ? unit.pinyin : '\u00A0'}
+                </span>
+              )}
+              <span className="char-zhuyin-unit">
+                <span className="chinese-char" data-tone={unit.zhuyin?.tone}>{unit.char}</span>
+                {showPinyin && unit.zhuyin && <ZhuyinRuby zhuyin={unit.zhuyin} />}
+              </span>
+            </span>
+          ))}
+        </span>
+      ) : charPinyinPairs ? (
         // Multi-character word: render each char with its pinyin aligned
         <span className="char-pinyin-pairs">
           {charPinyinPairs.map((pair, idx) => (
             <span key={idx} className="char-pinyin-unit">
-              <span className="pinyin-text">
+              <span className="pinyin-text" data-tone={pair.tone}>
                 {showPinyin ? pair.pinyin : '\u00A0'}
               </span>
-              <span className="chinese-char">{pair.char}</span>
+              <span className="chinese-char" data-tone={pair.tone}>{pair.char}</span>
             </span>
           ))}
         </span>
       ) : (
         // Single character word: simple render
         <>
-          <span className="pinyin-text">
-            {showPinyin ? word.pinyin : '\u00A0'}
+          <span className="pinyin-text" data-tone={singleTone}>
+            {showPinyin ? pinyin : '\u00A0'}
           </span>
-          <span className="chinese-char">{displayText}</span>
+          <span className="chinese-char" data-tone={singleTone}>{displayText}</span>
         </>
       )}
+      {/* Gloss row is kept (blank) for hidden glosses so lines stay aligned */}
+      {glossDisplay !== 'off' && (
+        <span className="gloss-text" title={gloss ? word.definition : undefined}>
+          {gloss || '\u00A0'}
+        </span>
+      )}
+    </span>
+  );
+});
+
+// Vertical zhuyin for one character
+const ZhuyinRuby = memo(function ZhuyinRuby({ zhuyin }: { zhuyin: ZhuyinSyllable }) {
+  const isNeutral = zhuyin.tone === 5;
+  return (
+    <span className="zhuyin-text" data-tone={zhuyin.tone}>
+      <span className="zhuyin-symbols">
+        {isNeutral && zhuyin.toneMark}
+        {zhuyin.symbols}
+      </span>
+      {!isNeutral && zhuyin.toneMark && <span className="zhuyin-tone">{zhuyin.toneMark}</span>}
     </span>
   );
 });
@@ -0,0 +1,279 @@
+/**
+ * ConcordancePanel - every verse containing a word, grouped by book
+ *
+ * Opened from WordDetailPanel. Occurrences come from the inverted word index;
+ * verse text for a book is loaded when that book is expanded.
+ */
+
+import { memo, useState, useEffect, useCallback } from 'react';
+import { createPortal } from 'react-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { VerseReference } from '../../types';
+import { useSettingsStore } from '../../stores';
+import { getBookById } from '../../data/bible';
+import { getWordOccurrences, type ConcordanceBook } from '../../services/concordanceService';
+import { loadPreprocessedChapter } from '../../services/preprocessedLoader';
+import { convertCharacters, toTraditional } from '../../utils/characterConversion';
+
+interface ConcordancePanelProps {
+  isOpen: boolean;
+  word: string;
+  pinyin: string;
+  onClose: () => void;
+  onNavigateToVerse?: (bookId: string, chapter: number, verse: number) => void;
+}
+
+type VerseTexts = Record<string, string>;
+
+const verseKey = (ref: VerseReference) => `${ref.bookId}:${ref.chapter}:${ref.verse}`;
+
+export const ConcordancePanel = memo(function ConcordancePanel({
+  isOpen,
+  word,
+  pinyin,
+  onClose,
+  onNavigateToVerse,
+}: ConcordancePanelProps) {
+  const characterSet = useSettingsStore((state) => state.characterSet);
+
+  const [books, setBooks] = useState<ConcordanceBook[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedBookId, setExpandedBookId] = useState<string | null>(null);
+  const [verseTexts, setVerseTexts] = useState<VerseTexts>({});
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    getWordOccurrences(word)
+      .then((result) => {
+        if (cancelled) return;
+        setBooks(result);
+        // A single book is expanded straight away
+        if (result.length === 1) setExpandedBookId(result[0].bookId);
+      })
+      .catch((err) => {
+        console.error('[ConcordancePanel] Lookup failed:', err);
+        if (!cancelled) setError('Concordance is not available right now');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, word]);
+
+  // Load the text of every verse in the expanded book
+  useEffect(() => {
+    const book = books?.find((b) => b.bookId === expandedBookId);
+    if (!book) return;
+    let cancelled = false;
+
+    const chapters = [...new Set(book.references.map((ref) => ref.chapter))];
+    Promise.all(
+      chapters.map(async (chapter) => {
+        const verses = await loadPreprocessedChapter(book.bookId, chapter);
+        const texts: VerseTexts = {};
+        for (const ref of book.references) {
+          if (ref.chapter !== chapter) continue;
+          const verse = verses?.find((v) => v.number === ref.verse);
+          if (verse) texts[verseKey(ref)] = verse.text;
+        }
+        return texts;
+      })
+    )
+      .then((results) => {
+        if (!cancelled) setVerseTexts((prev) => Object.assign({}, prev, ...results));
+      })
+      .catch((err) => {
+        console.warn('[ConcordancePanel] Failed to load verse text:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [books, expandedBookId]);
+
+  const handleVerseClick = useCallback(
+    (ref: VerseReference) => {
+      onNavigateToVerse?.(ref.bookId, ref.chapter, ref.verse);
+      onClose();
+    },
+    [onNavigateToVerse, onClose]
+  );
+
+  // Highlight the word in a verse; conversion runs per segment so offsets stay aligned
+  const renderVerseText = (text: string) => {
+    const target = toTraditional(word);
+    return text.split(target).map((part, index) => (
+      <span key={index}>
+        {index > 0 && (
+          <mark
+            className="rounded px-0.5"
+            style={{ backgroundColor: 'var(--accent-subtle)', color: 'var(--accent)' }}
+          >
+            {convertCharacters(target, characterSet)}
+          </mark>
+        )}
+        {convertCharacters(part, characterSet)}
+      </span>
+    ));
+  };
+
+  const totalVerses = books?.reduce((sum, book) => sum + book.references.length, 0) ?? 0;
+
+  return createPortal(
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            className="fixed inset-0 z-45"
+            style={{ backgroundColor: 'var(--overlay)' }}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.15 }}
+            onClick={onClose}
+          />
+
+          {/* Sheet */}
+          <motion.div
+            className="fixed inset-x-0 bottom-0 z-46 mx-auto flex max-w-2xl flex-col rounded-t-3xl shadow-elevated safe-area-bottom"
+            style={{ backgroundColor: 'var(--bg-primary)', maxHeight: '80vh' }}
+            initial={{ y: '100%' }}
+            animate={{ y: 0 }}
+            exit={{ y: '100%' }}
+            transition={{ type: 'spring', damping: 30, stiffness: 300 }}
+          >
+            {/* Header */}
+            <div
+              className="flex items-center justify-between px-5 py-4"
+              style={{ borderBottom: '1px solid var(--border-subtle)' }}
+            >
+              <div className="min-w-0">
+                <div className="flex items-baseline gap-2">
+                  <span
+                    className="font-chinese-serif text-2xl"
+                    style={{ color: 'var(--text-primary)' }}
+                  >
+                    {convertCharacters(word, characterSet)}
+                  </span>
+                  <span
+                    className="font-body text-sm italic"
+                    style={{ color: 'var(--text-secondary)' }}
+                  >
+                    {pinyin}
+                  </span>
+                </div>
+                <span
+                  className="font-display text-[10px] tracking-widest uppercase"
+                  style={{ color: 'var(--text-tertiary)' }}
+                >
+                  {books
+                    ? `${totalVerses} verse${totalVerses === 1 ? '' : 's'} · ${books.length} book${books.length === 1 ? '' : 's'}`
+                    : 'Concordance'}
+                </span>
+              </div>
+              <motion.button
+                className="touch-feedback rounded-lg p-1.5"
+                style={{ color: 'var(--text-tertiary)' }}
+                onClick={onClose}
+                whileTap={{ scale: 0.9 }}
+                aria-label="Close concordance"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                  <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
+                </svg>
+              </motion.button>
+            </div>
+
+            {/* Results */}
+            <div className="flex-1 overflow-y-auto px-3 py-2">
+              {error ? (
+                <p className="px-2 py-6 text-center font-body text-sm italic" style={{ color: 'var(--text-tertiary)' }}>
+                  {error}
+                </p>
+              ) : !books ? (
+                <p className="px-2 py-6 text-center font-body text-sm italic" style={{ color: 'var(--text-tertiary)' }}>
+                  Searching…
+                </p>
+              ) : books.length === 0 ? (
+                <p className="px-2 py-6 text-center font-body text-sm italic" style={{ color: 'var(--text-tertiary)' }}>
+                  No other occurrences found
+                </p>
+              ) : (
+                books.map((book) => {
+                  const bookInfo = getBookById(book.bookId);
+                  const isExpanded = expandedBookId === book.bookId;
+                  return (
+                    <div key={book.bookId} className="mb-1">
+                      <button
+                        className="touch-feedback flex w-full items-center justify-between rounded-lg px-2 py-2 text-left"
+                        style={{ backgroundColor: isExpanded ? 'var(--bg-secondary)' : 'transparent' }}
+                        onClick={() => setExpandedBookId(isExpanded ? null : book.bookId)}
+                        aria-expanded={isExpanded}
+                      >
+                        <span className="flex items-baseline gap-2">
+                          <span className="font-chinese-serif text-sm" style={{ color: 'var(--text-primary)' }}>
+                            {bookInfo ? convertCharacters(bookInfo.name.chinese, characterSet) : book.bookId}
+                          </span>
+                          <span className="font-body text-xs" style={{ color: 'var(--text-secondary)' }}>
+                            {bookInfo?.name.english}
+                          </span>
+                        </span>
+                        <span
+                          className="rounded-full px-2 py-0.5 font-body text-[10px]"
+                          style={{ backgroundColor: 'var(--accent-subtle)', color: 'var(--accent)' }}
+                        >
+                          {book.references.length}
+                        </span>
+                      </button>
+
+                      <AnimatePresence initial={false}>
+                        {isExpanded && (
+                          <motion.ul
+                            className="overflow-hidden"
+                            initial={{ height: 0, opacity: 0 }}
+                            animate={{ height: 'auto', opacity: 1 }}
+                            exit={{ height: 0, opacity: 0 }}
+                            transition={{ duration: 0.2 }}
+                          >
+                            {book.references.map((ref) => {
+                              const text = verseTexts[verseKey(ref)];
+                              return (
+                                <li key={verseKey(ref)}>
+                                  <button
+                                    className="touch-feedback w-full rounded-lg px-3 py-2 text-left hover:opacity-80 transition-opacity"
+                                    onClick={() => handleVerseClick(ref)}
+                                  >
+                                    <span
+                                      className="font-body text-[10px] tracking-wider uppercase"
+                                      style={{ color: 'var(--accent)' }}
+                                    >
+                                      {ref.chapter}:{ref.verse}
+                                    </span>
+                                    <p
+                                      className="font-chinese-serif text-sm leading-relaxed"
+                                      style={{ color: 'var(--text-primary)' }}
+                                    >
+                                      {text ? renderVerseText(text) : '…'}
+                                    </p>
+                                  </button>
+                                </li>
+                              );
+                            })}
+                          </motion.ul>
+                        )}
+                      </AnimatePresence>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>,
+    document.body
+  );
+});
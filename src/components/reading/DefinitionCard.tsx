@@ -9,7 +9,8 @@
 import { memo, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import type { SegmentedWord, VerseReference } from '../../types';
-import { useVocabularyStore } from '../../stores';
+import { formatProficiencyLevel, getProficiencyLevel } from '../../types';
+import { useVocabularyStore, useSettingsStore } from '../../stores';
 import { getBookById } from '../../data/bible';
 
 interface DefinitionCardProps {
@@ -24,6 +25,8 @@ export const DefinitionCard = memo(function DefinitionCard({
   onClose,
 }: DefinitionCardProps) {
   const { addWord, removeWord, isWordSaved, getWordByChars } = useVocabularyStore();
+  const proficiencySystem = useSettingsStore((state) => state.proficiencySystem);
+  const proficiencyLevel = word ? getProficiencyLevel(word, proficiencySystem) : null;
 
   const isSaved = word ? isWordSaved(word.chinese) : false;
   const savedWord = word ? getWordByChars(word.chinese) : undefined;
@@ -114,8 +117,8 @@ export const DefinitionCard = memo(function DefinitionCard({
                       </rt>
                     </ruby>
 
-                    {/* HSK badge - compact */}
-                    {word.hskLevel && (
+                    {/* Proficiency level badge - compact */}
+                    {proficiencyLevel && (
                       <span
                         className="rounded px-1.5 py-0.5 text-[9px] font-medium tracking-wide"
                         style={{
@@ -123,7 +126,7 @@ export const DefinitionCard = memo(function DefinitionCard({
                           color: 'var(--accent)',
                         }}
                       >
-                        {word.hskLevel}
+                        {formatProficiencyLevel(proficiencyLevel, proficiencySystem)}
                       </span>
                     )}
                   </div>
@@ -0,0 +1,169 @@
+// HighlightControls - Color, style, note and range picking for highlights
+// Acts on the most recent highlight covering the target verse or word
+
+import { memo, useMemo } from 'react';
+import type { HighlightAnchor, HighlightColor, HighlightStyle } from '../../types';
+import { HIGHLIGHT_COLORS, HIGHLIGHT_STYLES } from '../../types';
+import { useHighlightStore } from '../../stores';
+import {
+  findHighlightAt,
+  formatHighlightRange,
+  rangeFromAnchor,
+  rangeFromAnchors,
+} from '../../utils/highlights';
+
+interface HighlightControlsProps {
+  target: HighlightAnchor;
+}
+
+export const HighlightControls = memo(function HighlightControls({ target }: HighlightControlsProps) {
+  const {
+    highlights,
+    pendingAnchor,
+    addHighlight,
+    updateHighlight,
+    removeHighlight,
+    setPendingAnchor,
+  } = useHighlightStore();
+
+  const highlight = useMemo(() => findHighlightAt(highlights, target), [highlights, target]);
+  // The range from a started anchor to here, if both are in this chapter
+  const pendingRange = useMemo(
+    () => (pendingAnchor ? rangeFromAnchors(pendingAnchor, target) : null),
+    [pendingAnchor, target]
+  );
+
+  const handleColor = (color: HighlightColor) => {
+    if (highlight) {
+      updateHighlight(highlight.id, { color });
+    } else {
+      addHighlight(rangeFromAnchor(target), color);
+    }
+  };
+
+  const handleStyle = (style: HighlightStyle) => {
+    if (highlight) {
+      updateHighlight(highlight.id, { style });
+    } else {
+      addHighlight(rangeFromAnchor(target), undefined, style);
+    }
+  };
+
+  const handleFinishRange = () => {
+    if (!pendingRange) return;
+    addHighlight(pendingRange);
+    setPendingAnchor(null);
+  };
+
+  const activeColor = highlight?.color;
+  const activeStyle = highlight?.style;
+
+  return (
+    <div className="mt-2 pt-1.5" style={{ borderTop: '1px solid var(--border-subtle)' }}>
+      <div className="flex items-center gap-1.5 flex-wrap">
+        {/* Color swatches */}
+        {HIGHLIGHT_COLORS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => handleColor(value)}
+            className="h-4 w-4 rounded-full hover:opacity-80 transition-opacity"
+            style={{
+              backgroundColor: `var(--annotation-${value})`,
+              boxShadow:
+                activeColor === value
+                  ? '0 0 0 2px var(--card-bg), 0 0 0 3.5px var(--text-secondary)'
+                  : undefined,
+            }}
+            aria-label={`${label} highlight`}
+            aria-pressed={activeColor === value}
+          />
+        ))}
+
+        {/* Style chips */}
+        <div className="flex items-center gap-1 ml-1">
+          {HIGHLIGHT_STYLES.map(({ value, label }) => {
+            const isActive = activeStyle === value;
+            return (
+              <button
+                key={value}
+                onClick={() => handleStyle(value)}
+                className="rounded px-1.5 py-0.5 font-body text-[9px] uppercase tracking-wider hover:opacity-80 transition-opacity"
+                style={{
+                  backgroundColor: isActive ? 'var(--accent-subtle)' : 'var(--bg-secondary)',
+                  color: isActive ? 'var(--accent)' : 'var(--text-tertiary)',
+                }}
+                aria-pressed={isActive}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+
+        {highlight && (
+          <button
+            onClick={() => removeHighlight(highlight.id)}
+            className="ml-auto rounded px-1.5 py-0.5 font-body text-[9px] uppercase tracking-wider hover:opacity-80 transition-opacity"
+            style={{ color: 'var(--error)' }}
+          >
+            Remove
+          </button>
+        )}
+      </div>
+
+      {/* Range picking - start here, then finish on another verse or word */}
+      <div className="mt-1.5 flex items-center gap-1 flex-wrap">
+        {pendingAnchor && pendingRange ? (
+          <>
+            <button
+              onClick={handleFinishRange}
+              className="rounded px-1.5 py-0.5 font-body text-[9px] uppercase tracking-wider hover:opacity-80 transition-opacity"
+              style={{ backgroundColor: 'var(--accent-subtle)', color: 'var(--accent)' }}
+            >
+              Highlight {formatHighlightRange(pendingRange)}
+            </button>
+            <button
+              onClick={() => setPendingAnchor(null)}
+              className="rounded px-1.5 py-0.5 font-body text-[9px] uppercase tracking-wider hover:opacity-80 transition-opacity"
+              style={{ color: 'var(--text-tertiary)' }}
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() => setPendingAnchor(target)}
+            className="rounded px-1.5 py-0.5 font-body text-[9px] uppercase tracking-wider hover:opacity-80 transition-opacity"
+            style={{
+              backgroundColor: 'var(--bg-secondary)',
+              color: 'var(--text-tertiary)',
+            }}
+          >
+            {pendingAnchor ? 'Start range here instead' : 'Start range here'}
+          </button>
+        )}
+      </div>
+
+      {/* Annotation - saved when the field loses focus */}
+      {highlight && (
+        <textarea
+          key={highlight.id}
+          defaultValue={highlight.note ?? ''}
+          onBlur={(e) => {
+            if (e.target.value.trim() !== (highlight.note ?? '')) {
+              updateHighlight(highlight.id, { note: e.target.value });
+            }
+          }}
+          placeholder="Add a note…"
+          rows={2}
+          className="mt-1.5 w-full resize-none rounded-md px-2 py-1 font-body text-xs focus:outline-none"
+          style={{
+            backgroundColor: 'var(--bg-secondary)',
+            color: 'var(--text-primary)',
+            border: '1px solid var(--border-subtle)',
+          }}
+        />
+      )}
+    </div>
+  );
+});
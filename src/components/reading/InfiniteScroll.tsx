@@ -1,7 +1,8 @@
 import { useEffect, useLayoutEffect, useRef, useCallback, useState, forwardRef, memo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import type { Chapter, SegmentedWord, VerseReference, PlanPassage } from '../../types';
+import type { Chapter, SegmentedWord, VerseReference, PlanPassage, ParallelTranslation } from '../../types';
 import { getBookById, getPreviousBook, getNextBook } from '../../data/bible';
+import { getEnglishChapterAsync } from '../../data/english';
 import { getChapter, prefetchAdjacentChapters } from '../../services/bibleCache';
 import { useSettingsStore } from '../../stores';
 import { VerseDisplay } from './VerseDisplay';
@@ -60,6 +61,8 @@ interface ChapterBlockProps {
   onWordTapAndHold: (word: SegmentedWord, verseRef: VerseReference) => void;
   onVerseDoubleTap: (verseRef: VerseReference) => void;
   showHsk: boolean;
+  parallelTranslation: ParallelTranslation;
+  englishVersion: string;
   activeBookId?: string | null;
   activeChapter?: number | null;
   activeVerseNumber?: number | null;
@@ -77,6 +80,8 @@ const ChapterBlock = memo(function ChapterBlock({
   onWordTapAndHold,
   onVerseDoubleTap,
   showHsk,
+  parallelTranslation,
+  englishVersion,
   activeBookId,
   activeChapter,
   activeVerseNumber,
@@ -87,6 +92,30 @@ const ChapterBlock = memo(function ChapterBlock({
   onNextPassage,
   onCompleteDay,
 }: ChapterBlockProps) {
+  const showParallel = parallelTranslation !== 'off';
+  const englishKey = `${englishVersion}:${loadedChapter.bookId}:${loadedChapter.chapter}`;
+  const [english, setEnglish] = useState<{ key: string; verses: Map<number, string> } | null>(null);
+
+  // Parallel English is loaded per chapter, only while the mode is on
+  useEffect(() => {
+    if (!showParallel) return;
+    let cancelled = false;
+
+    getEnglishChapterAsync(loadedChapter.bookId, loadedChapter.chapter, englishVersion)
+      .then((verses) => {
+        if (!cancelled) setEnglish({ key: englishKey, verses });
+      })
+      .catch((err) => {
+        console.warn('[InfiniteScroll] Failed to load parallel English:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showParallel, englishKey, englishVersion, loadedChapter.bookId, loadedChapter.chapter]);
+
+  const englishVerses = english?.key === englishKey ? english.verses : null;
+
   const chapterBook = getBookById(loadedChapter.bookId);
   if (!chapterBook) return null;
 
@@ -109,7 +138,8 @@ const ChapterBlock = memo(function ChapterBlock({
         isFirstChapter={loadedChapter.chapter === 1}
       />
 
-      <div className={isPoetry ? 'space-y-1 pb-2' : 'prose-verses pb-2'}>
+      {/* Parallel English needs each verse on its own block, so prose flow is set aside */}
+      <div className={isPoetry || showParallel ? 'space-y-1 pb-2' : 'prose-verses pb-2'}>
         {loadedChapter.data.verses.map((verse) => {
           const startsParagraph =
             !isPoetry &&
@@ -143,7 +173,9 @@ const ChapterBlock = memo(function ChapterBlock({
                 onWordTapAndHold={onWordTapAndHold}
                 onVerseDoubleTap={onVerseDoubleTap}
                 showHsk={showHsk}
-                isPoetry={isPoetry}
+                isPoetry={isPoetry || showParallel}
+                englishText={showParallel ? (englishVerses?.get(verse.number) ?? '') : undefined}
+                parallelLayout={parallelTranslation === 'side-by-side' ? 'side-by-side' : 'inline'}
                 isActive={isActiveVerse}
                 highlightedWordIndex={isActiveVerse ? highlightedWordIndex : null}
                 selectedWord={selectedWord}
@@ -199,6 +231,8 @@ const ChapterBlock = memo(function ChapterBlock({
   if (prev.loadedChapter !== next.loadedChapter) return false;
   if (prev.paragraphBreaksLoaded !== next.paragraphBreaksLoaded) return false;
   if (prev.showHsk !== next.showHsk) return false;
+  if (prev.parallelTranslation !== next.parallelTranslation) return false;
+  if (prev.englishVersion !== next.englishVersion) return false;
   if (prev.onWordTapAndHold !== next.onWordTapAndHold) return false;
   if (prev.onVerseDoubleTap !== next.onVerseDoubleTap) return false;
   if (prev.dailyReadingPassages !== next.dailyReadingPassages) return false;
@@ -268,6 +302,8 @@ export const InfiniteScroll = forwardRef<HTMLDivElement, InfiniteScrollProps>(fu
 
   // Get character set preference for cache fetching
   const characterSet = useSettingsStore((state) => state.characterSet);
+  const parallelTranslation = useSettingsStore((state) => state.parallelTranslation);
+  const englishVersion = useSettingsStore((state) => state.englishVersion);
 
   const internalRef = useRef<HTMLDivElement>(null);
   const topSentinelRef = useRef<HTMLDivElement>(null);
@@ -1402,6 +1438,8 @@ export const InfiniteScroll = forwardRef<HTMLDivElement, InfiniteScrollProps>(fu
           onWordTapAndHold={onWordTapAndHold}
           onVerseDoubleTap={onVerseDoubleTap}
           showHsk={showHsk}
+          parallelTranslation={parallelTranslation}
+          englishVersion={englishVersion}
           activeBookId={activeBookId}
           activeChapter={activeChapter}
           activeVerseNumber={activeVerseNumber}
@@ -7,11 +7,16 @@ import { getCrossReferences } from '../../services/preprocessedLoader';
 import { useScrollDismiss, usePassageHistory, useTwoFingerSwipe, useAudioPlayer } from '../../hooks';
 import { InfiniteScroll } from './InfiniteScroll';
 import { TranslationPanel, type PanelMode } from './TranslationPanel';
+import { VerseImageShare } from './VerseImageShare';
+import { VerseCopy } from './VerseCopy';
 import { AudioBar } from './AudioBar';
 import { Header } from '../navigation/Header';
 import { BookNavigator } from '../navigation/BookNavigator';
 import { VocabularyScreen } from '../vocabulary';
 import { SettingsScreen } from '../settings';
+import { SearchScreen } from '../search';
+import { JournalScreen } from '../journal';
+import { BookmarksScreen } from '../bookmarks';
 
 const AUTO_ADVANCE_DELAY = 2; // seconds before auto-advancing to next chapter
 
@@ -19,6 +24,12 @@ export function ReadingScreen() {
   const [isNavOpen, setIsNavOpen] = useState(false);
   const [isVocabOpen, setIsVocabOpen] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [journalVerseRef, setJournalVerseRef] = useState<VerseReference | null>(null);
+  const [isJournalOpen, setIsJournalOpen] = useState(false);
+  const [isBookmarksOpen, setIsBookmarksOpen] = useState(false);
+  const [shareVerseRef, setShareVerseRef] = useState<VerseReference | null>(null);
+  const [copyVerseRef, setCopyVerseRef] = useState<VerseReference | null>(null);
   const [displayChapter, setDisplayChapter] = useState<number | null>(null);
   const [showAudioBar, setShowAudioBar] = useState(false);
 
@@ -598,6 +609,7 @@ export function ReadingScreen() {
         onMenuClick={() => setIsNavOpen(true)}
         onSettingsClick={() => setIsSettingsOpen(true)}
         onVocabClick={() => setIsVocabOpen(true)}
+        onSearchClick={() => setIsSearchOpen(true)}
         onAudioClick={() => setShowAudioBar(!showAudioBar)}
         isAudioActive={showAudioBar && audioPlayer.isPlaying}
         isAudioAvailable={audioPlayer.isAvailable || audioPlayer.isLoading}
@@ -652,6 +664,10 @@ export function ReadingScreen() {
       <BookNavigator
         isOpen={isNavOpen}
         onClose={() => setIsNavOpen(false)}
+        onOpenBookmarks={() => {
+          setIsNavOpen(false);
+          setIsBookmarksOpen(true);
+        }}
       />
 
       {/* Backdrop overlay - dismisses panel when tapping outside */}
@@ -744,6 +760,19 @@ export function ReadingScreen() {
             audioPlayer.seekToWord(verseRef.verse, wordIndex);
           }
         }}
+        onOpenJournal={(verseRef) => {
+          setJournalVerseRef(verseRef);
+          setIsJournalOpen(true);
+          handleClosePanel();
+        }}
+        onCopyVerses={(verseRef) => {
+          setCopyVerseRef(verseRef);
+          handleClosePanel();
+        }}
+        onShareImage={(verseRef) => {
+          setShareVerseRef(verseRef);
+          handleClosePanel();
+        }}
         isAudioAvailable={audioPlayer.isAvailable}
         scrollOpacity={panelOpacity}
       />
@@ -814,6 +843,37 @@ export function ReadingScreen() {
         onClose={() => setIsVocabOpen(false)}
       />
 
+      {/* Search screen */}
+      <SearchScreen
+        isOpen={isSearchOpen}
+        onClose={() => setIsSearchOpen(false)}
+      />
+
+      {/* Study journal */}
+      <JournalScreen
+        isOpen={isJournalOpen}
+        onClose={() => setIsJournalOpen(false)}
+        verseRef={journalVerseRef}
+      />
+
+      {/* Verse copy formats */}
+      <VerseCopy
+        verseRef={copyVerseRef}
+        onClose={() => setCopyVerseRef(null)}
+      />
+
+      {/* Verse image card */}
+      <VerseImageShare
+        verseRef={shareVerseRef}
+        onClose={() => setShareVerseRef(null)}
+      />
+
+      {/* Bookmarks */}
+      <BookmarksScreen
+        isOpen={isBookmarksOpen}
+        onClose={() => setIsBookmarksOpen(false)}
+      />
+
       {/* Settings screen */}
       <SettingsScreen
         isOpen={isSettingsOpen}
@@ -1,13 +1,15 @@
 // TranslationPanel - Shows English verse translation or word definition
 // Appears below header as a refined floating panel
 
-import { memo, useEffect, useState } from 'react';
+import { memo, useEffect, useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import type { SegmentedWord, VerseReference, CrossReference } from '../../types';
+import type { SegmentedWord, VerseReference, CrossReference, HighlightAnchor } from '../../types';
 import { getBookById } from '../../data/bible';
 import { getEnglishVerseAsync, getTranslationInfo, loadTranslation } from '../../data/english';
 import { WordDetailPanel } from './WordDetailPanel';
-import { useSettingsStore } from '../../stores';
+import { HighlightControls } from './HighlightControls';
+import { useBookmarkStore, useJournalStore, useSettingsStore } from '../../stores';
+import { journalEntryCoversVerse } from '../../utils/journal';
 
 export type PanelMode = 'verse' | 'word' | null;
 
@@ -26,6 +28,12 @@ interface TranslationPanelProps {
   onPlayFromVerse?: (verseRef: VerseReference) => void;
   onPlayFromWord?: (verseRef: VerseReference, wordIndex: number) => void;
   isAudioAvailable?: boolean;
+  // Study journal, opened on the selected verse (optional)
+  onOpenJournal?: (verseRef: VerseReference) => void;
+  // Copy a range starting at the verse (optional)
+  onCopyVerses?: (verseRef: VerseReference) => void;
+  // Share the verse as an image card (optional)
+  onShareImage?: (verseRef: VerseReference) => void;
   // Scroll-based fade control (optional)
   scrollOpacity?: number;
 }
@@ -41,6 +49,9 @@ export const TranslationPanel = memo(function TranslationPanel({
   onPlayFromVerse,
   onPlayFromWord,
   isAudioAvailable = false,
+  onOpenJournal,
+  onCopyVerses,
+  onShareImage,
   scrollOpacity = 1,
 }: TranslationPanelProps) {
   const { englishVersion } = useSettingsStore();
@@ -101,6 +112,38 @@ export const TranslationPanel = memo(function TranslationPanel({
 
   const book = verseRef ? getBookById(verseRef.bookId) : null;
 
+  // The whole verse, as a highlight target
+  const verseAnchor = useMemo<HighlightAnchor | null>(
+    () => (verseRef ? { bookId: verseRef.bookId, chapter: verseRef.chapter, verse: verseRef.verse } : null),
+    [verseRef]
+  );
+
+  // Subscribing to the list keeps the bookmark button in step with the store
+  const bookmarks = useBookmarkStore((state) => state.bookmarks);
+  const toggleBookmark = useBookmarkStore((state) => state.toggleBookmark);
+  const isBookmarked = useMemo(
+    () =>
+      !!verseRef &&
+      bookmarks.some(
+        (b) =>
+          b.verseRef.bookId === verseRef.bookId &&
+          b.verseRef.chapter === verseRef.chapter &&
+          b.verseRef.verse === verseRef.verse
+      ),
+    [bookmarks, verseRef]
+  );
+
+  const journalEntries = useJournalStore((state) => state.entries);
+  const journalCount = useMemo(
+    () =>
+      verseRef
+        ? journalEntries.filter((entry) =>
+            journalEntryCoversVerse(entry, verseRef.bookId, verseRef.chapter, verseRef.verse)
+          ).length
+        : 0,
+    [journalEntries, verseRef]
+  );
+
   return (
     <AnimatePresence mode="wait">
       {mode && (
@@ -197,6 +240,85 @@ export const TranslationPanel = memo(function TranslationPanel({
                                     <span className="font-body text-[10px] tracking-wide uppercase">Play</span>
                                   </motion.button>
                                 )}
+                                {/* Bookmark toggle */}
+                                <motion.button
+                                  onClick={() => toggleBookmark(verseRef)}
+                                  className="touch-feedback p-1 rounded-md"
+                                  style={{ color: isBookmarked ? 'var(--accent)' : 'var(--text-tertiary)' }}
+                                  whileTap={{ scale: 0.9 }}
+                                  aria-label={isBookmarked ? 'Remove bookmark' : 'Bookmark this verse'}
+                                  aria-pressed={isBookmarked}
+                                >
+                                  <svg
+                                    xmlns="http://www.w3.org/2000/svg"
+                                    viewBox="0 0 20 20"
+                                    fill={isBookmarked ? 'currentColor' : 'none'}
+                                    stroke="currentColor"
+                                    strokeWidth={1.5}
+                                    className="w-3.5 h-3.5"
+                                  >
+                                    <path
+                                      strokeLinejoin="round"
+                                      d="M10 2c-1.716 0-3.408.106-5.07.31C3.806 2.45 3 3.414 3 4.517V17.25a.75.75 0 001.075.676L10 15.082l5.925 2.844A.75.75 0 0017 17.25V4.517c0-1.103-.806-2.068-1.93-2.207A41.403 41.403 0 0010 2z"
+                                    />
+                                  </svg>
+                                </motion.button>
+                                {/* Copy in a chosen format */}
+                                {onCopyVerses && (
+                                  <motion.button
+                                    onClick={() => onCopyVerses(verseRef)}
+                                    className="touch-feedback p-1 rounded-md"
+                                    style={{ color: 'var(--text-tertiary)' }}
+                                    whileTap={{ scale: 0.9 }}
+                                    aria-label="Copy verses"
+                                  >
+                                    <svg
+                                      xmlns="http://www.w3.org/2000/svg"
+                                      viewBox="0 0 20 20"
+                                      fill="currentColor"
+                                      className="w-3.5 h-3.5"
+                                    >
+                                      <path d="M7 3.5A1.5 1.5 0 018.5 2h3.879a1.5 1.5 0 011.06.44l3.122 3.12A1.5 1.5 0 0117 6.622V12.5a1.5 1.5 0 01-1.5 1.5h-1v-3.379a3 3 0 00-.879-2.121L10.5 5.379A3 3 0 008.379 4.5H7v-1z" />
+                                      <path d="M4.5 6A1.5 1.5 0 003 7.5v9A1.5 1.5 0 004.5 18h7a1.5 1.5 0 001.5-1.5v-5.879a1.5 1.5 0 00-.44-1.06L9.44 6.439A1.5 1.5 0 008.378 6H4.5z" />
+                                    </svg>
+                                  </motion.button>
+                                )}
+                                {/* Share as an image card */}
+                                {onShareImage && (
+                                  <motion.button
+                                    onClick={() => onShareImage(verseRef)}
+                                    className="touch-feedback p-1 rounded-md"
+                                    style={{ color: 'var(--text-tertiary)' }}
+                                    whileTap={{ scale: 0.9 }}
+                                    aria-label="Share as image"
+                                  >
+                                    <svg
+                                      xmlns="http://www.w3.org/2000/svg"
+                                      viewBox="0 0 20 20"
+                                      fill="currentColor"
+                                      className="w-3.5 h-3.5"
+                                    >
+                                      <path d="M13 4.5a2.5 2.5 0 11.702 1.737L6.97 9.604a2.518 2.518 0 010 .792l6.733 3.367a2.5 2.5 0 11-.671 1.341l-6.733-3.367a2.5 2.5 0 110-3.475l6.733-3.366A2.52 2.52 0 0113 4.5z" />
+                                    </svg>
+                                  </motion.button>
+                                )}
+                                {/* Journal entries on this verse, or a new one */}
+                                {onOpenJournal && (
+                                  <motion.button
+                                    onClick={() => onOpenJournal(verseRef)}
+                                    className="touch-feedback flex items-center gap-1 px-2 py-1 rounded-md"
+                                    style={{
+                                      backgroundColor: 'var(--bg-secondary)',
+                                      color: journalCount > 0 ? 'var(--accent)' : 'var(--text-tertiary)',
+                                    }}
+                                    whileTap={{ scale: 0.95 }}
+                                    aria-label={journalCount > 0 ? `Journal: ${journalCount} entries on this verse` : 'Write in journal'}
+                                  >
+                                    <span className="font-body text-[10px] tracking-wide uppercase">
+                                      Journal{journalCount > 0 ? ` · ${journalCount}` : ''}
+                                    </span>
+                                  </motion.button>
+                                )}
                                 <span
                                   className="font-body text-[9px] uppercase tracking-widest"
                                   style={{ color: 'var(--text-tertiary)', opacity: 0.5 }}
@@ -298,6 +420,9 @@ export const TranslationPanel = memo(function TranslationPanel({
                               </div>
                             </div>
                           )}
+
+                          {/* Highlight and annotate this verse */}
+                          {verseAnchor && <HighlightControls target={verseAnchor} />}
                         </motion.div>
                       )}
 
@@ -0,0 +1,195 @@
+// VerseCopy - Copies a verse range in one of several formats
+// The chosen format is remembered in settings for the next copy
+
+import { memo, useEffect, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { VerseReference } from '../../types';
+import { COPY_FORMAT_OPTIONS } from '../../types';
+import { useSettingsStore } from '../../stores';
+import { loadPassageVerses, type PassageVerse } from '../../services/verseImage';
+import { MAX_COPY_VERSES, copyVerseText, formatVerseCopy } from '../../services/verseCopy';
+
+interface VerseCopyProps {
+  // The first verse of the range; null when closed
+  verseRef: VerseReference | null;
+  onClose: () => void;
+}
+
+function CopyContent({ verseRef, onClose }: { verseRef: VerseReference; onClose: () => void }) {
+  const { characterSet, englishVersion, copyFormat, setCopyFormat } = useSettingsStore();
+  const [verses, setVerses] = useState<PassageVerse[] | null>(null);
+  const [endVerse, setEndVerse] = useState(verseRef.verse);
+  const [status, setStatus] = useState<string | null>(null);
+
+  // The chosen verse and the ones after it that can join the range
+  useEffect(() => {
+    let cancelled = false;
+    loadPassageVerses(
+      verseRef.bookId,
+      verseRef.chapter,
+      verseRef.verse,
+      verseRef.verse + MAX_COPY_VERSES - 1,
+      englishVersion
+    )
+      .then((loaded) => {
+        if (!cancelled) setVerses(loaded);
+      })
+      .catch((error) => {
+        console.error('[VerseCopy] Failed to load verses:', error);
+        if (!cancelled) setStatus('Could not load this passage');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [verseRef, englishVersion]);
+
+  const result = useMemo(
+    () =>
+      verses && verses.length > 0
+        ? formatVerseCopy(
+            {
+              bookId: verseRef.bookId,
+              chapter: verseRef.chapter,
+              verses: verses.filter((verse) => verse.number <= endVerse),
+              englishVersion,
+              characterSet,
+            },
+            copyFormat
+          )
+        : null,
+    [verses, endVerse, verseRef, englishVersion, characterSet, copyFormat]
+  );
+
+  const handleCopy = async () => {
+    if (!result) return;
+    try {
+      await copyVerseText(result);
+      onClose();
+    } catch (error) {
+      console.error('[VerseCopy] Failed to copy:', error);
+      setStatus('Copying failed');
+    }
+  };
+
+  return (
+    <div className="p-4 space-y-3">
+      {/* Format */}
+      <div className="flex flex-wrap gap-1.5">
+        {COPY_FORMAT_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            className="touch-feedback px-3 py-1.5 rounded-full text-xs font-body transition-all"
+            style={{
+              backgroundColor: copyFormat === option.value ? 'var(--accent)' : 'var(--bg-secondary)',
+              color: copyFormat === option.value ? 'white' : 'var(--text-secondary)',
+            }}
+            onClick={() => setCopyFormat(option.value)}
+            title={option.description}
+            aria-pressed={copyFormat === option.value}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 font-body text-xs" style={{ color: 'var(--text-secondary)' }}>
+        Through verse
+        <select
+          className="rounded-lg px-2 py-1 font-body text-xs outline-none"
+          style={{ backgroundColor: 'var(--bg-secondary)', color: 'var(--text-primary)' }}
+          value={endVerse}
+          onChange={(e) => setEndVerse(Number(e.target.value))}
+          disabled={!verses}
+        >
+          {(verses ?? [{ number: verseRef.verse }]).map((verse) => (
+            <option key={verse.number} value={verse.number}>
+              {verseRef.chapter}:{verse.number}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {/* Preview */}
+      <pre
+        className="max-h-[40vh] overflow-y-auto whitespace-pre-wrap break-words rounded-lg p-3 font-body text-xs leading-relaxed"
+        style={{ backgroundColor: 'var(--bg-secondary)', color: 'var(--text-primary)' }}
+      >
+        {result?.text ?? status ?? 'Loading…'}
+      </pre>
+
+      <div className="flex items-center justify-between gap-3">
+        <span className="font-body text-xs" style={{ color: 'var(--text-tertiary)' }}>
+          {result ? status : null}
+        </span>
+        <button
+          className="touch-feedback rounded-lg px-4 py-2 font-body text-sm"
+          style={{ backgroundColor: 'var(--accent)', color: 'white', opacity: result ? 1 : 0.5 }}
+          onClick={handleCopy}
+          disabled={!result}
+        >
+          Copy
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export const VerseCopy = memo(function VerseCopy({ verseRef, onClose }: VerseCopyProps) {
+  return (
+    <AnimatePresence>
+      {verseRef && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            className="fixed inset-0 z-50"
+            style={{ backgroundColor: 'var(--overlay)' }}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+          />
+
+          {/* Modal */}
+          <motion.div
+            className="fixed inset-x-4 top-[10%] z-51 mx-auto max-w-md rounded-2xl shadow-elevated overflow-hidden"
+            style={{ backgroundColor: 'var(--bg-primary)' }}
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            transition={{ type: 'spring', damping: 25, stiffness: 400 }}
+          >
+            {/* Header */}
+            <div
+              className="flex items-center justify-between px-4 py-3"
+              style={{ borderBottom: '1px solid var(--border-subtle)' }}
+            >
+              <div className="flex items-center gap-2">
+                <div className="w-1 h-4 rounded-full" style={{ backgroundColor: 'var(--accent)' }} />
+                <span className="font-display text-sm tracking-wider" style={{ color: 'var(--text-primary)' }}>
+                  Copy Verses
+                </span>
+              </div>
+              <button
+                className="touch-feedback rounded-lg p-1.5 -mr-1"
+                style={{ color: 'var(--text-tertiary)' }}
+                onClick={onClose}
+                aria-label="Close"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                  <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
+                </svg>
+              </button>
+            </div>
+
+            {/* Remount per verse so the range starts fresh */}
+            <CopyContent
+              key={`${verseRef.bookId}:${verseRef.chapter}:${verseRef.verse}`}
+              verseRef={verseRef}
+              onClose={onClose}
+            />
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+});
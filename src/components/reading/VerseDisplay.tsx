@@ -1,8 +1,11 @@
-import { memo, useCallback } from 'react';
-import type { Verse, SegmentedWord, VerseReference } from '../../types';
-import { useBookmarkStore } from '../../stores';
+import { memo, useCallback, useMemo } from 'react';
+import type { Verse, SegmentedWord, VerseReference, ParallelTranslation } from '../../types';
+import { useBookmarkStore, useHighlightStore, useJournalStore, useSettingsStore } from '../../stores';
 import { useDoubleTap } from '../../hooks/useDoubleTap';
 import { ChineseWord } from './ChineseWord';
+import { applyToneSandhi } from '../../utils/toneSandhi';
+import { findHighlightAt, highlightCoversVerse } from '../../utils/highlights';
+import { journalEntryCoversVerse } from '../../utils/journal';
 
 interface VerseDisplayProps {
   verse: Verse;
@@ -17,6 +20,9 @@ interface VerseDisplayProps {
   showHsk?: boolean;
   /** If true, verse displays as block (poetry). If false, displays inline (prose paragraph) */
   isPoetry?: boolean;
+  /** Parallel English for this verse; undefined when parallel mode is off (empty while loading) */
+  englishText?: string;
+  parallelLayout?: Exclude<ParallelTranslation, 'off'>;
 }
 
 export const VerseDisplay = memo(function VerseDisplay({
@@ -31,6 +37,8 @@ export const VerseDisplay = memo(function VerseDisplay({
   selectedWordVerseRef = null,
   showHsk = false,
   isPoetry = true,
+  englishText,
+  parallelLayout = 'inline',
 }: VerseDisplayProps) {
   const verseRef: VerseReference = {
     bookId,
@@ -41,6 +49,20 @@ export const VerseDisplay = memo(function VerseDisplay({
   const { isBookmarked } = useBookmarkStore();
   const bookmarked = isBookmarked(verseRef);
 
+  // Highlights touching this verse; each word shows the most recent one covering it
+  const highlights = useHighlightStore((state) => state.highlights);
+  const verseHighlights = useMemo(
+    () => highlights.filter((h) => highlightCoversVerse(h.range, bookId, chapter, verse.number)),
+    [highlights, bookId, chapter, verse.number]
+  );
+  const hasAnnotation = verseHighlights.some((h) => h.note);
+
+  const journalEntries = useJournalStore((state) => state.entries);
+  const hasJournalEntry = useMemo(
+    () => journalEntries.some((entry) => journalEntryCoversVerse(entry, bookId, chapter, verse.number)),
+    [journalEntries, bookId, chapter, verse.number]
+  );
+
   // verse.text is already in correct character set from cache (pre-converted)
   const displayText = verse.text || '';
 
@@ -48,6 +70,13 @@ export const VerseDisplay = memo(function VerseDisplay({
   // These typically say "Some manuscripts have..." in Chinese
   const isManuscriptNote = /有些抄本|有古卷/.test(displayText);
 
+  // Spoken tones across word boundaries; WordDetailPanel keeps the citation tones
+  const toneSandhi = useSettingsStore((state) => state.toneSandhi);
+  const spokenSyllables = useMemo(
+    () => (toneSandhi && verse.words ? applyToneSandhi(verse.words, displayText) : null),
+    [toneSandhi, verse.words, displayText]
+  );
+
   // Called when a word is tap-and-held (triggers word definition)
   const handleWordTapAndHold = useCallback(
     (word: SegmentedWord) => {
@@ -73,24 +102,36 @@ export const VerseDisplay = memo(function VerseDisplay({
     ? `verse relative py-1 ${isActive ? 'verse-active' : ''}`
     : `verse-inline relative ${isActive ? 'verse-active' : ''}`;
 
-  return (
-    <Container
-      className={containerClass}
-      data-book={bookId}
-      data-chapter={chapter}
-      data-verse={verse.number}
-      {...doubleTapHandlers}
-    >
-      {/* Section heading (from NET Bible) */}
-      {verse.heading && (
-        <div className="section-heading font-body">
-          {verse.heading}
-        </div>
-      )}
-
-      {/* Verse number with bookmark indicator */}
+  const chineseContent = (
+    <>
+      {/* Verse number with bookmark, annotation and journal indicators */}
       <span className={isPoetry ? 'verse-number' : 'verse-number-inline'}>
         {verse.number}
+        {/* Annotation indicator - a highlight here carries a note */}
+        {hasAnnotation && (
+          <span
+            className="inline-block ml-0.5 h-1 w-1 rounded-full align-super"
+            style={{ backgroundColor: 'var(--accent)' }}
+            title="Annotated"
+          />
+        )}
+        {/* Journal indicator - an entry links to this verse */}
+        {hasJournalEntry && (
+          <span
+            className="inline-block ml-0.5"
+            style={{ color: 'var(--accent)' }}
+            title="In your journal"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              viewBox="0 0 20 20"
+              fill="currentColor"
+              className="h-2.5 w-2.5 inline"
+            >
+              <path d="M10.75 16.82A7.462 7.462 0 0115 15.5c.71 0 1.396.098 2.046.282A.75.75 0 0018 15.06v-11a.75.75 0 00-.546-.721A9.006 9.006 0 0015 3a8.963 8.963 0 00-4.25 1.065V16.82zM9.25 4.065A8.963 8.963 0 005 3c-.85 0-1.673.118-2.454.339A.75.75 0 002 4.06v11a.75.75 0 00.954.721A7.506 7.506 0 015 15.5c1.579 0 3.042.487 4.25 1.32V4.065z" />
+            </svg>
+          </span>
+        )}
         {/* Bookmark indicator - visible if bookmarked */}
         {bookmarked && (
           <span
@@ -125,6 +166,9 @@ export const VerseDisplay = memo(function VerseDisplay({
               selectedWordVerseRef.verse === verse.number &&
               selectedWord.chinese === word.chinese &&
               selectedWord.pinyin === word.pinyin;
+            const highlight = verseHighlights.length > 0
+              ? findHighlightAt(verseHighlights, { bookId, chapter, verse: verse.number, word })
+              : undefined;
 
             return (
               <ChineseWord
@@ -134,6 +178,9 @@ export const VerseDisplay = memo(function VerseDisplay({
                 isHighlighted={highlightedWordIndex === index}
                 isSelected={isSelected || false}
                 showHsk={showHsk}
+                spokenSyllables={spokenSyllables?.[index]}
+                annotationColor={highlight?.color}
+                annotationStyle={highlight?.style}
               />
             );
           })}
@@ -158,8 +205,43 @@ export const VerseDisplay = memo(function VerseDisplay({
         null
       ) : displayText ? (
         // Fallback: render plain text for verses without word segmentation
-        <span className="font-chinese-serif text-chinese">{displayText}</span>
+        // Without words to mark, any highlight touching the verse covers all of it
+        <span
+          className={`font-chinese-serif text-chinese ${verseHighlights.length > 0 ? 'annotated-text' : ''}`}
+          data-annotation-color={verseHighlights[0]?.color}
+          data-annotation-style={verseHighlights[0]?.style}
+        >
+          {displayText}
+        </span>
       ) : null}
+    </>
+  );
+
+  return (
+    <Container
+      className={containerClass}
+      data-book={bookId}
+      data-chapter={chapter}
+      data-verse={verse.number}
+      {...doubleTapHandlers}
+    >
+      {/* Section heading (from NET Bible) */}
+      {verse.heading && (
+        <div className="section-heading font-body">
+          {verse.heading}
+        </div>
+      )}
+
+      {englishText === undefined ? (
+        chineseContent
+      ) : (
+        <div className={parallelLayout === 'side-by-side' ? 'verse-parallel-columns' : undefined}>
+          <div>{chineseContent}</div>
+          <p className="verse-english font-body" lang="en">
+            {englishText}
+          </p>
+        </div>
+      )}
     </Container>
   );
 });
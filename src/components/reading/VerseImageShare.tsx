@@ -0,0 +1,217 @@
+// VerseImageShare - Renders selected verses as an image card to share or download
+// Opened from the verse panel; the card follows the reading theme and character set
+
+import { memo, useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { VerseReference } from '../../types';
+import { useSettingsStore } from '../../stores';
+import {
+  MAX_IMAGE_VERSES,
+  formatImageReference,
+  loadPassageVerses,
+  renderVerseImage,
+  shareVerseImage,
+  type PassageVerse,
+} from '../../services/verseImage';
+
+interface VerseImageShareProps {
+  // The first verse of the card; null when closed
+  verseRef: VerseReference | null;
+  onClose: () => void;
+}
+
+function ShareContent({ verseRef, onClose }: { verseRef: VerseReference; onClose: () => void }) {
+  const { theme, fontFamily, characterSet, englishVersion, pinyinLevel } = useSettingsStore();
+  const [verses, setVerses] = useState<PassageVerse[] | null>(null);
+  const [endVerse, setEndVerse] = useState(verseRef.verse);
+  const [showPinyin, setShowPinyin] = useState(pinyinLevel !== 'none');
+  const [image, setImage] = useState<{ blob: Blob; url: string } | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  // The chosen verse and the ones after it that can join the card
+  useEffect(() => {
+    let cancelled = false;
+    loadPassageVerses(
+      verseRef.bookId,
+      verseRef.chapter,
+      verseRef.verse,
+      verseRef.verse + MAX_IMAGE_VERSES - 1,
+      englishVersion
+    )
+      .then((loaded) => {
+        if (!cancelled) setVerses(loaded);
+      })
+      .catch((error) => {
+        console.error('[VerseImageShare] Failed to load verses:', error);
+        if (!cancelled) setStatus('Could not load this passage');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [verseRef, englishVersion]);
+
+  // Re-render the card whenever an option changes
+  useEffect(() => {
+    if (!verses || verses.length === 0) return;
+    let cancelled = false;
+    let url: string | null = null;
+    renderVerseImage({
+      bookId: verseRef.bookId,
+      chapter: verseRef.chapter,
+      verses: verses.filter((verse) => verse.number <= endVerse),
+      englishVersion,
+      characterSet,
+      theme,
+      fontFamily,
+      showPinyin,
+    })
+      .then((blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setImage({ blob, url });
+      })
+      .catch((error) => {
+        console.error('[VerseImageShare] Failed to render image:', error);
+        if (!cancelled) setStatus('Could not create the image');
+      });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [verses, endVerse, verseRef, englishVersion, characterSet, theme, fontFamily, showPinyin]);
+
+  const handleShare = async () => {
+    if (!image) return;
+    const numbers = [verseRef.verse, endVerse];
+    const reference = formatImageReference(verseRef.bookId, verseRef.chapter, numbers, 'english', characterSet);
+    const range = endVerse === verseRef.verse ? `${verseRef.verse}` : `${verseRef.verse}-${endVerse}`;
+    try {
+      const result = await shareVerseImage(
+        image.blob,
+        `${verseRef.bookId}-${verseRef.chapter}-${range}.png`,
+        reference
+      );
+      if (result === 'shared') onClose();
+      else if (result === 'downloaded') setStatus('Image saved to your downloads');
+    } catch (error) {
+      console.error('[VerseImageShare] Failed to share image:', error);
+      setStatus('Sharing failed');
+    }
+  };
+
+  return (
+    <div className="p-4 space-y-3">
+      {/* Options */}
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 font-body text-xs" style={{ color: 'var(--text-secondary)' }}>
+          Through verse
+          <select
+            className="rounded-lg px-2 py-1 font-body text-xs outline-none"
+            style={{ backgroundColor: 'var(--bg-secondary)', color: 'var(--text-primary)' }}
+            value={endVerse}
+            onChange={(e) => setEndVerse(Number(e.target.value))}
+            disabled={!verses}
+          >
+            {(verses ?? [{ number: verseRef.verse }]).map((verse) => (
+              <option key={verse.number} value={verse.number}>
+                {verseRef.chapter}:{verse.number}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 font-body text-xs" style={{ color: 'var(--text-secondary)' }}>
+          <input type="checkbox" checked={showPinyin} onChange={(e) => setShowPinyin(e.target.checked)} />
+          Pinyin
+        </label>
+      </div>
+
+      {/* Preview */}
+      <div
+        className="flex max-h-[50vh] items-center justify-center overflow-y-auto rounded-lg"
+        style={{ backgroundColor: 'var(--bg-secondary)', minHeight: '8rem' }}
+      >
+        {image ? (
+          <img src={image.url} alt="Verse card preview" className="w-full" />
+        ) : (
+          <span className="font-body text-sm italic" style={{ color: 'var(--text-tertiary)' }}>
+            {status ?? 'Rendering…'}
+          </span>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <span className="font-body text-xs" style={{ color: 'var(--text-tertiary)' }}>
+          {image ? status : null}
+        </span>
+        <button
+          className="touch-feedback rounded-lg px-4 py-2 font-body text-sm"
+          style={{ backgroundColor: 'var(--accent)', color: 'white', opacity: image ? 1 : 0.5 }}
+          onClick={handleShare}
+          disabled={!image}
+        >
+          Share image
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export const VerseImageShare = memo(function VerseImageShare({ verseRef, onClose }: VerseImageShareProps) {
+  return (
+    <AnimatePresence>
+      {verseRef && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            className="fixed inset-0 z-50"
+            style={{ backgroundColor: 'var(--overlay)' }}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+          />
+
+          {/* Modal */}
+          <motion.div
+            className="fixed inset-x-4 top-[10%] z-51 mx-auto max-w-md rounded-2xl shadow-elevated overflow-hidden"
+            style={{ backgroundColor: 'var(--bg-primary)' }}
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            transition={{ type: 'spring', damping: 25, stiffness: 400 }}
+          >
+            {/* Header */}
+            <div
+              className="flex items-center justify-between px-4 py-3"
+              style={{ borderBottom: '1px solid var(--border-subtle)' }}
+            >
+              <div className="flex items-center gap-2">
+                <div className="w-1 h-4 rounded-full" style={{ backgroundColor: 'var(--accent)' }} />
+                <span className="font-display text-sm tracking-wider" style={{ color: 'var(--text-primary)' }}>
+                  Share as Image
+                </span>
+              </div>
+              <button
+                className="touch-feedback rounded-lg p-1.5 -mr-1"
+                style={{ color: 'var(--text-tertiary)' }}
+                onClick={onClose}
+                aria-label="Close"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                  <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
+                </svg>
+              </button>
+            </div>
+
+            {/* Remount per verse so the options start fresh */}
+            <ShareContent
+              key={`${verseRef.bookId}:${verseRef.chapter}:${verseRef.verse}`}
+              verseRef={verseRef}
+              onClose={onClose}
+            />
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+});
@@ -8,16 +8,32 @@
  * - Frequency indicator
  * - Usage notes
  * - Save to vocabulary action
+ * - "I know this" / "Keep pinyin" marks for the known-word model
+ * - Other verses a saved word was seen in
+ * - Concordance of every verse containing the word
+ * - Highlighting the word, or a range starting or ending at it
  * - Audio pronunciation button
  */
 
-import { memo, useCallback, useState, useEffect, useRef } from 'react';
+import { memo, useCallback, useState, useEffect, useRef, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import type { SegmentedWord, VerseReference } from '../../types';
-import { useVocabularyStore } from '../../stores';
+import type { HighlightAnchor, SegmentedWord, VerseReference, WordFamiliarity } from '../../types';
+import { formatProficiencyLevel, getProficiencyLevel } from '../../types';
+import { useVocabularyStore, useSettingsStore, useKnownWordsStore } from '../../stores';
 import { getBookById } from '../../data/bible';
 import { ttsService, type VoiceGender } from '../../services';
-import { splitPinyinSyllables } from '../../utils/pinyin';
+import { splitPinyinSyllables, pinyinToZhuyin } from '../../utils/pinyin';
+import { getWordContexts, isSameVerse } from '../../utils/wordContexts';
+import {
+  getKnownWordKey,
+  getVocabularyFamiliarity,
+  resolveWordFamiliarity,
+} from '../../utils/knownWords';
+import { ConcordancePanel } from './ConcordancePanel';
+import { HighlightControls } from './HighlightControls';
+
+// How many "seen in" references to list before collapsing the rest
+const MAX_VISIBLE_CONTEXTS = 4;
 
 interface WordDetailPanelProps {
   word: SegmentedWord;
@@ -67,18 +83,45 @@ export const WordDetailPanel = memo(function WordDetailPanel({
   isAudioAvailable = false,
 }: WordDetailPanelProps) {
   void _onClose; // Reserved for future use
-  const { addWord, removeWord, isWordSaved, getWordByChars } = useVocabularyStore();
+  const { words, addWord, removeWord, isWordSaved, getWordByChars, recordWordContext } = useVocabularyStore();
+  const phoneticSystem = useSettingsStore((state) => state.phoneticSystem);
+  const proficiencySystem = useSettingsStore((state) => state.proficiencySystem);
+  const proficiencyLevel = getProficiencyLevel(word, proficiencySystem);
+  const knownMark = useKnownWordsStore((state) => state.marks[getKnownWordKey(word.chinese)]);
+  const setFamiliarity = useKnownWordsStore((state) => state.setFamiliarity);
+  const clearMark = useKnownWordsStore((state) => state.clearMark);
+  const familiarity = resolveWordFamiliarity(knownMark, getVocabularyFamiliarity(words, word.chinese));
 
   const isSaved = isWordSaved(word.chinese);
   const savedWord = getWordByChars(word.chinese);
   const book = verseRef ? getBookById(verseRef.bookId) : null;
 
+  // Other verses this saved word has been seen in
+  const otherContexts = useMemo(
+    () =>
+      savedWord
+        ? getWordContexts(savedWord).filter((ref) => !verseRef || !isSameVerse(ref, verseRef))
+        : [],
+    [savedWord, verseRef]
+  );
+
+  // Looking up a saved word in a new verse adds that verse to its contexts;
+  // verses it already has are skipped so reopening the panel doesn't write
+  const isNewContext =
+    !!savedWord && !!verseRef && !getWordContexts(savedWord).some((ref) => isSameVerse(ref, verseRef));
+  useEffect(() => {
+    if (isNewContext && verseRef) {
+      recordWordContext(word.chinese, verseRef);
+    }
+  }, [isNewContext, word.chinese, verseRef, recordWordContext]);
+
   // Audio playback state (TTS for pronunciation)
   const [isPlaying, setIsPlaying] = useState(false);
   // Enable TTS audio when service is available (Azure/OpenAI configured)
   const [isTTSAvailable] = useState(() => ttsService.isAvailable());
   const [showComingSoonTooltip, setShowComingSoonTooltip] = useState(false);
   const [clickedDisabled, setClickedDisabled] = useState(false);
+  const [isConcordanceOpen, setIsConcordanceOpen] = useState(false);
 
   // Voice toggle state - alternates between male and female on each tap
   // Starts with male, then female, then male again...
@@ -145,6 +188,32 @@ export const WordDetailPanel = memo(function WordDetailPanel({
     }
   }, [word, verseRef, isSaved, savedWord, addWord, removeWord]);
 
+  // Tapping the active mark again hands the word back to the vocabulary and reading level
+  const handleFamiliarityToggle = useCallback(
+    (value: WordFamiliarity) => {
+      if (knownMark?.familiarity === value) {
+        clearMark(word.chinese);
+      } else {
+        setFamiliarity(word.chinese, value);
+      }
+    },
+    [word.chinese, knownMark, setFamiliarity, clearMark]
+  );
+
+  // This word in its verse, as a highlight target
+  const wordAnchor = useMemo<HighlightAnchor | null>(
+    () =>
+      verseRef
+        ? {
+            bookId: verseRef.bookId,
+            chapter: verseRef.chapter,
+            verse: verseRef.verse,
+            word: { startIndex: word.startIndex, endIndex: word.endIndex },
+          }
+        : null,
+    [verseRef, word.startIndex, word.endIndex]
+  );
+
   const posConfig = word.partOfSpeech ? POS_CONFIG[word.partOfSpeech] : null;
   const freqConfig = word.freq ? FREQ_CONFIG[word.freq] : null;
   const hasBreakdown = word.breakdown && word.breakdown.length > 1;
@@ -201,8 +270,8 @@ export const WordDetailPanel = memo(function WordDetailPanel({
             </span>
           )}
 
-          {/* HSK badge */}
-          {word.hskLevel && (
+          {/* Proficiency level badge, in the chosen system */}
+          {proficiencyLevel && (
             <span
               className="rounded-full px-1.5 py-0.5 text-[8px] font-medium tracking-wide"
               style={{
@@ -210,7 +279,7 @@ export const WordDetailPanel = memo(function WordDetailPanel({
                 color: 'var(--accent)',
               }}
             >
-              HSK {word.hskLevel}
+              {formatProficiencyLevel(proficiencyLevel, proficiencySystem)}
             </span>
           )}
         </div>
@@ -286,12 +355,22 @@ export const WordDetailPanel = memo(function WordDetailPanel({
                 const syllables = splitPinyinSyllables(word.pinyin, chars.length);
                 return chars.map((char, idx) => (
                   <div key={idx} className="flex flex-col items-center">
-                    <span
-                      className="font-body text-[12px] tracking-wide leading-tight mb-0.5 text-center"
-                      style={{ color: 'var(--text-secondary)', minWidth: '1.6rem', fontStyle: 'normal' }}
-                    >
-                      {syllables[idx] || ''}
-                    </span>
+                    {phoneticSystem !== 'zhuyin' && (
+                      <span
+                        className="font-body text-[12px] tracking-wide leading-tight mb-0.5 text-center"
+                        style={{ color: 'var(--text-secondary)', minWidth: '1.6rem', fontStyle: 'normal' }}
+                      >
+                        {syllables[idx] || ''}
+                      </span>
+                    )}
+                    {phoneticSystem !== 'pinyin' && (
+                      <span
+                        className="font-chinese-serif text-[11px] leading-tight mb-0.5 text-center"
+                        style={{ color: 'var(--text-secondary)', minWidth: '1.6rem' }}
+                      >
+                        {(syllables[idx] && pinyinToZhuyin(syllables[idx])) || syllables[idx] || ''}
+                      </span>
+                    )}
                     <span
                       className="font-chinese-serif text-2xl leading-none"
                       style={{
@@ -670,6 +749,80 @@ export const WordDetailPanel = memo(function WordDetailPanel({
               </span>
             </div>
           )}
+
+          {/* Concordance */}
+          <button
+            onClick={() => setIsConcordanceOpen(true)}
+            className="mt-1.5 flex items-center gap-1 font-body text-[9px] uppercase tracking-wider hover:opacity-80 transition-opacity"
+            style={{ color: 'var(--accent)' }}
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              viewBox="0 0 16 16"
+              fill="currentColor"
+              className="w-2.5 h-2.5 opacity-70"
+            >
+              <path
+                fillRule="evenodd"
+                d="M9.965 11.026a5 5 0 1 1 1.06-1.06l2.755 2.754a.75.75 0 1 1-1.06 1.06l-2.755-2.754ZM10.5 7a3.5 3.5 0 1 1-7 0 3.5 3.5 0 0 1 7 0Z"
+                clipRule="evenodd"
+              />
+            </svg>
+            Every occurrence
+          </button>
+
+          {/* Known-word marks - override the reading level for this word's pinyin */}
+          <div className="mt-1.5 flex items-center gap-1">
+            {(
+              [
+                { value: 'known', label: 'I know this' },
+                { value: 'learning', label: 'Keep pinyin' },
+              ] as const
+            ).map(({ value, label }) => {
+              const isActive = familiarity === value;
+              return (
+                <button
+                  key={value}
+                  onClick={() => handleFamiliarityToggle(value)}
+                  className="rounded px-1.5 py-0.5 font-body text-[9px] uppercase tracking-wider hover:opacity-80 transition-opacity"
+                  style={{
+                    backgroundColor: isActive ? 'var(--accent-subtle)' : 'var(--bg-secondary)',
+                    color: isActive ? 'var(--accent)' : 'var(--text-tertiary)',
+                  }}
+                  aria-pressed={isActive}
+                >
+                  {label}
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Seen in - other verses where this saved word appeared */}
+          {otherContexts.length > 0 && (
+            <div className="mt-1.5 flex items-center gap-1 flex-wrap">
+              <span
+                className="text-[8px] uppercase tracking-widest font-medium"
+                style={{ color: 'var(--text-tertiary)' }}
+              >
+                Seen in:
+              </span>
+              {otherContexts.slice(0, MAX_VISIBLE_CONTEXTS).map((ref) => (
+                <button
+                  key={`${ref.bookId}-${ref.chapter}-${ref.verse}`}
+                  onClick={() => onNavigateToVerse?.(ref.bookId, ref.chapter, ref.verse)}
+                  className="rounded px-1 py-0.5 font-body text-[9px] hover:opacity-80 transition-opacity"
+                  style={{ backgroundColor: 'var(--bg-secondary)', color: 'var(--accent)' }}
+                >
+                  {getBookById(ref.bookId)?.name.english ?? ref.bookId} {ref.chapter}:{ref.verse}
+                </button>
+              ))}
+              {otherContexts.length > MAX_VISIBLE_CONTEXTS && (
+                <span className="font-body text-[9px]" style={{ color: 'var(--text-tertiary)' }}>
+                  +{otherContexts.length - MAX_VISIBLE_CONTEXTS} more
+                </span>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Save button - compact */}
@@ -699,6 +852,18 @@ export const WordDetailPanel = memo(function WordDetailPanel({
           </svg>
         </motion.button>
       </div>
+
+      {/* Highlight and annotate this word */}
+      {wordAnchor && <HighlightControls target={wordAnchor} />}
+
+      <ConcordancePanel
+        key={word.chinese}
+        isOpen={isConcordanceOpen}
+        word={word.chinese}
+        pinyin={word.pinyin}
+        onClose={() => setIsConcordanceOpen(false)}
+        onNavigateToVerse={onNavigateToVerse}
+      />
     </motion.div>
   );
 });
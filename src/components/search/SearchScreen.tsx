@@ -0,0 +1,479 @@
+/**
+ * SearchScreen - full-text verse search
+ *
+ * Results stream in canonical order as the index (or the chapter scan) yields
+ * them. A per-book histogram summarises where hits fall and filters the list;
+ * tapping a hit opens it in the reader at that verse.
+ */
+
+import { memo, useState, useEffect, useMemo, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useReadingStore, useSettingsStore } from '../../stores';
+import { BIBLE_BOOKS } from '../../data/bible';
+import {
+  searchService,
+  SearchQueryError,
+  type SearchMatchRange,
+  type SearchMode,
+  type SearchResult,
+} from '../../services';
+import { convertCharacters } from '../../utils/characterConversion';
+
+interface SearchScreenProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 20;
+const SEARCH_DELAY_MS = 300;
+
+const SEARCH_MODES: { value: SearchMode; label: string }[] = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'chinese', label: '中文' },
+  { value: 'pinyin', label: 'Pinyin' },
+  { value: 'english', label: 'English' },
+];
+
+const SYNTAX_EXAMPLES = ['愛 AND 信心', '"永生"', '恩典 -律法', '愛 NEAR/5 神', 'grace in:paul', 'en dian in:psalms-proverbs'];
+
+type Status = 'idle' | 'searching' | 'done';
+
+interface QueryError {
+  message: string;
+  position: number;
+}
+
+// Verse text with each match range marked
+function HighlightedText({ text, ranges }: { text: string; ranges: SearchMatchRange[] }) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach((range, index) => {
+    if (range.start > cursor) parts.push(text.slice(cursor, range.start));
+    parts.push(
+      <mark
+        key={index}
+        className="rounded px-0.5"
+        style={{ backgroundColor: 'var(--accent-subtle)', color: 'var(--accent)' }}
+      >
+        {text.slice(range.start, range.end)}
+      </mark>
+    );
+    cursor = range.end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return <>{parts}</>;
+}
+
+interface HitHistogramProps {
+  results: SearchResult[];
+  selectedBookId: string | null;
+  onSelectBook: (bookId: string | null) => void;
+}
+
+// Hits per testament and per book, like a concordance summary
+function HitHistogram({ results, selectedBookId, onSelectBook }: HitHistogramProps) {
+  const characterSet = useSettingsStore((state) => state.characterSet);
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const { books, oldCount, newCount, maxCount } = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const result of results) counts.set(result.bookId, (counts.get(result.bookId) ?? 0) + 1);
+    const booksWithHits = BIBLE_BOOKS.filter((book) => counts.has(book.id)).map((book) => ({
+      book,
+      count: counts.get(book.id)!,
+    }));
+    return {
+      books: booksWithHits,
+      oldCount: booksWithHits.filter(({ book }) => book.testament === 'old').reduce((sum, b) => sum + b.count, 0),
+      newCount: booksWithHits.filter(({ book }) => book.testament === 'new').reduce((sum, b) => sum + b.count, 0),
+      maxCount: Math.max(1, ...booksWithHits.map((b) => b.count)),
+    };
+  }, [results]);
+
+  const total = oldCount + newCount;
+
+  return (
+    <div className="px-4 pb-2">
+      {/* Testament split */}
+      <button
+        className="touch-feedback w-full text-left"
+        onClick={() => setIsExpanded((prev) => !prev)}
+        aria-expanded={isExpanded}
+      >
+        <div className="flex h-1.5 overflow-hidden rounded-full" style={{ backgroundColor: 'var(--bg-secondary)' }}>
+          <div style={{ width: `${(oldCount / total) * 100}%`, backgroundColor: 'var(--accent)', opacity: 0.55 }} />
+          <div style={{ width: `${(newCount / total) * 100}%`, backgroundColor: 'var(--accent)' }} />
+        </div>
+        <div className="mt-1 flex justify-between font-body text-[10px] tracking-wide" style={{ color: 'var(--text-tertiary)' }}>
+          <span>Old Testament · {oldCount}</span>
+          <span>{isExpanded ? 'Hide books' : `${books.length} book${books.length === 1 ? '' : 's'}`}</span>
+          <span>New Testament · {newCount}</span>
+        </div>
+      </button>
+
+      {/* Per-book bars */}
+      <AnimatePresence initial={false}>
+        {isExpanded && (
+          <motion.ul
+            className="mt-2 max-h-48 overflow-y-auto"
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.2 }}
+          >
+            {books.map(({ book, count }) => {
+              const isSelected = selectedBookId === book.id;
+              return (
+                <li key={book.id}>
+                  <button
+                    className="touch-feedback flex w-full items-center gap-2 rounded-md px-1 py-0.5"
+                    style={{ backgroundColor: isSelected ? 'var(--accent-subtle)' : 'transparent' }}
+                    onClick={() => onSelectBook(isSelected ? null : book.id)}
+                    aria-pressed={isSelected}
+                  >
+                    <span
+                      className="w-16 shrink-0 truncate text-left font-chinese-serif text-xs"
+                      style={{ color: 'var(--text-secondary)' }}
+                    >
+                      {convertCharacters(book.name.chinese, characterSet)}
+                    </span>
+                    <span className="h-1.5 flex-1 overflow-hidden rounded-full" style={{ backgroundColor: 'var(--bg-secondary)' }}>
+                      <span
+                        className="block h-full rounded-full"
+                        style={{ width: `${(count / maxCount) * 100}%`, backgroundColor: 'var(--accent)' }}
+                      />
+                    </span>
+                    <span className="w-8 shrink-0 text-right font-body text-[10px]" style={{ color: 'var(--text-tertiary)' }}>
+                      {count}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </motion.ul>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+export const SearchScreen = memo(function SearchScreen({ isOpen, onClose }: SearchScreenProps) {
+  const { setCurrentPosition } = useReadingStore();
+  const characterSet = useSettingsStore((state) => state.characterSet);
+  const englishVersion = useSettingsStore((state) => state.englishVersion);
+
+  const [query, setQuery] = useState('');
+  const [mode, setMode] = useState<SearchMode>('auto');
+  const [toneSensitive, setToneSensitive] = useState(true);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [status, setStatus] = useState<Status>('idle');
+  const [queryError, setQueryError] = useState<QueryError | null>(null);
+  const [page, setPage] = useState(0);
+  const [selectedBookId, setSelectedBookId] = useState<string | null>(null);
+  const [indexProgress, setIndexProgress] = useState<number | null>(null);
+
+  // Each search gets an id so batches from a superseded search are dropped
+  const searchIdRef = useRef(0);
+
+  // Build the index while the screen is open; searches scan chapters until it's ready
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    searchService.isIndexReady().then((ready) => {
+      if (ready || cancelled) return;
+      setIndexProgress(searchService.getIndexProgress());
+      searchService
+        .buildIndex((percent) => {
+          if (!cancelled) setIndexProgress(percent);
+        })
+        .then(() => {
+          if (!cancelled) setIndexProgress(null);
+        })
+        .catch((error) => {
+          console.warn('[SearchScreen] Index build failed:', error);
+          if (!cancelled) setIndexProgress(null);
+        });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  // Debounced search; results stream in batches
+  useEffect(() => {
+    if (!isOpen) return;
+    const searchId = ++searchIdRef.current;
+    const controller = new AbortController();
+
+    const timeout = setTimeout(() => {
+      setResults([]);
+      setPage(0);
+      setSelectedBookId(null);
+      setQueryError(null);
+      if (!query.trim()) {
+        setStatus('idle');
+        return;
+      }
+
+      setStatus('searching');
+      searchService
+        .searchAll(query, { mode, toneSensitive, characterSet, englishVersion, signal: controller.signal }, (batch) => {
+          if (searchIdRef.current !== searchId) return false;
+          setResults((prev) => [...prev, ...batch]);
+        })
+        .then(() => {
+          if (searchIdRef.current === searchId) setStatus('done');
+        })
+        .catch((error) => {
+          if (searchIdRef.current !== searchId) return;
+          if (error instanceof SearchQueryError) {
+            setQueryError({ message: error.message, position: error.position });
+          } else {
+            console.error('[SearchScreen] Search failed:', error);
+            setQueryError({ message: 'Search failed. Please try again.', position: -1 });
+          }
+          setStatus('done');
+        });
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [isOpen, query, mode, toneSensitive, characterSet, englishVersion]);
+
+  const filteredResults = useMemo(
+    () => (selectedBookId ? results.filter((result) => result.bookId === selectedBookId) : results),
+    [results, selectedBookId]
+  );
+  const pageCount = Math.max(1, Math.ceil(filteredResults.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageResults = filteredResults.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+  const isSearching = status === 'searching';
+
+  const handleSelectBook = (bookId: string | null) => {
+    setSelectedBookId(bookId);
+    setPage(0);
+  };
+
+  const handleOpenResult = (result: SearchResult) => {
+    setCurrentPosition(result.bookId, result.chapter, result.verse);
+    onClose();
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          className="fixed inset-0 z-46 flex flex-col safe-area-top safe-area-bottom"
+          style={{ backgroundColor: 'var(--bg-primary)' }}
+          initial={{ y: '100%' }}
+          animate={{ y: 0 }}
+          exit={{ y: '100%' }}
+          transition={{ type: 'spring', damping: 30, stiffness: 300 }}
+        >
+          <div className="mx-auto flex w-full max-w-2xl flex-1 flex-col overflow-hidden">
+            {/* Header */}
+            <div
+              className="flex items-center gap-3 px-4 py-3"
+              style={{ borderBottom: '1px solid var(--border-subtle)' }}
+            >
+              <div
+                className="flex flex-1 items-center gap-3 rounded-xl px-4 py-2.5"
+                style={{ backgroundColor: 'var(--bg-secondary)' }}
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth={1.5}
+                  className="h-5 w-5"
+                  style={{ color: 'var(--text-tertiary)' }}
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    d="M21 21l-5.197-5.197m0 0A7.5 7.5 0 105.196 5.196a7.5 7.5 0 0010.607 10.607z"
+                  />
+                </svg>
+                <input
+                  type="search"
+                  placeholder="恩典, en dian, grace…"
+                  className="flex-1 bg-transparent font-body text-sm outline-none placeholder:italic"
+                  style={{ color: 'var(--text-primary)' }}
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  autoFocus
+                  aria-label="Search verses"
+                />
+              </div>
+              <motion.button
+                className="touch-feedback rounded-lg p-1.5"
+                style={{ color: 'var(--text-tertiary)' }}
+                onClick={onClose}
+                whileTap={{ scale: 0.9 }}
+                aria-label="Close search"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                  <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
+                </svg>
+              </motion.button>
+            </div>
+
+            {/* Mode and tone options */}
+            <div className="flex items-center gap-1.5 px-4 py-2">
+              {SEARCH_MODES.map((option) => (
+                <button
+                  key={option.value}
+                  className="touch-feedback rounded-full px-3 py-1 font-body text-xs tracking-wide"
+                  style={{
+                    backgroundColor: mode === option.value ? 'var(--accent-subtle)' : 'var(--bg-secondary)',
+                    color: mode === option.value ? 'var(--accent)' : 'var(--text-secondary)',
+                  }}
+                  onClick={() => setMode(option.value)}
+                  aria-pressed={mode === option.value}
+                >
+                  {option.label}
+                </button>
+              ))}
+              {(mode === 'auto' || mode === 'pinyin') && (
+                <button
+                  className="touch-feedback ml-auto rounded-full px-3 py-1 font-body text-xs tracking-wide"
+                  style={{
+                    backgroundColor: toneSensitive ? 'var(--accent-subtle)' : 'var(--bg-secondary)',
+                    color: toneSensitive ? 'var(--accent)' : 'var(--text-tertiary)',
+                  }}
+                  onClick={() => setToneSensitive((prev) => !prev)}
+                  aria-pressed={toneSensitive}
+                >
+                  Match tones
+                </button>
+              )}
+            </div>
+
+            {/* Status line */}
+            <div className="px-4 pb-2 font-body text-[11px] italic" role="status">
+              {queryError ? (
+                <span style={{ color: '#EF4444' }}>
+                  {queryError.message}
+                  {queryError.position >= 0 && ` (at character ${queryError.position + 1})`}
+                </span>
+              ) : status !== 'idle' ? (
+                <span style={{ color: 'var(--text-tertiary)' }}>
+                  {results.length} verse{results.length === 1 ? '' : 's'}
+                  {isSearching ? ' so far…' : ''}
+                </span>
+              ) : null}
+              {indexProgress !== null && (
+                <span className="ml-2" style={{ color: 'var(--text-tertiary)' }}>
+                  Preparing offline search… {indexProgress}%
+                </span>
+              )}
+            </div>
+
+            {results.length > 0 && (
+              <HitHistogram
+                results={results}
+                selectedBookId={selectedBookId}
+                onSelectBook={handleSelectBook}
+              />
+            )}
+
+            {/* Results */}
+            <div className="flex-1 overflow-y-auto px-2">
+              {status === 'idle' ? (
+                <div className="px-2 py-6">
+                  <p className="font-body text-xs italic" style={{ color: 'var(--text-tertiary)' }}>
+                    Search by characters in either script, pinyin, or English. Try:
+                  </p>
+                  <div className="mt-2 flex flex-wrap gap-1.5">
+                    {SYNTAX_EXAMPLES.map((example) => (
+                      <button
+                        key={example}
+                        className="touch-feedback rounded-lg px-2 py-1 font-body text-xs"
+                        style={{ backgroundColor: 'var(--bg-secondary)', color: 'var(--text-secondary)' }}
+                        onClick={() => setQuery(example)}
+                      >
+                        {example}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ) : !isSearching && !queryError && results.length === 0 ? (
+                <p className="px-2 py-6 text-center font-body text-sm italic" style={{ color: 'var(--text-tertiary)' }}>
+                  No verses found
+                </p>
+              ) : (
+                <ul>
+                  {pageResults.map((result) => (
+                    <li key={`${result.bookId}:${result.chapter}:${result.verse}`}>
+                      <button
+                        className="touch-feedback w-full rounded-lg px-3 py-2 text-left hover:opacity-80 transition-opacity"
+                        onClick={() => handleOpenResult(result)}
+                      >
+                        <span className="flex items-baseline gap-2">
+                          <span className="font-chinese-serif text-xs" style={{ color: 'var(--accent)' }}>
+                            {convertCharacters(result.bookName.chinese, characterSet)} {result.chapter}:{result.verse}
+                          </span>
+                          <span className="font-body text-[10px]" style={{ color: 'var(--text-tertiary)' }}>
+                            {result.bookName.english}
+                          </span>
+                          {result.language !== 'chinese' && (
+                            <span
+                              className="font-display text-[9px] tracking-widest uppercase"
+                              style={{ color: 'var(--text-tertiary)' }}
+                            >
+                              {result.language}
+                            </span>
+                          )}
+                        </span>
+                        <p
+                          className={`${result.language === 'english' ? 'font-body' : 'font-chinese-serif'} text-sm leading-relaxed`}
+                          style={{ color: 'var(--text-primary)' }}
+                        >
+                          <HighlightedText text={result.text} ranges={result.matches} />
+                        </p>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Pager */}
+            {filteredResults.length > PAGE_SIZE && (
+              <div
+                className="flex items-center justify-between px-4 py-2"
+                style={{ borderTop: '1px solid var(--border-subtle)' }}
+              >
+                <button
+                  className="touch-feedback rounded-lg px-3 py-1 font-body text-xs"
+                  style={{ color: currentPage > 0 ? 'var(--accent)' : 'var(--text-tertiary)' }}
+                  onClick={() => setPage(currentPage - 1)}
+                  disabled={currentPage === 0}
+                >
+                  ‹ Previous
+                </button>
+                <span className="font-body text-[11px]" style={{ color: 'var(--text-tertiary)' }}>
+                  Page {currentPage + 1} of {pageCount}
+                  {isSearching ? '+' : ''}
+                </span>
+                <button
+                  className="touch-feedback rounded-lg px-3 py-1 font-body text-xs"
+                  style={{ color: currentPage < pageCount - 1 ? 'var(--accent)' : 'var(--text-tertiary)' }}
+                  onClick={() => setPage(currentPage + 1)}
+                  disabled={currentPage >= pageCount - 1}
+                >
+                  Next ›
+                </button>
+              </div>
+            )}
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+});
@@ -0,0 +1 @@
+export { SearchScreen } from './SearchScreen';
@@ -1,8 +1,17 @@
 import { memo, useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useSettingsStore, useAuthStore } from '../../stores';
-import { PINYIN_LEVELS } from '../../types';
-import type { PinyinLevel, CharacterSet, TextSize, FeedbackCategory, Feedback } from '../../types';
+import {
+  PINYIN_LEVELS,
+  PROFICIENCY_SYSTEMS,
+  getPinyinLevelDescription,
+  CARD_DIRECTIONS,
+  PARALLEL_TRANSLATION_OPTIONS,
+  GLOSS_DISPLAY_OPTIONS,
+  PHONETIC_SYSTEMS,
+  TONE_COLOR_OPTIONS,
+} from '../../types';
+import type { PinyinLevel, ProficiencySystem, CharacterSet, TextSize, FeedbackCategory, Feedback } from '../../types';
 import { LoginScreen, ProfileScreen } from '../auth';
 import {
   submitFeedback,
@@ -39,16 +48,32 @@ export const SettingsScreen = memo(function SettingsScreen({
   const {
     pinyinLevel,
     setPinyinLevel,
+    proficiencySystem,
+    setProficiencySystem,
+    glossDisplay,
+    setGlossDisplay,
     textSize,
     setTextSize,
     characterSet,
     setCharacterSet,
+    phoneticSystem,
+    setPhoneticSystem,
+    toneColors,
+    setToneColors,
+    toneSandhi,
+    setToneSandhi,
     theme,
     setTheme,
     englishVersion,
     setEnglishVersion,
+    parallelTranslation,
+    setParallelTranslation,
     ambientMusicEnabled,
     setAmbientMusicEnabled,
+    clozeSeparateSchedule,
+    setClozeSeparateSchedule,
+    enabledCardDirections,
+    toggleCardDirection,
   } = useSettingsStore();
   const { user, isAuthenticated, isFirebaseAvailable } = useAuthStore();
   const [isLoginOpen, setIsLoginOpen] = useState(false);
@@ -326,8 +351,91 @@ export const SettingsScreen = memo(function SettingsScreen({
                 {/* Slider component */}
                 <ReadingLevelSlider
                   value={pinyinLevel}
+                  proficiencySystem={proficiencySystem}
                   onChange={setPinyinLevel}
                 />
+
+                {/* Word levels the slider is measured in */}
+                <div className="mt-4">
+                  <div className="flex items-baseline gap-2 mb-2">
+                    <span className="font-body text-xs md:text-[10px] uppercase tracking-wider" style={{ color: 'var(--text-tertiary)' }}>
+                      Proficiency System
+                    </span>
+                  </div>
+                  <div
+                    className="flex rounded-lg p-0.5"
+                    style={{ backgroundColor: 'var(--bg-secondary)' }}
+                  >
+                    {PROFICIENCY_SYSTEMS.filter((option) => option.available).map((option) => (
+                      <button
+                        key={option.value}
+                        className="touch-feedback flex-1 rounded-md py-2 px-3 transition-all duration-150"
+                        style={{
+                          backgroundColor: proficiencySystem === option.value ? 'var(--bg-primary)' : 'transparent',
+                          boxShadow: proficiencySystem === option.value ? '0 1px 3px var(--shadow)' : 'none',
+                        }}
+                        onClick={() => setProficiencySystem(option.value)}
+                        aria-pressed={proficiencySystem === option.value}
+                      >
+                        <div className="flex flex-col items-center gap-0.5">
+                          <span
+                            className="font-display text-xs md:text-[10px] tracking-wider"
+                            style={{ color: proficiencySystem === option.value ? 'var(--accent)' : 'var(--text-tertiary)' }}
+                          >
+                            {option.label}
+                          </span>
+                          <span
+                            className="font-body text-[10px] md:text-[9px]"
+                            style={{ color: proficiencySystem === option.value ? 'var(--text-secondary)' : 'var(--text-tertiary)' }}
+                          >
+                            {option.description}
+                          </span>
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Interlinear glosses - "Unfamiliar" follows the reading level above */}
+                <div className="mt-4">
+                  <div className="flex items-baseline gap-2 mb-2">
+                    <span className="font-body text-xs md:text-[10px] uppercase tracking-wider" style={{ color: 'var(--text-tertiary)' }}>
+                      Word Glosses
+                    </span>
+                  </div>
+                  <div
+                    className="flex rounded-lg p-0.5"
+                    style={{ backgroundColor: 'var(--bg-secondary)' }}
+                  >
+                    {GLOSS_DISPLAY_OPTIONS.map((option) => (
+                      <button
+                        key={option.value}
+                        className="touch-feedback flex-1 rounded-md py-2 px-3 transition-all duration-150"
+                        style={{
+                          backgroundColor: glossDisplay === option.value ? 'var(--bg-primary)' : 'transparent',
+                          boxShadow: glossDisplay === option.value ? '0 1px 3px var(--shadow)' : 'none',
+                        }}
+                        onClick={() => setGlossDisplay(option.value)}
+                        aria-pressed={glossDisplay === option.value}
+                      >
+                        <div className="flex flex-col items-center gap-0.5">
+                          <span
+                            className="font-display text-xs md:text-[10px] tracking-wider"
+                            style={{ color: glossDisplay === option.value ? 'var(--accent)' : 'var(--text-tertiary)' }}
+                          >
+                            {option.label}
+                          </span>
+                          <span
+                            className="font-body text-[10px] md:text-[9px]"
+                            style={{ color: glossDisplay === option.value ? 'var(--text-secondary)' : 'var(--text-tertiary)' }}
+                          >
+                            {option.description}
+                          </span>
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                </div>
               </motion.section>
 
               {/* Character Set - Inline toggle */}
@@ -367,6 +475,96 @@ export const SettingsScreen = memo(function SettingsScreen({
                     </button>
                   ))}
                 </div>
+
+                {/* Phonetic annotation - pinyin above, zhuyin to the right of each character */}
+                <div
+                  className="mt-2 flex rounded-lg p-0.5"
+                  style={{ backgroundColor: 'var(--bg-secondary)' }}
+                >
+                  {PHONETIC_SYSTEMS.map((system) => (
+                    <button
+                      key={system.value}
+                      className="touch-feedback flex-1 rounded-md py-2 px-3 transition-all duration-150"
+                      style={{
+                        backgroundColor: phoneticSystem === system.value ? 'var(--bg-primary)' : 'transparent',
+                        boxShadow: phoneticSystem === system.value ? '0 1px 3px var(--shadow)' : 'none',
+                      }}
+                      onClick={() => setPhoneticSystem(system.value)}
+                      aria-pressed={phoneticSystem === system.value}
+                    >
+                      <span
+                        className="font-chinese-serif text-base md:text-sm"
+                        style={{ color: phoneticSystem === system.value ? 'var(--accent)' : 'var(--text-secondary)' }}
+                      >
+                        {system.label.chinese}
+                      </span>
+                      <span
+                        className="ml-1.5 font-body text-xs md:text-[10px]"
+                        style={{ color: 'var(--text-tertiary)' }}
+                      >
+                        {system.label.english}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+
+                {/* Tone colors - swatches follow the current theme's palette */}
+                <div className="mt-4">
+                  <div className="flex items-baseline gap-2 mb-2">
+                    <span className="font-body text-xs md:text-[10px] uppercase tracking-wider" style={{ color: 'var(--text-tertiary)' }}>
+                      Tone Colors
+                    </span>
+                  </div>
+                  <div
+                    className="flex rounded-lg p-0.5"
+                    style={{ backgroundColor: 'var(--bg-secondary)' }}
+                  >
+                    {TONE_COLOR_OPTIONS.map((option) => (
+                      <button
+                        key={option.value}
+                        className="touch-feedback flex-1 rounded-md py-2 px-3 transition-all duration-150"
+                        style={{
+                          backgroundColor: toneColors === option.value ? 'var(--bg-primary)' : 'transparent',
+                          boxShadow: toneColors === option.value ? '0 1px 3px var(--shadow)' : 'none',
+                        }}
+                        onClick={() => setToneColors(option.value)}
+                        aria-pressed={toneColors === option.value}
+                        title={option.description}
+                      >
+                        <div className="flex flex-col items-center gap-1">
+                          <span
+                            className="font-display text-xs md:text-[10px] tracking-wider"
+                            style={{ color: toneColors === option.value ? 'var(--accent)' : 'var(--text-tertiary)' }}
+                          >
+                            {option.label}
+                          </span>
+                          {option.value === 'off' ? (
+                            <span className="font-body text-[10px] md:text-[9px]" style={{ color: 'var(--text-tertiary)' }}>
+                              {option.description}
+                            </span>
+                          ) : (
+                            <span className="flex gap-0.5" aria-hidden="true">
+                              {[1, 2, 3, 4].map((tone) => (
+                                <span
+                                  key={tone}
+                                  className="h-2 w-2 rounded-full"
+                                  style={{ backgroundColor: `var(--tone-${option.value}-${tone})` }}
+                                />
+                              ))}
+                            </span>
+                          )}
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <ToggleRow
+                  label="Spoken Tones"
+                  description="Show tone changes for 一, 不 and third tones as read aloud; word details keep the dictionary tones"
+                  checked={toneSandhi}
+                  onChange={setToneSandhi}
+                />
               </motion.section>
 
               {/* Text Size - Compact segmented control */}
@@ -485,6 +683,47 @@ export const SettingsScreen = memo(function SettingsScreen({
                     ))}
                   </div>
                 </div>
+
+                {/* Parallel English - whole chapter alongside the Chinese */}
+                <div className="mt-4">
+                  <div className="flex items-baseline gap-2 mb-2">
+                    <span className="font-body text-xs md:text-[10px] uppercase tracking-wider" style={{ color: 'var(--text-tertiary)' }}>
+                      Parallel English
+                    </span>
+                  </div>
+                  <div
+                    className="flex rounded-lg p-0.5"
+                    style={{ backgroundColor: 'var(--bg-secondary)' }}
+                  >
+                    {PARALLEL_TRANSLATION_OPTIONS.map((option) => (
+                      <button
+                        key={option.value}
+                        className="touch-feedback flex-1 rounded-md py-2 px-3 transition-all duration-150"
+                        style={{
+                          backgroundColor: parallelTranslation === option.value ? 'var(--bg-primary)' : 'transparent',
+                          boxShadow: parallelTranslation === option.value ? '0 1px 3px var(--shadow)' : 'none',
+                        }}
+                        onClick={() => setParallelTranslation(option.value)}
+                        aria-pressed={parallelTranslation === option.value}
+                      >
+                        <div className="flex flex-col items-center gap-0.5">
+                          <span
+                            className="font-display text-xs md:text-[10px] tracking-wider"
+                            style={{ color: parallelTranslation === option.value ? 'var(--accent)' : 'var(--text-tertiary)' }}
+                          >
+                            {option.label}
+                          </span>
+                          <span
+                            className="font-body text-[10px] md:text-[9px]"
+                            style={{ color: parallelTranslation === option.value ? 'var(--text-secondary)' : 'var(--text-tertiary)' }}
+                          >
+                            {option.description}
+                          </span>
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                </div>
               </motion.section>
 
               {/* Divider */}
@@ -499,36 +738,71 @@ export const SettingsScreen = memo(function SettingsScreen({
                 <SectionHeader chinese="音頻" english="Audio" />
 
                 {/* Ambient Music Toggle */}
-                <button
-                  className="touch-feedback mt-3 w-full flex items-center justify-between rounded-xl px-3 py-2.5"
+                <ToggleRow
+                  label="Ambient Music"
+                  description="Play subtle background music during audio narration"
+                  checked={ambientMusicEnabled}
+                  onChange={setAmbientMusicEnabled}
+                />
+              </motion.section>
+
+              {/* Divider */}
+              <div className="h-px" style={{ backgroundColor: 'var(--border-subtle)' }} />
+
+              {/* Vocabulary Review Section */}
+              <motion.section
+                initial={{ opacity: 0, y: 8 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.35 }}
+              >
+                <SectionHeader chinese="複習" english="Review" />
+
+                {/* Card directions - each has its own schedule */}
+                <div
+                  className="mt-3 grid grid-cols-2 gap-1 rounded-lg p-0.5"
                   style={{ backgroundColor: 'var(--bg-secondary)' }}
-                  onClick={() => setAmbientMusicEnabled(!ambientMusicEnabled)}
                 >
-                  <div className="flex-1">
-                    <p className="font-body text-base md:text-sm text-left" style={{ color: 'var(--text-primary)' }}>
-                      Ambient Music
-                    </p>
-                    <p className="font-body text-xs md:text-[10px] text-left" style={{ color: 'var(--text-tertiary)' }}>
-                      Play subtle background music during audio narration
-                    </p>
-                  </div>
-                  <div
-                    className="relative flex items-center justify-center flex-shrink-0 ml-3 rounded-full transition-all duration-200"
-                    style={{
-                      width: '44px',
-                      height: '26px',
-                      backgroundColor: ambientMusicEnabled ? 'var(--accent)' : 'var(--border)',
-                    }}
-                  >
-                    <motion.div
-                      className="absolute w-5 h-5 rounded-full"
-                      style={{ backgroundColor: 'white', boxShadow: '0 1px 3px rgba(0,0,0,0.2)' }}
-                      initial={false}
-                      animate={{ x: ambientMusicEnabled ? 9 : -9 }}
-                      transition={{ type: 'spring', damping: 20, stiffness: 500 }}
-                    />
-                  </div>
-                </button>
+                  {CARD_DIRECTIONS.map((option) => {
+                    const isEnabled = enabledCardDirections.includes(option.value);
+                    return (
+                      <button
+                        key={option.value}
+                        className="touch-feedback rounded-md py-2 px-3 transition-all duration-150"
+                        style={{
+                          backgroundColor: isEnabled ? 'var(--bg-primary)' : 'transparent',
+                          boxShadow: isEnabled ? '0 1px 3px var(--shadow)' : 'none',
+                        }}
+                        onClick={() => toggleCardDirection(option.value)}
+                        aria-pressed={isEnabled}
+                      >
+                        <div className="flex flex-col items-center gap-0.5">
+                          <span
+                            className="font-chinese-serif text-sm"
+                            style={{ color: isEnabled ? 'var(--accent)' : 'var(--text-tertiary)' }}
+                          >
+                            {option.label.chinese}
+                            <span className="ml-1.5 font-display text-xs md:text-[10px] tracking-wider">
+                              {option.label.english}
+                            </span>
+                          </span>
+                          <span
+                            className="font-body text-[10px] md:text-[9px]"
+                            style={{ color: isEnabled ? 'var(--text-secondary)' : 'var(--text-tertiary)' }}
+                          >
+                            {option.description}
+                          </span>
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
+
+                <ToggleRow
+                  label="Separate Cloze Schedule"
+                  description="Schedule verse cloze cards independently of the word's main card"
+                  checked={clozeSeparateSchedule}
+                  onChange={setClozeSeparateSchedule}
+                />
               </motion.section>
 
               {/* Divider */}
@@ -650,12 +924,62 @@ const SectionHeader = memo(function SectionHeader({
   );
 });
 
+// Labeled on/off switch row
+const ToggleRow = memo(function ToggleRow({
+  label,
+  description,
+  checked,
+  onChange,
+}: {
+  label: string;
+  description: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <button
+      className="touch-feedback mt-3 w-full flex items-center justify-between rounded-xl px-3 py-2.5"
+      style={{ backgroundColor: 'var(--bg-secondary)' }}
+      onClick={() => onChange(!checked)}
+      role="switch"
+      aria-checked={checked}
+    >
+      <div className="flex-1">
+        <p className="font-body text-base md:text-sm text-left" style={{ color: 'var(--text-primary)' }}>
+          {label}
+        </p>
+        <p className="font-body text-xs md:text-[10px] text-left" style={{ color: 'var(--text-tertiary)' }}>
+          {description}
+        </p>
+      </div>
+      <div
+        className="relative flex items-center justify-center flex-shrink-0 ml-3 rounded-full transition-all duration-200"
+        style={{
+          width: '44px',
+          height: '26px',
+          backgroundColor: checked ? 'var(--accent)' : 'var(--border)',
+        }}
+      >
+        <motion.div
+          className="absolute w-5 h-5 rounded-full"
+          style={{ backgroundColor: 'white', boxShadow: '0 1px 3px rgba(0,0,0,0.2)' }}
+          initial={false}
+          animate={{ x: checked ? 9 : -9 }}
+          transition={{ type: 'spring', damping: 20, stiffness: 500 }}
+        />
+      </div>
+    </button>
+  );
+});
+
 // Reading Level Slider - Elegant discrete slider with 6 stops
 const ReadingLevelSlider = memo(function ReadingLevelSlider({
   value,
+  proficiencySystem,
   onChange,
 }: {
   value: PinyinLevel;
+  proficiencySystem: ProficiencySystem;
   onChange: (level: PinyinLevel) => void;
 }) {
   const currentIndex = PINYIN_LEVELS.findIndex(l => l.value === value);
@@ -764,7 +1088,7 @@ const ReadingLevelSlider = memo(function ReadingLevelSlider({
           className="mt-1.5 font-body text-xs md:text-[10px]"
           style={{ color: 'var(--text-tertiary)' }}
         >
-          {currentLevel.description}
+          {getPinyinLevelDescription(currentLevel.value, proficiencySystem)}
         </p>
       </motion.div>
     </div>
@@ -0,0 +1,216 @@
+import { memo, useState, useEffect, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useSettingsStore } from '../../stores';
+import { loadPreprocessedVerse } from '../../services/preprocessedLoader';
+import { getEnglishVerseAsync } from '../../data/english';
+import { convertCharacters, toTraditional } from '../../utils/characterConversion';
+import { formatPhonetic } from '../../utils/pinyin';
+import type { SavedWord, Verse, VerseReference } from '../../types';
+
+interface ClozeSegment {
+  text: string;
+  isBlank: boolean;
+}
+
+/**
+ * Split a verse into text runs with every occurrence of the target word blanked.
+ * Segmented words omit punctuation, so runs are located in the verse text.
+ * Returns null if the word can't be found in the verse.
+ */
+function buildClozeSegments(verse: Verse, target: string): ClozeSegment[] | null {
+  const segments: ClozeSegment[] = [];
+  let cursor = 0;
+  let hasBlank = false;
+
+  for (const word of verse.words ?? []) {
+    const start = verse.text.indexOf(word.chinese, cursor);
+    if (start === -1) continue;
+    if (start > cursor) {
+      segments.push({ text: verse.text.slice(cursor, start), isBlank: false });
+    }
+    const isBlank = word.chinese === target;
+    hasBlank = hasBlank || isBlank;
+    segments.push({ text: word.chinese, isBlank });
+    cursor = start + word.chinese.length;
+  }
+  if (cursor < verse.text.length) {
+    segments.push({ text: verse.text.slice(cursor), isBlank: false });
+  }
+  if (hasBlank) return segments;
+
+  // The verse may have been segmented differently since the word was saved
+  if (!verse.text.includes(target)) return null;
+  return verse.text
+    .split(target)
+    .flatMap((part, index) => [
+      ...(index > 0 ? [{ text: target, isBlank: true }] : []),
+      { text: part, isBlank: false },
+    ])
+    .filter((segment) => segment.text.length > 0);
+}
+
+interface ClozeCardProps {
+  word: SavedWord;
+  // Verse to blank the word out of (one of the word's contexts)
+  verseRef: VerseReference;
+  isRevealed: boolean;
+  // Called once we know whether the source verse could be blanked
+  onAvailabilityChange?: (available: boolean) => void;
+}
+
+export const ClozeCard = memo(function ClozeCard({
+  word,
+  verseRef,
+  isRevealed,
+  onAvailabilityChange,
+}: ClozeCardProps) {
+  const characterSet = useSettingsStore((state) => state.characterSet);
+  const englishVersion = useSettingsStore((state) => state.englishVersion);
+  const phoneticSystem = useSettingsStore((state) => state.phoneticSystem);
+
+  const [verse, setVerse] = useState<Verse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [englishText, setEnglishText] = useState<string | null>(null);
+  const [showPinyinHint, setShowPinyinHint] = useState(false);
+  const [showEnglishHint, setShowEnglishHint] = useState(false);
+
+  const { bookId, chapter, verse: verseNumber } = verseRef;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadPreprocessedVerse(bookId, chapter, verseNumber)
+      .then((loaded) => {
+        if (!cancelled) setVerse(loaded);
+      })
+      .catch((error) => {
+        console.warn('[ClozeCard] Failed to load source verse:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    getEnglishVerseAsync(bookId, chapter, verseNumber, englishVersion)
+      .then((text) => {
+        if (!cancelled) setEnglishText(text);
+      })
+      .catch(() => {
+        // English hint is optional
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [bookId, chapter, verseNumber, englishVersion]);
+
+  // Verse data is Traditional; the word may have been saved while reading Simplified
+  const segments = useMemo(
+    () => (verse ? buildClozeSegments(verse, toTraditional(word.chinese)) : null),
+    [verse, word.chinese]
+  );
+
+  useEffect(() => {
+    if (!isLoading) onAvailabilityChange?.(segments !== null);
+  }, [isLoading, segments, onAvailabilityChange]);
+
+  if (isLoading) {
+    return (
+      <p
+        className="py-6 font-body text-sm italic"
+        style={{ color: 'var(--text-tertiary)' }}
+      >
+        Loading verse…
+      </p>
+    );
+  }
+
+  if (!segments) return null;
+
+  return (
+    <div>
+      <p
+        className="font-chinese-serif text-2xl leading-relaxed text-left"
+        style={{ color: 'var(--text-primary)', letterSpacing: '0.03em' }}
+      >
+        {segments.map((segment, index) =>
+          segment.isBlank ? (
+            <span
+              key={index}
+              className="mx-0.5 inline-block rounded-md px-1 text-center"
+              style={{
+                minWidth: `${segment.text.length * 1.1}em`,
+                backgroundColor: isRevealed ? 'var(--accent-subtle)' : 'var(--bg-secondary)',
+                color: isRevealed ? 'var(--accent)' : 'transparent',
+                borderBottom: '2px solid var(--accent-light)',
+                transition: 'all 0.25s ease-out',
+              }}
+            >
+              {convertCharacters(segment.text, characterSet)}
+            </span>
+          ) : (
+            <span key={index}>{convertCharacters(segment.text, characterSet)}</span>
+          )
+        )}
+      </p>
+
+      {/* Hints */}
+      {!isRevealed && (
+        <div className="mt-5 flex justify-center gap-2">
+          <button
+            className="touch-feedback rounded-full px-3 py-1 font-body text-xs tracking-wide"
+            style={{
+              backgroundColor: showPinyinHint ? 'var(--accent-subtle)' : 'var(--bg-secondary)',
+              color: showPinyinHint ? 'var(--accent)' : 'var(--text-tertiary)',
+            }}
+            onClick={(e) => {
+              e.stopPropagation(); // Don't reveal the card
+              setShowPinyinHint((prev) => !prev);
+            }}
+          >
+            Pinyin hint
+          </button>
+          {englishText && (
+            <button
+              className="touch-feedback rounded-full px-3 py-1 font-body text-xs tracking-wide"
+              style={{
+                backgroundColor: showEnglishHint ? 'var(--accent-subtle)' : 'var(--bg-secondary)',
+                color: showEnglishHint ? 'var(--accent)' : 'var(--text-tertiary)',
+              }}
+              onClick={(e) => {
+                e.stopPropagation(); // Don't reveal the card
+                setShowEnglishHint((prev) => !prev);
+              }}
+            >
+              English hint
+            </button>
+          )}
+        </div>
+      )}
+
+      <AnimatePresence>
+        {(showPinyinHint || isRevealed) && (
+          <motion.p
+            className="mt-4 font-body text-lg italic"
+            style={{ color: 'var(--text-secondary)' }}
+            initial={{ opacity: 0, y: 6 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0 }}
+          >
+            {formatPhonetic(word.pinyin, word.chinese, phoneticSystem)}
+          </motion.p>
+        )}
+        {(showEnglishHint || isRevealed) && englishText && (
+          <motion.p
+            className="mt-3 font-body text-sm leading-relaxed"
+            style={{ color: 'var(--text-tertiary)' }}
+            initial={{ opacity: 0, y: 6 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0 }}
+          >
+            {englishText}
+          </motion.p>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+});
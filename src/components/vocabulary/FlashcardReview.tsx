@@ -1,40 +1,292 @@
-import { memo, useState, useCallback, useEffect, useRef } from 'react';
+import { memo, useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useVocabularyStore } from '../../stores';
+import { useVocabularyStore, useSettingsStore } from '../../stores';
 import { getBookById } from '../../data/bible';
 import { ttsService, type VoiceGender } from '../../services';
-import type { SavedWord, ReviewResult } from '../../types';
+import type { ReviewCard, ReviewResult, CardType } from '../../types';
 import { useConvertedChinese } from '../../hooks';
+import { REVIEW_RESULTS, previewIntervals, formatInterval, getCardSRSData } from '../../utils/srs';
+import { getWordContexts, pickExampleVerse, isSameVerse } from '../../utils/wordContexts';
+import { formatPhonetic } from '../../utils/pinyin';
+import { ClozeCard } from './ClozeCard';
+import { ToneCard } from './ToneCard';
+
+const REVIEW_LABELS: Record<ReviewResult, string> = {
+  again: 'Again',
+  hard: 'Hard',
+  good: 'Good',
+  easy: 'Easy',
+};
+
+interface PronunciationButtonProps {
+  isAudioAvailable: boolean;
+  isPlaying: boolean;
+  onPlay: () => void;
+  className?: string;
+}
+
+const PronunciationButton = memo(function PronunciationButton({
+  isAudioAvailable,
+  isPlaying,
+  onPlay,
+  className = 'mt-4',
+}: PronunciationButtonProps) {
+  const [showComingSoonTooltip, setShowComingSoonTooltip] = useState(false);
+  const [clickedDisabled, setClickedDisabled] = useState(false);
+
+  return (
+    <motion.div
+      className={`relative flex justify-center ${className}`}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ delay: 0.2 }}
+    >
+      <motion.button
+        onClick={(e) => {
+          e.stopPropagation(); // Prevent card reveal when clicking audio
+          if (!isAudioAvailable) {
+            setClickedDisabled(true);
+            setShowComingSoonTooltip(true);
+            setTimeout(() => {
+              setClickedDisabled(false);
+              setShowComingSoonTooltip(false);
+            }, 2800);
+          } else {
+            onPlay();
+          }
+        }}
+        onMouseEnter={() => !isAudioAvailable && setShowComingSoonTooltip(true)}
+        onMouseLeave={() => !isAudioAvailable && setShowComingSoonTooltip(false)}
+        className="rounded-full p-3 cursor-pointer relative overflow-hidden"
+        style={{
+          backgroundColor: isAudioAvailable
+            ? (isPlaying ? 'var(--accent)' : 'var(--accent-subtle)')
+            : 'rgba(150, 140, 130, 0.08)',
+          color: isAudioAvailable
+            ? (isPlaying ? 'white' : 'var(--accent)')
+            : 'rgba(130, 120, 110, 0.35)',
+          transition: 'all 0.4s cubic-bezier(0.4, 0, 0.2, 1)',
+          border: !isAudioAvailable ? '1px solid rgba(150, 140, 130, 0.12)' : 'none',
+          boxShadow: !isAudioAvailable ? '0 0 12px rgba(150, 140, 130, 0.03)' : 'none',
+        }}
+        whileTap={isAudioAvailable ? { scale: 0.9 } : { scale: 0.98 }}
+        whileHover={isAudioAvailable ? { scale: 1.05 } : {}}
+        aria-label={isAudioAvailable ? "Play pronunciation" : "Audio coming soon"}
+        disabled={!isAudioAvailable && isPlaying}
+        animate={!isAudioAvailable ? {
+          opacity: [0.6, 0.8, 0.6],
+        } : {}}
+        transition={!isAudioAvailable ? {
+          duration: 3,
+          repeat: Infinity,
+          ease: "easeInOut"
+        } : {}}
+      >
+        {/* Subtle shimmer effect for disabled state */}
+        {!isAudioAvailable && (
+          <motion.div
+            className="absolute inset-0 rounded-full"
+            style={{
+              background: 'linear-gradient(135deg, transparent 30%, rgba(255, 255, 255, 0.15) 50%, transparent 70%)',
+              backgroundSize: '200% 200%',
+            }}
+            animate={{
+              backgroundPosition: ['0% 0%', '200% 200%'],
+            }}
+            transition={{
+              duration: 4,
+              repeat: Infinity,
+              ease: "linear"
+            }}
+          />
+        )}
+
+        {/* Elegant ripple effect on click */}
+        <AnimatePresence>
+          {clickedDisabled && !isAudioAvailable && (
+            <>
+              <motion.div
+                className="absolute inset-0 rounded-full pointer-events-none"
+                style={{
+                  border: '2px solid rgba(139, 90, 43, 0.25)',
+                  boxShadow: '0 0 12px rgba(139, 90, 43, 0.15)',
+                }}
+                initial={{ scale: 0.8, opacity: 0 }}
+                animate={{ scale: 2.2, opacity: 0 }}
+                exit={{ opacity: 0 }}
+                transition={{
+                  duration: 1.2,
+                  ease: [0.16, 1, 0.3, 1]
+                }}
+              />
+              <motion.div
+                className="absolute inset-0 rounded-full pointer-events-none"
+                style={{
+                  backgroundColor: 'rgba(139, 90, 43, 0.12)',
+                }}
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: [0, 0.5, 0], scale: 1 }}
+                transition={{
+                  duration: 0.8,
+                  ease: "easeOut"
+                }}
+              />
+            </>
+          )}
+        </AnimatePresence>
+
+        {/* Speaker icon */}
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={2.5}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          className="h-5 w-5 relative z-10"
+          style={{
+            filter: !isAudioAvailable ? 'drop-shadow(0 0 2px rgba(150, 140, 130, 0.1))' : 'none'
+          }}
+        >
+          {isPlaying ? (
+            <>
+              <polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5" />
+              <path d="M15.54 8.46a5 5 0 0 1 0 7.07" />
+              <path d="M19.07 4.93a10 10 0 0 1 0 14.14" />
+            </>
+          ) : (
+            <>
+              <polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5" />
+              <path
+                d="M15.54 8.46a5 5 0 0 1 0 7.07"
+                opacity={isAudioAvailable ? "0.5" : "0.25"}
+              />
+            </>
+          )}
+        </svg>
+      </motion.button>
+
+      {/* Coming Soon Tooltip */}
+      <AnimatePresence>
+        {showComingSoonTooltip && !isAudioAvailable && (
+          <motion.div
+            initial={{ opacity: 0, y: 5, scale: 0.9 }}
+            animate={{
+              opacity: 1,
+              y: 0,
+              scale: clickedDisabled ? [1, 1.05, 1] : 1
+            }}
+            exit={{ opacity: 0, y: 5, scale: 0.9 }}
+            transition={{
+              type: "spring",
+              damping: 20,
+              stiffness: 300,
+              opacity: { duration: 0.2 },
+              scale: clickedDisabled ? {
+                duration: 0.6,
+                ease: [0.16, 1, 0.3, 1],
+                times: [0, 0.4, 1]
+              } : {}
+            }}
+            className="absolute -bottom-12 left-1/2 -translate-x-1/2 whitespace-nowrap pointer-events-none z-50"
+          >
+            <motion.div
+              className="px-3 py-1.5 rounded-lg shadow-lg relative"
+              style={{
+                backgroundColor: clickedDisabled
+                  ? 'rgba(139, 90, 43, 0.96)'
+                  : 'rgba(80, 70, 60, 0.96)',
+                backdropFilter: 'blur(8px)',
+                border: clickedDisabled
+                  ? '1px solid rgba(212, 184, 150, 0.3)'
+                  : '1px solid rgba(150, 140, 130, 0.2)',
+                boxShadow: clickedDisabled
+                  ? '0 6px 20px rgba(139, 90, 43, 0.25), 0 0 0 1px rgba(255, 255, 255, 0.08) inset, 0 0 20px rgba(139, 90, 43, 0.15)'
+                  : '0 4px 16px rgba(0, 0, 0, 0.15), 0 0 0 1px rgba(255, 255, 255, 0.05) inset',
+                transition: 'all 0.4s cubic-bezier(0.16, 1, 0.3, 1)',
+              }}
+            >
+              <div
+                className="absolute -top-1 left-1/2 -translate-x-1/2 w-2 h-2 rotate-45"
+                style={{
+                  backgroundColor: clickedDisabled
+                    ? 'rgba(139, 90, 43, 0.96)'
+                    : 'rgba(80, 70, 60, 0.96)',
+                  borderTop: clickedDisabled
+                    ? '1px solid rgba(212, 184, 150, 0.3)'
+                    : '1px solid rgba(150, 140, 130, 0.2)',
+                  borderLeft: clickedDisabled
+                    ? '1px solid rgba(212, 184, 150, 0.3)'
+                    : '1px solid rgba(150, 140, 130, 0.2)',
+                  transition: 'all 0.4s cubic-bezier(0.16, 1, 0.3, 1)',
+                }}
+              />
+              <p
+                className="relative font-medium tracking-wide"
+                style={{
+                  color: clickedDisabled
+                    ? 'rgba(255, 250, 240, 0.98)'
+                    : 'rgba(245, 240, 235, 0.95)',
+                  fontFamily: clickedDisabled
+                    ? "'Cormorant Garamond', Georgia, serif"
+                    : "ui-sans-serif, system-ui, -apple-system, sans-serif",
+                  fontSize: clickedDisabled ? '11px' : '10px',
+                  letterSpacing: clickedDisabled ? '0.04em' : '0.03em',
+                  fontStyle: clickedDisabled ? 'italic' : 'normal',
+                  textShadow: clickedDisabled
+                    ? '0 1px 3px rgba(0, 0, 0, 0.3), 0 0 8px rgba(255, 215, 180, 0.3)'
+                    : '0 1px 2px rgba(0, 0, 0, 0.2)',
+                  transition: 'all 0.4s cubic-bezier(0.16, 1, 0.3, 1)',
+                }}
+              >
+                {clickedDisabled ? 'Audio arrives soon...' : 'Audio Coming Soon'}
+              </p>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+});
 
 interface FlashcardReviewProps {
-  words: SavedWord[];
+  cards: ReviewCard[];
   onClose: () => void;
   onComplete: () => void;
   onNavigateToVerse?: (bookId: string, chapter: number, verse: number) => void;
 }
 
 export const FlashcardReview = memo(function FlashcardReview({
-  words,
+  cards,
   onClose,
   onComplete,
   onNavigateToVerse,
 }: FlashcardReviewProps) {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isRevealed, setIsRevealed] = useState(false);
+  // A wrong tone guess suggests "again" instead of "good"
+  const [toneMistake, setToneMistake] = useState(false);
   const [direction, setDirection] = useState<'left' | 'right' | null>(null);
 
   const { reviewWord } = useVocabularyStore();
+  const clozeSeparateSchedule = useSettingsStore((state) => state.clozeSeparateSchedule);
+  const phoneticSystem = useSettingsStore((state) => state.phoneticSystem);
+
+  // Words whose source verse couldn't be turned into a cloze; they fall back to recognition
+  const [unavailableClozeIds, setUnavailableClozeIds] = useState<string[]>([]);
 
   // Audio playback state
   const [isPlaying, setIsPlaying] = useState(false);
   const [isAudioAvailable] = useState(() => ttsService.isAvailable());
-  const [showComingSoonTooltip, setShowComingSoonTooltip] = useState(false);
-  const [clickedDisabled, setClickedDisabled] = useState(false);
 
   // Voice toggle state - alternates between male and female on each tap
   const [currentVoice, setCurrentVoice] = useState<VoiceGender>('male');
   const previousWordRef = useRef<string>('');
 
+  // When the current card was shown, for the review log's response time
+  const cardShownAtRef = useRef(0);
+
   // Prevent body scroll when flashcard review is active
   useEffect(() => {
     const scrollY = window.scrollY;
@@ -50,8 +302,22 @@ export const FlashcardReview = memo(function FlashcardReview({
     };
   }, []);
 
-  const currentWord = words[currentIndex];
+  const currentCard = cards[currentIndex];
+  const currentWord = currentCard?.word;
+  const cardType = currentCard?.cardType ?? 'recognition';
+  const isCloze =
+    cardType === 'cloze' &&
+    !!currentWord &&
+    getWordContexts(currentWord).length > 0 &&
+    !unavailableClozeIds.includes(currentWord.id);
+  // Which face to show; cloze cards without a usable verse fall back to recognition
+  const face: CardType = cardType === 'cloze' && !isCloze ? 'recognition' : cardType;
+  // Cloze reviews share the word's main schedule unless the learner opted out
+  const scheduledCardType: CardType =
+    cardType === 'cloze' ? (isCloze && clozeSeparateSchedule ? 'cloze' : 'recognition') : cardType;
   const convertedChinese = useConvertedChinese(currentWord?.chinese ?? '');
+  const suggestedResult: ReviewResult = face === 'tone' && toneMistake ? 'again' : 'good';
+  const reading = currentWord ? formatPhonetic(currentWord.pinyin, currentWord.chinese, phoneticSystem) : '';
 
   // Reset voice to male when word changes
   useEffect(() => {
@@ -61,14 +327,40 @@ export const FlashcardReview = memo(function FlashcardReview({
     }
   }, [currentWord]);
 
+  useEffect(() => {
+    cardShownAtRef.current = Date.now();
+  }, [currentIndex]);
+
+  // Listening cards play the word as soon as they are shown
+  useEffect(() => {
+    if (face !== 'listening' || !currentWord || !isAudioAvailable) return;
+
+    ttsService
+      .speak({
+        text: currentWord.chinese,
+        lang: 'zh-TW',
+        voice: 'male',
+        onStart: () => setIsPlaying(true),
+        onEnd: () => setIsPlaying(false),
+        onError: () => setIsPlaying(false),
+      })
+      .catch((error) => {
+        console.error('Audio playback failed:', error);
+      });
+
+    return () => {
+      ttsService.stop();
+    };
+  }, [face, currentWord, isAudioAvailable]);
+
   // Cleanup: stop audio when component unmounts
   useEffect(() => {
     return () => {
       ttsService.stop();
     };
   }, []);
-  const progress = ((currentIndex + 1) / words.length) * 100;
-  const remaining = words.length - currentIndex;
+  const progress = ((currentIndex + 1) / cards.length) * 100;
+  const remaining = cards.length - currentIndex;
 
   const handleReveal = () => {
     setIsRevealed(true);
@@ -106,26 +398,55 @@ export const FlashcardReview = memo(function FlashcardReview({
     (result: ReviewResult) => {
       if (!currentWord) return;
 
-      setDirection(result === 'good' ? 'right' : 'left');
+      setDirection(result === 'again' ? 'left' : 'right');
 
       // Review the word
-      reviewWord(currentWord.id, result);
+      reviewWord(currentWord.id, result, Date.now() - cardShownAtRef.current, scheduledCardType);
 
       // Move to next card after animation
       setTimeout(() => {
-        if (currentIndex < words.length - 1) {
+        if (currentIndex < cards.length - 1) {
           setCurrentIndex(currentIndex + 1);
           setIsRevealed(false);
+          setToneMistake(false);
           setDirection(null);
         } else {
           onComplete();
         }
       }, 200);
     },
-    [currentWord, currentIndex, words.length, reviewWord, onComplete]
+    [currentWord, currentIndex, cards.length, reviewWord, scheduledCardType, onComplete]
+  );
+
+  const handleClozeAvailability = useCallback(
+    (available: boolean) => {
+      if (!available && currentWord) {
+        setUnavailableClozeIds((prev) =>
+          prev.includes(currentWord.id) ? prev : [...prev, currentWord.id]
+        );
+      }
+    },
+    [currentWord]
   );
 
-  const book = currentWord ? getBookById(currentWord.sourceVerse.bookId) : null;
+  // Rotate through the word's verses so repeated reviews show different examples
+  const exampleVerse = useMemo(
+    () =>
+      currentWord
+        ? pickExampleVerse(currentWord, getCardSRSData(currentWord, scheduledCardType).reps)
+        : null,
+    [currentWord, scheduledCardType]
+  );
+  const otherContexts =
+    currentWord && exampleVerse
+      ? getWordContexts(currentWord).filter((ref) => !isSameVerse(ref, exampleVerse))
+      : [];
+  const book = exampleVerse ? getBookById(exampleVerse.bookId) : null;
+
+  const intervalPreviews = useMemo(
+    () => (currentWord ? previewIntervals(getCardSRSData(currentWord, scheduledCardType)) : null),
+    [currentWord, scheduledCardType]
+  );
 
   if (!currentWord) {
     return (
@@ -255,7 +576,7 @@ export const FlashcardReview = memo(function FlashcardReview({
       <div className="flex flex-1 flex-col items-center justify-center p-6">
         <AnimatePresence mode="wait">
           <motion.div
-            key={currentWord.id}
+            key={`${currentWord.id}-${cardType}`}
             className="w-full max-w-sm"
             initial={{
               opacity: 0,
@@ -281,234 +602,83 @@ export const FlashcardReview = memo(function FlashcardReview({
               onClick={!isRevealed ? handleReveal : undefined}
               whileTap={!isRevealed ? { scale: 0.98 } : {}}
             >
-              {/* Chinese word */}
+              {/* Prompt: depends on the card direction */}
               <div className="text-center">
-                <motion.h2
-                  className="font-chinese-serif text-6xl"
-                  style={{
-                    color: 'var(--text-primary)',
-                    letterSpacing: '0.05em',
-                  }}
-                  initial={{ opacity: 0, y: 10 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: 0.1 }}
-                >
-                  {convertedChinese}
-                </motion.h2>
-
-                {/* Audio playback button */}
-                <motion.div
-                  className="relative flex justify-center mt-4"
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                  transition={{ delay: 0.2 }}
-                >
-                  <motion.button
-                    onClick={(e) => {
-                      e.stopPropagation(); // Prevent card reveal when clicking audio
-                      if (!isAudioAvailable) {
-                        setClickedDisabled(true);
-                        setShowComingSoonTooltip(true);
-                        setTimeout(() => {
-                          setClickedDisabled(false);
-                          setShowComingSoonTooltip(false);
-                        }, 2800);
-                      } else {
-                        handlePlayAudio();
-                      }
-                    }}
-                    onMouseEnter={() => !isAudioAvailable && setShowComingSoonTooltip(true)}
-                    onMouseLeave={() => !isAudioAvailable && setShowComingSoonTooltip(false)}
-                    className="rounded-full p-3 cursor-pointer relative overflow-hidden"
-                    style={{
-                      backgroundColor: isAudioAvailable
-                        ? (isPlaying ? 'var(--accent)' : 'var(--accent-subtle)')
-                        : 'rgba(150, 140, 130, 0.08)',
-                      color: isAudioAvailable
-                        ? (isPlaying ? 'white' : 'var(--accent)')
-                        : 'rgba(130, 120, 110, 0.35)',
-                      transition: 'all 0.4s cubic-bezier(0.4, 0, 0.2, 1)',
-                      border: !isAudioAvailable ? '1px solid rgba(150, 140, 130, 0.12)' : 'none',
-                      boxShadow: !isAudioAvailable ? '0 0 12px rgba(150, 140, 130, 0.03)' : 'none',
-                    }}
-                    whileTap={isAudioAvailable ? { scale: 0.9 } : { scale: 0.98 }}
-                    whileHover={isAudioAvailable ? { scale: 1.05 } : {}}
-                    aria-label={isAudioAvailable ? "Play pronunciation" : "Audio coming soon"}
-                    disabled={!isAudioAvailable && isPlaying}
-                    animate={!isAudioAvailable ? {
-                      opacity: [0.6, 0.8, 0.6],
-                    } : {}}
-                    transition={!isAudioAvailable ? {
-                      duration: 3,
-                      repeat: Infinity,
-                      ease: "easeInOut"
-                    } : {}}
+                {face === 'cloze' && exampleVerse ? (
+                  <ClozeCard
+                    key={currentWord.id}
+                    word={currentWord}
+                    verseRef={exampleVerse}
+                    isRevealed={isRevealed}
+                    onAvailabilityChange={handleClozeAvailability}
+                  />
+                ) : face === 'tone' ? (
+                  <ToneCard
+                    key={currentWord.id}
+                    word={currentWord}
+                    isRevealed={isRevealed}
+                    onCheck={setToneMistake}
+                  />
+                ) : face === 'recall' ? (
+                  <motion.div
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.1 }}
                   >
-                    {/* Subtle shimmer effect for disabled state */}
-                    {!isAudioAvailable && (
-                      <motion.div
-                        className="absolute inset-0 rounded-full"
-                        style={{
-                          background: 'linear-gradient(135deg, transparent 30%, rgba(255, 255, 255, 0.15) 50%, transparent 70%)',
-                          backgroundSize: '200% 200%',
-                        }}
-                        animate={{
-                          backgroundPosition: ['0% 0%', '200% 200%'],
-                        }}
-                        transition={{
-                          duration: 4,
-                          repeat: Infinity,
-                          ease: "linear"
-                        }}
-                      />
-                    )}
-
-                    {/* Elegant ripple effect on click */}
-                    <AnimatePresence>
-                      {clickedDisabled && !isAudioAvailable && (
-                        <>
-                          <motion.div
-                            className="absolute inset-0 rounded-full pointer-events-none"
-                            style={{
-                              border: '2px solid rgba(139, 90, 43, 0.25)',
-                              boxShadow: '0 0 12px rgba(139, 90, 43, 0.15)',
-                            }}
-                            initial={{ scale: 0.8, opacity: 0 }}
-                            animate={{ scale: 2.2, opacity: 0 }}
-                            exit={{ opacity: 0 }}
-                            transition={{
-                              duration: 1.2,
-                              ease: [0.16, 1, 0.3, 1]
-                            }}
-                          />
-                          <motion.div
-                            className="absolute inset-0 rounded-full pointer-events-none"
-                            style={{
-                              backgroundColor: 'rgba(139, 90, 43, 0.12)',
-                            }}
-                            initial={{ opacity: 0, scale: 0.95 }}
-                            animate={{ opacity: [0, 0.5, 0], scale: 1 }}
-                            transition={{
-                              duration: 0.8,
-                              ease: "easeOut"
-                            }}
-                          />
-                        </>
-                      )}
-                    </AnimatePresence>
-
-                    {/* Speaker icon */}
-                    <svg
-                      xmlns="http://www.w3.org/2000/svg"
-                      viewBox="0 0 24 24"
-                      fill="none"
-                      stroke="currentColor"
-                      strokeWidth={2.5}
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      className="h-5 w-5 relative z-10"
-                      style={{
-                        filter: !isAudioAvailable ? 'drop-shadow(0 0 2px rgba(150, 140, 130, 0.1))' : 'none'
-                      }}
+                    <p
+                      className="font-body text-2xl leading-relaxed"
+                      style={{ color: 'var(--text-primary)' }}
                     >
-                      {isPlaying ? (
-                        <>
-                          <polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5" />
-                          <path d="M15.54 8.46a5 5 0 0 1 0 7.07" />
-                          <path d="M19.07 4.93a10 10 0 0 1 0 14.14" />
-                        </>
-                      ) : (
-                        <>
-                          <polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5" />
-                          <path
-                            d="M15.54 8.46a5 5 0 0 1 0 7.07"
-                            opacity={isAudioAvailable ? "0.5" : "0.25"}
-                          />
-                        </>
-                      )}
-                    </svg>
-                  </motion.button>
-
-                  {/* Coming Soon Tooltip */}
-                  <AnimatePresence>
-                    {showComingSoonTooltip && !isAudioAvailable && (
-                      <motion.div
-                        initial={{ opacity: 0, y: 5, scale: 0.9 }}
-                        animate={{
-                          opacity: 1,
-                          y: 0,
-                          scale: clickedDisabled ? [1, 1.05, 1] : 1
-                        }}
-                        exit={{ opacity: 0, y: 5, scale: 0.9 }}
-                        transition={{
-                          type: "spring",
-                          damping: 20,
-                          stiffness: 300,
-                          opacity: { duration: 0.2 },
-                          scale: clickedDisabled ? {
-                            duration: 0.6,
-                            ease: [0.16, 1, 0.3, 1],
-                            times: [0, 0.4, 1]
-                          } : {}
-                        }}
-                        className="absolute -bottom-12 left-1/2 -translate-x-1/2 whitespace-nowrap pointer-events-none z-50"
+                      {currentWord.definition}
+                    </p>
+                    {currentWord.partOfSpeech && (
+                      <p
+                        className="mt-3 font-body text-sm italic"
+                        style={{ color: 'var(--text-tertiary)' }}
                       >
-                        <motion.div
-                          className="px-3 py-1.5 rounded-lg shadow-lg relative"
-                          style={{
-                            backgroundColor: clickedDisabled
-                              ? 'rgba(139, 90, 43, 0.96)'
-                              : 'rgba(80, 70, 60, 0.96)',
-                            backdropFilter: 'blur(8px)',
-                            border: clickedDisabled
-                              ? '1px solid rgba(212, 184, 150, 0.3)'
-                              : '1px solid rgba(150, 140, 130, 0.2)',
-                            boxShadow: clickedDisabled
-                              ? '0 6px 20px rgba(139, 90, 43, 0.25), 0 0 0 1px rgba(255, 255, 255, 0.08) inset, 0 0 20px rgba(139, 90, 43, 0.15)'
-                              : '0 4px 16px rgba(0, 0, 0, 0.15), 0 0 0 1px rgba(255, 255, 255, 0.05) inset',
-                            transition: 'all 0.4s cubic-bezier(0.16, 1, 0.3, 1)',
-                          }}
-                        >
-                          <div
-                            className="absolute -top-1 left-1/2 -translate-x-1/2 w-2 h-2 rotate-45"
-                            style={{
-                              backgroundColor: clickedDisabled
-                                ? 'rgba(139, 90, 43, 0.96)'
-                                : 'rgba(80, 70, 60, 0.96)',
-                              borderTop: clickedDisabled
-                                ? '1px solid rgba(212, 184, 150, 0.3)'
-                                : '1px solid rgba(150, 140, 130, 0.2)',
-                              borderLeft: clickedDisabled
-                                ? '1px solid rgba(212, 184, 150, 0.3)'
-                                : '1px solid rgba(150, 140, 130, 0.2)',
-                              transition: 'all 0.4s cubic-bezier(0.16, 1, 0.3, 1)',
-                            }}
-                          />
-                          <p
-                            className="relative font-medium tracking-wide"
-                            style={{
-                              color: clickedDisabled
-                                ? 'rgba(255, 250, 240, 0.98)'
-                                : 'rgba(245, 240, 235, 0.95)',
-                              fontFamily: clickedDisabled
-                                ? "'Cormorant Garamond', Georgia, serif"
-                                : "ui-sans-serif, system-ui, -apple-system, sans-serif",
-                              fontSize: clickedDisabled ? '11px' : '10px',
-                              letterSpacing: clickedDisabled ? '0.04em' : '0.03em',
-                              fontStyle: clickedDisabled ? 'italic' : 'normal',
-                              textShadow: clickedDisabled
-                                ? '0 1px 3px rgba(0, 0, 0, 0.3), 0 0 8px rgba(255, 215, 180, 0.3)'
-                                : '0 1px 2px rgba(0, 0, 0, 0.2)',
-                              transition: 'all 0.4s cubic-bezier(0.16, 1, 0.3, 1)',
-                            }}
-                          >
-                            {clickedDisabled ? 'Audio arrives soon...' : 'Audio Coming Soon'}
-                          </p>
-                        </motion.div>
-                      </motion.div>
+                        {currentWord.partOfSpeech}
+                      </p>
                     )}
-                  </AnimatePresence>
-                </motion.div>
+                  </motion.div>
+                ) : face === 'listening' ? (
+                  isAudioAvailable ? (
+                    <PronunciationButton
+                      isAudioAvailable={isAudioAvailable}
+                      isPlaying={isPlaying}
+                      onPlay={handlePlayAudio}
+                    />
+                  ) : (
+                    // Without audio, the pinyin is the closest thing to hearing the word
+                    <p
+                      className="font-body text-3xl italic"
+                      style={{ color: 'var(--text-secondary)' }}
+                    >
+                      {reading}
+                    </p>
+                  )
+                ) : (
+                <>
+                  <motion.h2
+                    className="font-chinese-serif text-6xl"
+                    style={{
+                      color: 'var(--text-primary)',
+                      letterSpacing: '0.05em',
+                    }}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.1 }}
+                  >
+                    {convertedChinese}
+                  </motion.h2>
+
+                  {/* Audio playback button */}
+                  <PronunciationButton
+                    isAudioAvailable={isAudioAvailable}
+                    isPlaying={isPlaying}
+                    onPlay={handlePlayAudio}
+                  />
+                </>
+                )}
 
                 {/* Revealed content */}
                 <AnimatePresence>
@@ -519,79 +689,126 @@ export const FlashcardReview = memo(function FlashcardReview({
                       exit={{ opacity: 0 }}
                       transition={{ duration: 0.25 }}
                     >
-                      <p
-                        className="mt-6 font-body text-[22px] italic"
-                        style={{ color: 'var(--text-secondary)' }}
-                      >
-                        {currentWord.pinyin}
-                      </p>
-
-                      {/* Decorative divider */}
-                      <motion.div
-                        className="mx-auto my-8 h-px w-20"
-                        style={{
-                          background:
-                            'linear-gradient(90deg, transparent, var(--accent-light), transparent)',
-                        }}
-                        initial={{ scaleX: 0, opacity: 0 }}
-                        animate={{ scaleX: 1, opacity: 1 }}
-                        transition={{ delay: 0.1, duration: 0.3 }}
-                      />
-
-                      <p
-                        className="font-body text-xl leading-relaxed"
-                        style={{ color: 'var(--text-primary)', lineHeight: '1.75' }}
-                      >
-                        {currentWord.definition}
-                      </p>
+                      {/* Recall and listening cards reveal the word itself */}
+                      {(face === 'recall' || face === 'listening') && (
+                        <h2
+                          className="mt-6 font-chinese-serif text-5xl"
+                          style={{ color: 'var(--text-primary)', letterSpacing: '0.05em' }}
+                        >
+                          {convertedChinese}
+                        </h2>
+                      )}
 
-                      {currentWord.partOfSpeech && (
+                      {face !== 'cloze' && face !== 'tone' && (
                         <p
-                          className="mt-3 font-body text-sm italic"
-                          style={{ color: 'var(--text-tertiary)' }}
+                          className="mt-6 font-body text-[22px] italic"
+                          style={{ color: 'var(--text-secondary)' }}
                         >
-                          {currentWord.partOfSpeech}
+                          {reading}
                         </p>
                       )}
 
-                      {/* Source verse */}
-                      <motion.div
-                        className="mt-6 rounded-xl px-4 py-3"
-                        style={{ backgroundColor: 'var(--bg-secondary)' }}
-                        initial={{ opacity: 0 }}
-                        animate={{ opacity: 1 }}
-                        transition={{ delay: 0.2 }}
-                      >
-                        <button
-                          onClick={() => onNavigateToVerse?.(
-                            currentWord.sourceVerse.bookId,
-                            currentWord.sourceVerse.chapter,
-                            currentWord.sourceVerse.verse
+                      {face === 'recall' && (
+                        <PronunciationButton
+                          isAudioAvailable={isAudioAvailable}
+                          isPlaying={isPlaying}
+                          onPlay={handlePlayAudio}
+                        />
+                      )}
+
+                      {face !== 'recall' && (
+                        <>
+                          {/* Decorative divider */}
+                          <motion.div
+                            className="mx-auto my-8 h-px w-20"
+                            style={{
+                              background:
+                                'linear-gradient(90deg, transparent, var(--accent-light), transparent)',
+                            }}
+                            initial={{ scaleX: 0, opacity: 0 }}
+                            animate={{ scaleX: 1, opacity: 1 }}
+                            transition={{ delay: 0.1, duration: 0.3 }}
+                          />
+
+                          <p
+                            className="font-body text-xl leading-relaxed"
+                            style={{ color: 'var(--text-primary)', lineHeight: '1.75' }}
+                          >
+                            {currentWord.definition}
+                          </p>
+
+                          {currentWord.partOfSpeech && (
+                            <p
+                              className="mt-3 font-body text-sm italic"
+                              style={{ color: 'var(--text-tertiary)' }}
+                            >
+                              {currentWord.partOfSpeech}
+                            </p>
                           )}
-                          className="font-body text-xs tracking-wide flex items-center gap-1.5 hover:opacity-80 transition-opacity"
-                          style={{ color: 'var(--accent)' }}
+                        </>
+                      )}
+
+                      {/* Example verse, plus the other verses the word was seen in */}
+                      {exampleVerse && (
+                        <motion.div
+                          className="mt-6 rounded-xl px-4 py-3"
+                          style={{ backgroundColor: 'var(--bg-secondary)' }}
+                          initial={{ opacity: 0 }}
+                          animate={{ opacity: 1 }}
+                          transition={{ delay: 0.2 }}
                         >
-                          <svg
-                            xmlns="http://www.w3.org/2000/svg"
-                            viewBox="0 0 16 16"
-                            fill="currentColor"
-                            className="w-3 h-3 opacity-60"
+                          <button
+                            onClick={() => onNavigateToVerse?.(
+                              exampleVerse.bookId,
+                              exampleVerse.chapter,
+                              exampleVerse.verse
+                            )}
+                            className="font-body text-xs tracking-wide flex items-center gap-1.5 hover:opacity-80 transition-opacity"
+                            style={{ color: 'var(--accent)' }}
                           >
-                            <path
-                              fillRule="evenodd"
-                              d="M8.914 6.025a.75.75 0 0 1 1.06 0 3.5 3.5 0 0 1 0 4.95l-2 2a3.5 3.5 0 0 1-5.396-4.402.75.75 0 0 1 1.251.827 2 2 0 0 0 3.085 2.514l2-2a2 2 0 0 0 0-2.828.75.75 0 0 1 0-1.06Z"
-                              clipRule="evenodd"
-                            />
-                            <path
-                              fillRule="evenodd"
-                              d="M7.086 9.975a.75.75 0 0 1-1.06 0 3.5 3.5 0 0 1 0-4.95l2-2a3.5 3.5 0 0 1 5.396 4.402.75.75 0 0 1-1.251-.827 2 2 0 0 0-3.085-2.514l-2 2a2 2 0 0 0 0 2.828.75.75 0 0 1 0 1.06Z"
-                              clipRule="evenodd"
-                            />
-                          </svg>
-                          {book?.name.english} {currentWord.sourceVerse.chapter}:
-                          {currentWord.sourceVerse.verse}
-                        </button>
-                      </motion.div>
+                            <svg
+                              xmlns="http://www.w3.org/2000/svg"
+                              viewBox="0 0 16 16"
+                              fill="currentColor"
+                              className="w-3 h-3 opacity-60"
+                            >
+                              <path
+                                fillRule="evenodd"
+                                d="M8.914 6.025a.75.75 0 0 1 1.06 0 3.5 3.5 0 0 1 0 4.95l-2 2a3.5 3.5 0 0 1-5.396-4.402.75.75 0 0 1 1.251.827 2 2 0 0 0 3.085 2.514l2-2a2 2 0 0 0 0-2.828.75.75 0 0 1 0-1.06Z"
+                                clipRule="evenodd"
+                              />
+                              <path
+                                fillRule="evenodd"
+                                d="M7.086 9.975a.75.75 0 0 1-1.06 0 3.5 3.5 0 0 1 0-4.95l2-2a3.5 3.5 0 0 1 5.396 4.402.75.75 0 0 1-1.251-.827 2 2 0 0 0-3.085-2.514l-2 2a2 2 0 0 0 0 2.828.75.75 0 0 1 0 1.06Z"
+                                clipRule="evenodd"
+                              />
+                            </svg>
+                            {book?.name.english} {exampleVerse.chapter}:
+                            {exampleVerse.verse}
+                          </button>
+
+                          {otherContexts.length > 0 && (
+                            <div className="mt-2 flex flex-wrap items-center gap-x-2 gap-y-1">
+                              <span
+                                className="font-body text-[10px] italic"
+                                style={{ color: 'var(--text-tertiary)' }}
+                              >
+                                Also seen in
+                              </span>
+                              {otherContexts.map((ref) => (
+                                <button
+                                  key={`${ref.bookId}-${ref.chapter}-${ref.verse}`}
+                                  onClick={() => onNavigateToVerse?.(ref.bookId, ref.chapter, ref.verse)}
+                                  className="font-body text-[10px] tracking-wide hover:opacity-80 transition-opacity"
+                                  style={{ color: 'var(--accent)' }}
+                                >
+                                  {getBookById(ref.bookId)?.name.english} {ref.chapter}:{ref.verse}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </motion.div>
+                      )}
                     </motion.div>
                   )}
                 </AnimatePresence>
@@ -618,66 +835,37 @@ export const FlashcardReview = memo(function FlashcardReview({
         className="safe-area-bottom"
         style={{ borderTop: '1px solid var(--border-subtle)' }}
       >
-        <div className="flex gap-4 p-4">
+        <div className={`flex p-4 ${isRevealed ? 'gap-2' : 'gap-4'}`}>
           {isRevealed ? (
             <>
-              <motion.button
-                className="touch-feedback flex flex-1 flex-col items-center gap-2 rounded-2xl py-5"
-                style={{
-                  backgroundColor: 'var(--bg-secondary)',
-                  color: 'var(--text-primary)',
-                }}
-                onClick={() => handleReview('again')}
-                whileTap={{ scale: 0.95 }}
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: 0.1 }}
-              >
-                <svg
-                  xmlns="http://www.w3.org/2000/svg"
-                  viewBox="0 0 24 24"
-                  fill="none"
-                  stroke="#EF4444"
-                  strokeWidth={1.5}
-                  className="h-6 w-6"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0l3.181 3.183a8.25 8.25 0 0013.803-3.7M4.031 9.865a8.25 8.25 0 0113.803-3.7l3.181 3.182m0-4.991v4.99"
-                  />
-                </svg>
-                <span className="font-body text-sm tracking-wide">Still Learning</span>
-              </motion.button>
-
-              <motion.button
-                className="touch-feedback flex flex-1 flex-col items-center gap-2 rounded-2xl py-5"
-                style={{
-                  backgroundColor: 'var(--accent)',
-                  color: 'white',
-                }}
-                onClick={() => handleReview('good')}
-                whileTap={{ scale: 0.95 }}
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: 0.15 }}
-              >
-                <svg
-                  xmlns="http://www.w3.org/2000/svg"
-                  viewBox="0 0 24 24"
-                  fill="none"
-                  stroke="currentColor"
-                  strokeWidth={1.5}
-                  className="h-6 w-6"
+              {REVIEW_RESULTS.map((result, index) => (
+                <motion.button
+                  key={result}
+                  className="touch-feedback flex flex-1 flex-col items-center gap-1 rounded-2xl py-4"
+                  style={{
+                    backgroundColor: result === suggestedResult ? 'var(--accent)' : 'var(--bg-secondary)',
+                    color: result === suggestedResult ? 'white' : 'var(--text-primary)',
+                  }}
+                  onClick={() => handleReview(result)}
+                  whileTap={{ scale: 0.95 }}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.1 + index * 0.05 }}
                 >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    d="M9 12.75L11.25 15 15 9.75M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
-                  />
-                </svg>
-                <span className="font-body text-sm tracking-wide">Know It</span>
-              </motion.button>
+                  <span
+                    className="font-body text-xs"
+                    style={{
+                      color: result === 'again' && result !== suggestedResult ? '#EF4444' : undefined,
+                      opacity: result === suggestedResult ? 0.85 : 0.7,
+                    }}
+                  >
+                    {intervalPreviews && formatInterval(intervalPreviews[result])}
+                  </span>
+                  <span className="font-body text-sm tracking-wide">
+                    {REVIEW_LABELS[result]}
+                  </span>
+                </motion.button>
+              ))}
             </>
           ) : (
             <motion.button
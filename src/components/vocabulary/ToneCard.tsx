@@ -0,0 +1,128 @@
+import { memo, useState, useEffect, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { useConvertedChinese } from '../../hooks';
+import {
+  splitChineseCharacters,
+  splitPinyinSyllables,
+  getPinyinTone,
+  stripPinyinTone,
+} from '../../utils/pinyin';
+import type { SavedWord } from '../../types';
+
+const TONES = [1, 2, 3, 4, 5];
+
+const TONE_LABELS: Record<number, string> = {
+  1: 'ˉ',
+  2: 'ˊ',
+  3: 'ˇ',
+  4: 'ˋ',
+  5: '·',
+};
+
+interface ToneCardProps {
+  word: SavedWord;
+  isRevealed: boolean;
+  // Called on reveal with whether any guessed tone was wrong
+  onCheck?: (hasMistake: boolean) => void;
+}
+
+/**
+ * Tone drill: shows each character with its toneless syllable and asks the
+ * learner to pick the tone. Answers are checked when the card is revealed;
+ * syllables left unguessed are shown without marking them right or wrong.
+ */
+export const ToneCard = memo(function ToneCard({ word, isRevealed, onCheck }: ToneCardProps) {
+  const convertedChinese = useConvertedChinese(word.chinese);
+
+  const syllables = useMemo(() => {
+    const characters = splitChineseCharacters(convertedChinese);
+    const pinyin = splitPinyinSyllables(word.pinyin, characters.length);
+    return characters.map((character, index) => ({
+      character,
+      base: pinyin[index] ? stripPinyinTone(pinyin[index]) : '',
+      marked: pinyin[index] ?? '',
+      tone: pinyin[index] ? getPinyinTone(pinyin[index]) : 5,
+    }));
+  }, [convertedChinese, word.pinyin]);
+
+  const [guesses, setGuesses] = useState<(number | null)[]>(() => syllables.map(() => null));
+
+  useEffect(() => {
+    if (!isRevealed) return;
+    onCheck?.(syllables.some((syllable, index) => guesses[index] != null && guesses[index] !== syllable.tone));
+  }, [isRevealed, syllables, guesses, onCheck]);
+
+  return (
+    <div className="flex flex-wrap justify-center gap-4">
+      {syllables.map((syllable, index) => {
+        const guess = guesses[index];
+        const isCorrect = guess === syllable.tone;
+
+        return (
+          <motion.div
+            key={index}
+            className="flex flex-col items-center"
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.1 + index * 0.05 }}
+          >
+            <span
+              className="font-chinese-serif text-5xl"
+              style={{ color: 'var(--text-primary)', letterSpacing: '0.05em' }}
+            >
+              {syllable.character}
+            </span>
+            <span
+              className="mt-2 font-body text-lg italic"
+              style={{
+                color: isRevealed && guess !== null
+                  ? isCorrect
+                    ? 'var(--accent)'
+                    : '#EF4444'
+                  : 'var(--text-secondary)',
+              }}
+            >
+              {isRevealed ? syllable.marked : syllable.base}
+            </span>
+
+            {/* Tone picker */}
+            <div className="mt-2 flex gap-1">
+              {TONES.map((tone) => {
+                const isSelected = guess === tone;
+                const isAnswer = isRevealed && tone === syllable.tone;
+                return (
+                  <button
+                    key={tone}
+                    className="touch-feedback flex h-7 w-7 items-center justify-center rounded-full font-body text-sm"
+                    style={{
+                      backgroundColor: isAnswer
+                        ? 'var(--accent)'
+                        : isSelected
+                          ? 'var(--accent-subtle)'
+                          : 'var(--bg-secondary)',
+                      color: isAnswer
+                        ? 'white'
+                        : isSelected
+                          ? 'var(--accent)'
+                          : 'var(--text-tertiary)',
+                      textDecoration: isRevealed && isSelected && !isCorrect ? 'line-through' : 'none',
+                    }}
+                    onClick={(e) => {
+                      e.stopPropagation(); // Don't reveal the card
+                      if (isRevealed) return;
+                      setGuesses((prev) => prev.map((g, i) => (i === index ? tone : g)));
+                    }}
+                    aria-label={`Tone ${tone}`}
+                    aria-pressed={isSelected}
+                  >
+                    {TONE_LABELS[tone]}
+                  </button>
+                );
+              })}
+            </div>
+          </motion.div>
+        );
+      })}
+    </div>
+  );
+});
@@ -2,8 +2,9 @@ import { memo, useState, useMemo, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useVocabularyStore, useReadingStore, useSettingsStore } from '../../stores';
 import { getBookById } from '../../data/bible';
-import type { SavedWord } from '../../types';
+import type { SavedWord, CardType, ReviewCard } from '../../types';
 import { FlashcardReview } from './FlashcardReview';
+import { VocabularyStatsPanel } from './VocabularyStatsPanel';
 import { useConvertedChinese } from '../../hooks';
 import { convertCharacters } from '../../utils/characterConversion';
 
@@ -17,12 +18,16 @@ export const VocabularyScreen = memo(function VocabularyScreen({
   onClose,
 }: VocabularyScreenProps) {
   const [showFlashcards, setShowFlashcards] = useState(false);
-  const [singleReviewWord, setSingleReviewWord] = useState<SavedWord | null>(null);
+  // Cards for the current session, fixed when it starts so reviewed cards don't drop out mid-session
+  const [reviewCards, setReviewCards] = useState<ReviewCard[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
+  const [showStats, setShowStats] = useState(false);
 
-  const { words, getWordsDueForReview, getStats, removeWord } = useVocabularyStore();
+  const { words, getWordsDueForReview, getDueCards, getStats, removeWord } = useVocabularyStore();
   const { setCurrentPosition } = useReadingStore();
   const characterSet = useSettingsStore((state) => state.characterSet);
+  const clozeSeparateSchedule = useSettingsStore((state) => state.clozeSeparateSchedule);
+  const enabledCardDirections = useSettingsStore((state) => state.enabledCardDirections);
 
   // Prevent body scroll when open (but not when flashcards are showing, they handle their own lock)
   useEffect(() => {
@@ -41,8 +46,8 @@ export const VocabularyScreen = memo(function VocabularyScreen({
     }
   }, [isOpen, showFlashcards]);
 
-  const stats = getStats();
-  const wordsDueForReview = getWordsDueForReview();
+  const stats = getStats(enabledCardDirections);
+  const dueCards = getDueCards(enabledCardDirections);
 
   // Filter words by search query
   const filteredWords = useMemo(() => {
@@ -96,32 +101,51 @@ export const VocabularyScreen = memo(function VocabularyScreen({
 
   const handleWordClick = (word: SavedWord) => {
     // Open flashcard review for this specific word
-    setSingleReviewWord(word);
+    setReviewCards([{ word, cardType: 'recognition' }]);
     setShowFlashcards(true);
   };
 
   const handleFlashcardNavigateToVerse = (bookId: string, chapter: number, verse: number) => {
     // Close flashcard review and vocabulary screen, then navigate
     setShowFlashcards(false);
-    setSingleReviewWord(null);
+    setReviewCards([]);
     setCurrentPosition(bookId, chapter, verse);
     onClose();
   };
 
   const handleCloseFlashcards = () => {
     setShowFlashcards(false);
-    setSingleReviewWord(null);
+    setReviewCards([]);
   };
 
-  if (showFlashcards) {
-    // If reviewing a single word, show just that word; otherwise show due words or first 10
-    const reviewWords = singleReviewWord
-      ? [singleReviewWord]
-      : (wordsDueForReview.length > 0 ? wordsDueForReview : words.slice(0, 10));
+  const handleStartReview = (mode: 'directions' | 'cloze') => {
+    let cards: ReviewCard[];
+    if (mode === 'cloze') {
+      // Cloze cards on their own schedule have their own due list
+      const dueWords = clozeSeparateSchedule
+        ? getWordsDueForReview('cloze')
+        : getWordsDueForReview();
+      cards = (dueWords.length > 0 ? dueWords : words.slice(0, 10)).map((word) => ({
+        word,
+        cardType: 'cloze' as CardType,
+      }));
+    } else {
+      // Nothing due: practice the first 10 words in every enabled direction
+      cards =
+        dueCards.length > 0
+          ? dueCards
+          : enabledCardDirections.flatMap((cardType) =>
+              words.slice(0, 10).map((word) => ({ word, cardType }))
+            );
+    }
+    setReviewCards(cards);
+    setShowFlashcards(true);
+  };
 
+  if (showFlashcards) {
     return (
       <FlashcardReview
-        words={reviewWords}
+        cards={reviewCards}
         onClose={handleCloseFlashcards}
         onComplete={handleCloseFlashcards}
         onNavigateToVerse={handleFlashcardNavigateToVerse}
@@ -180,13 +204,38 @@ export const VocabularyScreen = memo(function VocabularyScreen({
                 </span>
               </div>
               <div className="flex items-center gap-2">
+                <motion.button
+                  className="touch-feedback rounded-full px-3 py-1 font-body text-xs tracking-wide"
+                  style={{
+                    backgroundColor: showStats ? 'var(--accent-subtle)' : 'var(--bg-secondary)',
+                    color: showStats ? 'var(--accent)' : 'var(--text-secondary)',
+                  }}
+                  onClick={() => setShowStats((prev) => !prev)}
+                  aria-pressed={showStats}
+                  whileTap={{ scale: 0.95 }}
+                >
+                  Stats
+                </motion.button>
+                <motion.button
+                  className="touch-feedback rounded-full px-3 py-1 font-body text-xs tracking-wide"
+                  style={{
+                    backgroundColor: 'var(--bg-secondary)',
+                    color: words.length > 0 ? 'var(--text-secondary)' : 'var(--text-tertiary)',
+                  }}
+                  onClick={() => handleStartReview('cloze')}
+                  disabled={words.length === 0}
+                  whileTap={words.length > 0 ? { scale: 0.95 } : {}}
+                  aria-label="Review with verse cloze cards"
+                >
+                  Cloze
+                </motion.button>
                 <motion.button
                   className="touch-feedback rounded-full px-3 py-1 font-body text-xs tracking-wide"
                   style={{
                     backgroundColor: words.length > 0 ? 'var(--accent)' : 'var(--bg-secondary)',
                     color: words.length > 0 ? 'white' : 'var(--text-tertiary)',
                   }}
-                  onClick={() => setShowFlashcards(true)}
+                  onClick={() => handleStartReview('directions')}
                   disabled={words.length === 0}
                   whileTap={words.length > 0 ? { scale: 0.95 } : {}}
                 >
@@ -244,7 +293,7 @@ export const VocabularyScreen = memo(function VocabularyScreen({
               </div>
             </div>
 
-            {wordsDueForReview.length > 0 && (
+            {dueCards.length > 0 && (
               <motion.div
                 className="mt-2 rounded-lg px-3 py-2"
                 style={{ backgroundColor: 'var(--accent-subtle)' }}
@@ -271,13 +320,17 @@ export const VocabularyScreen = memo(function VocabularyScreen({
                     className="font-body text-xs"
                     style={{ color: 'var(--accent)' }}
                   >
-                    {wordsDueForReview.length} due for review
+                    {dueCards.length} due for review
                   </span>
                 </div>
               </motion.div>
             )}
           </motion.div>
 
+          {showStats ? (
+            <VocabularyStatsPanel words={words} stats={stats} cardTypes={enabledCardDirections} />
+          ) : (
+          <>
           {/* Search */}
           <motion.div
             className="px-4 py-3"
@@ -398,6 +451,8 @@ export const VocabularyScreen = memo(function VocabularyScreen({
               ))
             )}
           </div>
+          </>
+          )}
           </motion.div>
         </>
       )}
@@ -413,7 +468,7 @@ interface WordItemProps {
 }
 
 const WordItem = memo(function WordItem({ word, onClick, onDelete }: WordItemProps) {
-  const book = getBookById(word.sourceVerse.bookId);
+  const book = word.sourceVerse ? getBookById(word.sourceVerse.bookId) : null;
   const convertedChinese = useConvertedChinese(word.chinese);
 
   return (
@@ -450,12 +505,14 @@ const WordItem = memo(function WordItem({ word, onClick, onDelete }: WordItemPro
           </p>
         )}
         <div className="mt-1.5 flex items-center gap-2 flex-wrap">
-          <span
-            className="font-body text-[10px] italic"
-            style={{ color: 'var(--text-tertiary)' }}
-          >
-            {book?.name.english} {word.sourceVerse.chapter}:{word.sourceVerse.verse}
-          </span>
+          {word.sourceVerse && (
+            <span
+              className="font-body text-[10px] italic"
+              style={{ color: 'var(--text-tertiary)' }}
+            >
+              {book?.name.english} {word.sourceVerse.chapter}:{word.sourceVerse.verse}
+            </span>
+          )}
           {word.srsData.status === 'mastered' && (
             <span
               className="rounded-full px-1.5 py-0.5 font-body text-[10px] tracking-wide"
@@ -0,0 +1,117 @@
+import { memo, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import type { CardType, SavedWord, VocabularyStats } from '../../types';
+import { computeRetentionStats, forecastDueWords } from '../../utils/reviewAnalytics';
+import { VocabularyTransfer } from './VocabularyTransfer';
+
+const FORECAST_DAYS = 30;
+
+interface VocabularyStatsPanelProps {
+  words: SavedWord[];
+  stats: VocabularyStats;
+  cardTypes: CardType[]; // Enabled card directions, as in the review queue
+}
+
+export const VocabularyStatsPanel = memo(function VocabularyStatsPanel({
+  words,
+  stats,
+  cardTypes,
+}: VocabularyStatsPanelProps) {
+  const retention = useMemo(() => computeRetentionStats(words), [words]);
+  const forecast = useMemo(() => forecastDueWords(words, cardTypes, FORECAST_DAYS), [words, cardTypes]);
+  const maxDue = Math.max(1, ...forecast);
+  const dueThisWeek = forecast.slice(0, 7).reduce((sum, count) => sum + count, 0);
+
+  const tiles = [
+    {
+      label: 'True retention',
+      value: retention.totalReviews > 0 ? `${Math.round(retention.trueRetention * 100)}%` : '—',
+    },
+    {
+      label: 'Predicted recall',
+      value: stats.totalWords - stats.newWords > 0 ? `${Math.round(stats.averageRetention * 100)}%` : '—',
+    },
+    { label: 'Reviews', value: String(retention.totalReviews) },
+    { label: 'Lapses', value: String(retention.lapses) },
+    {
+      label: 'Avg. answer time',
+      value: retention.averageResponseMs > 0 ? `${(retention.averageResponseMs / 1000).toFixed(1)}s` : '—',
+    },
+    { label: 'New words', value: String(stats.newWords) },
+  ];
+
+  return (
+    <motion.div
+      className="flex-1 overflow-y-auto px-4 py-4 pb-16"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ delay: 0.1 }}
+    >
+      <div className="grid grid-cols-2 gap-2">
+        {tiles.map((tile) => (
+          <div
+            key={tile.label}
+            className="rounded-xl px-3 py-2.5"
+            style={{ backgroundColor: 'var(--bg-secondary)' }}
+          >
+            <div
+              className="font-display text-xl"
+              style={{ color: 'var(--text-primary)', letterSpacing: '0.02em' }}
+            >
+              {tile.value}
+            </div>
+            <div
+              className="font-body text-[10px] italic"
+              style={{ color: 'var(--text-tertiary)' }}
+            >
+              {tile.label}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Due forecast */}
+      <div className="mt-5">
+        <div className="flex items-baseline justify-between">
+          <h3
+            className="font-display text-[10px] tracking-widest uppercase"
+            style={{ color: 'var(--text-tertiary)' }}
+          >
+            Next {FORECAST_DAYS} days
+          </h3>
+          <span
+            className="font-body text-[10px] italic"
+            style={{ color: 'var(--text-tertiary)' }}
+          >
+            {dueThisWeek} due this week
+          </span>
+        </div>
+
+        <div className="mt-2 flex h-24 items-end gap-px" aria-label="Due cards forecast">
+          {forecast.map((count, day) => (
+            <div
+              key={day}
+              className="flex-1 rounded-t-sm"
+              title={`${day === 0 ? 'Today' : `In ${day} day${day === 1 ? '' : 's'}`}: ${count}`}
+              style={{
+                height: `${(count / maxDue) * 100}%`,
+                minHeight: count > 0 ? 2 : 0,
+                backgroundColor: day === 0 ? 'var(--accent)' : 'var(--accent-light)',
+                opacity: day === 0 ? 1 : 0.7,
+              }}
+            />
+          ))}
+        </div>
+        <div
+          className="mt-1 flex justify-between font-body text-[10px]"
+          style={{ color: 'var(--text-tertiary)' }}
+        >
+          <span>Today</span>
+          <span>+{FORECAST_DAYS - 1}d</span>
+        </div>
+      </div>
+
+      <VocabularyTransfer />
+    </motion.div>
+  );
+});
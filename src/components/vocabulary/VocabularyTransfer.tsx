@@ -0,0 +1,139 @@
+import { memo, useState, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { useVocabularyStore, useSettingsStore } from '../../stores';
+import {
+  exportVocabularyDelimited,
+  exportVocabularyApkg,
+  parseVocabularyFile,
+  type DelimitedFormat,
+} from '../../services/vocabularyTransfer';
+import { downloadBlob } from '../../utils/download';
+
+type ExportFormat = DelimitedFormat | 'apkg';
+
+const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'apkg', label: 'Anki' },
+  { value: 'csv', label: 'CSV' },
+  { value: 'tsv', label: 'TSV' },
+];
+
+type Status = { kind: 'busy' | 'success' | 'error'; message: string } | null;
+
+export const VocabularyTransfer = memo(function VocabularyTransfer() {
+  const words = useVocabularyStore((state) => state.words);
+  const importWords = useVocabularyStore((state) => state.importWords);
+  const characterSet = useSettingsStore((state) => state.characterSet);
+  const englishVersion = useSettingsStore((state) => state.englishVersion);
+
+  const [status, setStatus] = useState<Status>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isBusy = status?.kind === 'busy';
+
+  const handleExport = async (format: ExportFormat) => {
+    setStatus({ kind: 'busy', message: 'Preparing export…' });
+    try {
+      const blob =
+        format === 'apkg'
+          ? await exportVocabularyApkg(words, characterSet, englishVersion)
+          : await exportVocabularyDelimited(words, format, characterSet, englishVersion);
+      const date = new Date().toISOString().slice(0, 10);
+      downloadBlob(blob, `bible-vocabulary-${date}.${format}`);
+      setStatus({ kind: 'success', message: `Exported ${words.length} words` });
+    } catch (error) {
+      console.error('[VocabularyTransfer] Export failed:', error);
+      setStatus({ kind: 'error', message: 'Export failed. Please try again.' });
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setStatus({ kind: 'busy', message: `Reading ${file.name}…` });
+    try {
+      const entries = await parseVocabularyFile(file);
+      if (entries.length === 0) {
+        setStatus({ kind: 'error', message: 'No words found in this file' });
+        return;
+      }
+      const { added, skipped } = importWords(entries);
+      setStatus({
+        kind: 'success',
+        message: `Imported ${added} word${added === 1 ? '' : 's'}${skipped > 0 ? `, skipped ${skipped} already saved` : ''}`,
+      });
+    } catch (error) {
+      console.error('[VocabularyTransfer] Import failed:', error);
+      setStatus({
+        kind: 'error',
+        message: error instanceof Error ? error.message : 'Import failed',
+      });
+    }
+  };
+
+  return (
+    <div className="mt-6">
+      <h3
+        className="font-display text-[10px] tracking-widest uppercase"
+        style={{ color: 'var(--text-tertiary)' }}
+      >
+        Export & Import
+      </h3>
+
+      <div className="mt-2 flex gap-2">
+        {EXPORT_FORMATS.map((format) => (
+          <motion.button
+            key={format.value}
+            className="touch-feedback flex-1 rounded-lg py-2 font-body text-xs tracking-wide"
+            style={{
+              backgroundColor: 'var(--bg-secondary)',
+              color: words.length > 0 && !isBusy ? 'var(--text-secondary)' : 'var(--text-tertiary)',
+            }}
+            onClick={() => handleExport(format.value)}
+            disabled={words.length === 0 || isBusy}
+            whileTap={{ scale: 0.95 }}
+          >
+            {format.label}
+          </motion.button>
+        ))}
+      </div>
+
+      <motion.button
+        className="touch-feedback mt-2 w-full rounded-lg py-2 font-body text-xs tracking-wide"
+        style={{
+          backgroundColor: 'var(--accent-subtle)',
+          color: isBusy ? 'var(--text-tertiary)' : 'var(--accent)',
+        }}
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isBusy}
+        whileTap={{ scale: 0.95 }}
+      >
+        Import from Anki, CSV or TSV
+      </motion.button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".apkg,.colpkg,.csv,.tsv,.txt"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleImport(file);
+          e.target.value = ''; // Allow picking the same file again
+        }}
+      />
+
+      {status && (
+        <p
+          className="mt-2 font-body text-[11px] italic"
+          style={{
+            color:
+              status.kind === 'error'
+                ? '#EF4444'
+                : status.kind === 'success'
+                  ? 'var(--accent)'
+                  : 'var(--text-tertiary)',
+          }}
+          role="status"
+        >
+          {status.message}
+        </p>
+      )}
+    </div>
+  );
+});
@@ -1,2 +1,6 @@
 export { VocabularyScreen } from './VocabularyScreen';
 export { FlashcardReview } from './FlashcardReview';
+export { VocabularyStatsPanel } from './VocabularyStatsPanel';
+export { ClozeCard } from './ClozeCard';
+export { ToneCard } from './ToneCard';
+export { VocabularyTransfer } from './VocabularyTransfer';
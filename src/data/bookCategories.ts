@@ -3,6 +3,8 @@
  * Used to display appropriate category icon on chapter 1 of each book
  */
 
+import { BIBLE_BOOKS, getBookIndex } from './bible/books';
+
 export type BookCategory =
   | 'torah'
   | 'historical'
@@ -112,3 +114,58 @@ export function getBooksInCategory(category: BookCategory): string[] {
     .filter(([, cat]) => cat === category)
     .map(([bookId]) => bookId);
 }
+
+// Letters traditionally attributed to Paul (Romans through Philemon)
+const PAULINE_EPISTLES = [
+  'romans', '1corinthians', '2corinthians', 'galatians', 'ephesians', 'philippians',
+  'colossians', '1thessalonians', '2thessalonians', '1timothy', '2timothy', 'titus', 'philemon',
+];
+
+/**
+ * Named book groups for search scopes (`in:gospels`, `in:paul`), in addition
+ * to every BookCategory and book ID
+ */
+const SCOPE_ALIASES: Record<string, () => string[]> = {
+  law: () => getBooksInCategory('torah'),
+  pentateuch: () => getBooksInCategory('torah'),
+  history: () => getBooksInCategory('historical'),
+  poetry: () => getBooksInCategory('wisdom'),
+  prophets: () => [...getBooksInCategory('major-prophets'), ...getBooksInCategory('minor-prophets')],
+  paul: () => PAULINE_EPISTLES,
+  pauline: () => PAULINE_EPISTLES,
+  ot: () => BIBLE_BOOKS.filter((book) => book.testament === 'old').map((book) => book.id),
+  nt: () => BIBLE_BOOKS.filter((book) => book.testament === 'new').map((book) => book.id),
+};
+
+function resolveSingleScope(name: string): string[] | null {
+  if (SCOPE_ALIASES[name]) return SCOPE_ALIASES[name]();
+  if (Object.values(BOOK_CATEGORIES).includes(name as BookCategory)) {
+    return getBooksInCategory(name as BookCategory);
+  }
+  return getBookIndex(name) !== -1 ? [name] : null;
+}
+
+/**
+ * Resolve a search scope to book IDs in canonical order: a category or alias
+ * (`gospels`, `paul`, `ot`), a book ID (`john`), or a range of either
+ * (`psalms-proverbs`, `romans-jude`). Returns null for an unknown scope.
+ */
+export function resolveBookScope(scope: string): string[] | null {
+  const name = scope.toLowerCase();
+  const single = resolveSingleScope(name);
+  if (single) return single;
+
+  // Ranges run from the first book of one scope to the last book of the other
+  const dash = name.indexOf('-', 1);
+  for (let split = dash; split !== -1; split = name.indexOf('-', split + 1)) {
+    const from = resolveSingleScope(name.slice(0, split));
+    const to = resolveSingleScope(name.slice(split + 1));
+    if (!from || !to) continue;
+
+    const start = getBookIndex(from[0]);
+    const end = getBookIndex(to[to.length - 1]);
+    if (start > end) return null;
+    return BIBLE_BOOKS.slice(start, end + 1).map((book) => book.id);
+  }
+  return null;
+}
@@ -0,0 +1,50 @@
+/**
+ * Per-chapter word statistics behind the chapter difficulty scores
+ *
+ * Built by scripts/build-chapter-stats.ts into public/data/preprocessed/chapter-stats/.
+ * summary.json counts every chapter's running words by proficiency level, which
+ * is enough to score any chapter against any reading level. {bookId}.json lists
+ * each chapter's distinct words so they can be compared with the learner's
+ * vocabulary; proper names are left out of these lists.
+ */
+
+import type { SegmentedWord } from '../types';
+
+export const CHAPTER_STATS_PATH = '/data/preprocessed/chapter-stats';
+
+// `${hskLevel}|${tocflLevel}|${freq}|${hsk3Level}`, with an empty part where a word has none
+export type WordLevelKey = string;
+
+export interface ChapterStatsSummary {
+  levels: WordLevelKey[]; // Every level key found; the files below refer to keys by index
+  // bookId → per chapter (chapter 1 first): flat [levelIndex, runningWords, levelIndex, runningWords, ...]
+  books: Record<string, number[][]>;
+}
+
+export interface BookWordList {
+  levels: Record<string, number>; // Word → index into ChapterStatsSummary.levels
+  chapters: string[][]; // Distinct words per chapter, chapter 1 first
+}
+
+export interface WordLevel {
+  hskLevel: number | null;
+  hsk3Level: number | null;
+  tocflLevel: number | null;
+  freq?: SegmentedWord['freq'];
+}
+
+export function getWordLevelKey(
+  word: Pick<SegmentedWord, 'hskLevel' | 'hsk3Level' | 'tocflLevel' | 'freq'>
+): WordLevelKey {
+  return `${word.hskLevel ?? ''}|${word.tocflLevel ?? ''}|${word.freq ?? ''}|${word.hsk3Level ?? ''}`;
+}
+
+export function parseWordLevelKey(key: WordLevelKey): WordLevel {
+  const [hsk, tocfl, freq, hsk3] = key.split('|');
+  return {
+    hskLevel: hsk ? Number(hsk) : null,
+    hsk3Level: hsk3 ? Number(hsk3) : null,
+    tocflLevel: tocfl ? Number(tocfl) : null,
+    freq: (freq || undefined) as SegmentedWord['freq'],
+  };
+}
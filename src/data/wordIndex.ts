@@ -0,0 +1,18 @@
+/**
+ * Inverted word index over the preprocessed chapters
+ *
+ * Built by scripts/build-word-index.ts into public/data/preprocessed/word-index/.
+ * Words are spread across shards by their first character so a lookup only
+ * downloads a small file.
+ */
+
+export const WORD_INDEX_SHARD_COUNT = 64;
+
+export const WORD_INDEX_PATH = '/data/preprocessed/word-index';
+
+// word → bookId → flat [chapter, verse, chapter, verse, ...] list in reading order
+export type WordIndexShard = Record<string, Record<string, number[]>>;
+
+export function getWordIndexShard(word: string): number {
+  return (word.codePointAt(0) ?? 0) % WORD_INDEX_SHARD_COUNT;
+}
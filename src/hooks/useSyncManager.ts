@@ -6,11 +6,17 @@ import { useHistoryStore } from '../stores/historyStore';
 import { useSettingsStore } from '../stores/settingsStore';
 import { useReadingPlansStore } from '../stores/readingPlansStore';
 import { useProgressStore } from '../stores/progressStore';
+import { useKnownWordsStore } from '../stores/knownWordsStore';
+import { useHighlightStore } from '../stores/highlightStore';
+import { useJournalStore } from '../stores/journalStore';
 import { firestoreSync } from '../lib/firebaseSync';
-import { migrateLocalDataToFirestore, mergeData } from '../lib/dataMigration';
+import { migrateLocalDataToFirestore, mergeData, mergeVocabulary } from '../lib/dataMigration';
+import { mergeKnownWordMarks } from '../utils/knownWords';
 import type { Unsubscribe } from 'firebase/firestore';
 import type { SavedWord } from '../types/vocabulary';
 import type { Bookmark } from '../stores/bookmarkStore';
+import type { Highlight } from '../types/highlights';
+import type { JournalEntry } from '../types/journal';
 
 const vocabSignature = (words: Array<{ id: string; updatedAt?: number }>): string =>
   JSON.stringify(
@@ -27,10 +33,22 @@ const buildUpdatedAtIndex = (items: Array<{ id: string; updatedAt?: number }>):
   return index;
 };
 
+// Upserts for items whose updatedAt changed since the last sync, deletes for items now gone
+const computeUpdatedAtMutations = <T extends { id: string; updatedAt?: number }>(
+  items: T[],
+  lastSyncedIndex: Map<string, number>
+): { upserts: T[]; deletes: string[] } => {
+  const currentIds = new Set(items.map((item) => item.id));
+  const upserts = items.filter((item) => lastSyncedIndex.get(item.id) !== (item.updatedAt ?? 0));
+  const deletes = [...lastSyncedIndex.keys()].filter((id) => !currentIds.has(id));
+  return { upserts, deletes };
+};
+
 const bookmarkSignature = (bookmark: Bookmark): string => {
   const note = bookmark.note ?? '';
   const verseRef = bookmark.verseRef;
-  return `${bookmark.createdAt}|${verseRef.bookId}:${verseRef.chapter}:${verseRef.verse}|${note}`;
+  const filing = `${bookmark.collection ?? ''}|${(bookmark.tags ?? []).join(',')}`;
+  return `${bookmark.createdAt}|${verseRef.bookId}:${verseRef.chapter}:${verseRef.verse}|${note}|${filing}`;
 };
 
 const buildBookmarkIndex = (bookmarks: Bookmark[]): Map<string, string> => {
@@ -156,10 +174,14 @@ export function useSyncManager() {
   const syncTimeoutRef = useRef<{
     vocabulary?: ReturnType<typeof setTimeout>;
     bookmarks?: ReturnType<typeof setTimeout>;
+    bookmarkCollections?: ReturnType<typeof setTimeout>;
     history?: ReturnType<typeof setTimeout>;
     settings?: ReturnType<typeof setTimeout>;
     readingPlans?: ReturnType<typeof setTimeout>;
     progress?: ReturnType<typeof setTimeout>;
+    knownWords?: ReturnType<typeof setTimeout>;
+    highlights?: ReturnType<typeof setTimeout>;
+    journal?: ReturnType<typeof setTimeout>;
   }>({});
 
   // Track if we're currently processing a cloud update to prevent sync loops
@@ -169,10 +191,14 @@ export function useSyncManager() {
   const lastLocalModificationRef = useRef<{
     vocabulary?: number;
     bookmarks?: number;
+    bookmarkCollections?: number;
     history?: number;
     settings?: number;
     readingPlans?: number;
     progress?: number;
+    knownWords?: number;
+    highlights?: number;
+    journal?: number;
   }>({});
 
   // Tracks what we believe is currently persisted in Firestore for diff-based syncing.
@@ -183,6 +209,12 @@ export function useSyncManager() {
   const lastSyncedBookmarksIndexRef = useRef<Map<string, string>>(new Map());
   const pendingBookmarksRef = useRef<Bookmark[]>([]);
 
+  const lastSyncedHighlightsIndexRef = useRef<Map<string, number>>(new Map());
+  const pendingHighlightsRef = useRef<Highlight[]>([]);
+
+  const lastSyncedJournalIndexRef = useRef<Map<string, number>>(new Map());
+  const pendingJournalRef = useRef<JournalEntry[]>([]);
+
   // Cleanup function
   const cleanup = () => {
     unsubscribersRef.current.forEach((unsub) => unsub());
@@ -193,6 +225,10 @@ export function useSyncManager() {
     pendingVocabWordsRef.current = [];
     lastSyncedBookmarksIndexRef.current = new Map();
     pendingBookmarksRef.current = [];
+    lastSyncedHighlightsIndexRef.current = new Map();
+    pendingHighlightsRef.current = [];
+    lastSyncedJournalIndexRef.current = new Map();
+    pendingJournalRef.current = [];
 
     // Clear any pending sync timeouts
     Object.values(syncTimeoutRef.current).forEach((timeout) => {
@@ -239,13 +275,17 @@ export function useSyncManager() {
         }
 
         // Step 2: Load data from Firestore
-        const [cloudVocab, cloudBookmarks, cloudHistory, cloudSettings, cloudReadingPlans, cloudProgress] = await Promise.all([
+        const [cloudVocab, cloudBookmarks, cloudBookmarkCollections, cloudHistory, cloudSettings, cloudReadingPlans, cloudProgress, cloudKnownWords, cloudHighlights, cloudJournal] = await Promise.all([
           firestoreSync.loadVocabularyFromCloud(userId),
           firestoreSync.loadBookmarksFromCloud(userId),
+          firestoreSync.loadBookmarkCollectionsFromCloud(userId),
           firestoreSync.loadHistoryFromCloud(userId),
           firestoreSync.loadSettingsFromCloud(userId),
           firestoreSync.loadReadingPlansFromCloud(userId),
           firestoreSync.loadProgressFromCloud(userId),
+          firestoreSync.loadKnownWordsFromCloud(userId),
+          firestoreSync.loadHighlightsFromCloud(userId),
+          firestoreSync.loadJournalFromCloud(userId),
         ]);
 
         // Step 3: Merge cloud data with local data (in case of conflicts)
@@ -308,7 +348,7 @@ export function useSyncManager() {
 
         console.log(`[Sync] After fallback check: vocab=${localVocab.length}, bookmarks=${localBookmarks.length}, history=${localHistory.length}`);
 
-        const mergedVocab = mergeData(cloudVocab, localVocab);
+        const mergedVocab = mergeVocabulary(cloudVocab, localVocab);
         const mergedBookmarks = mergeData(cloudBookmarks, localBookmarks);
         const mergedHistory = mergeData(cloudHistory, localHistory);
 
@@ -338,6 +378,18 @@ export function useSyncManager() {
 
         bookmarkStore.setBookmarks(mergedBookmarks);
 
+        // Collections are kept if either side has them
+        const cloudCollectionNames = cloudBookmarkCollections?.names || [];
+        const localCollections = useBookmarkStore.getState().collections;
+        bookmarkStore.setCollections([...cloudCollectionNames, ...localCollections]);
+        const mergedCollections = useBookmarkStore.getState().collections;
+        if (JSON.stringify(mergedCollections) !== JSON.stringify(cloudCollectionNames)) {
+          // Collections created while signed out only reach the cloud here
+          firestoreSync.syncBookmarkCollectionsToCloud(userId, { names: mergedCollections }).catch((error) => {
+            console.error('[Sync] Failed to sync merged bookmark collections to cloud', error);
+          });
+        }
+
         historyStore.clearHistory();
         mergedHistory.forEach((entry) => {
           historyStore.pushEntry(entry.bookId, entry.chapter);
@@ -455,6 +507,26 @@ export function useSyncManager() {
           });
         }
 
+        // Merge known-word marks - the newer mark wins for each word
+        const localKnownWords = useKnownWordsStore.getState().marks;
+        const cloudKnownWordMarks = cloudKnownWords?.marks || {};
+        const mergedKnownWords = mergeKnownWordMarks(localKnownWords, cloudKnownWordMarks);
+        useKnownWordsStore.getState().setMarks(mergedKnownWords);
+        if (JSON.stringify(mergedKnownWords) !== JSON.stringify(cloudKnownWordMarks)) {
+          // Marks made while signed out only reach the cloud here
+          firestoreSync.syncKnownWordsToCloud(userId, { marks: mergedKnownWords }).catch((error) => {
+            console.error('[Sync] Failed to sync merged known words to cloud', error);
+          });
+        }
+
+        // Merge highlights - the more recently updated copy of each wins
+        const mergedHighlights = mergeData(cloudHighlights, useHighlightStore.getState().highlights);
+        useHighlightStore.getState().setHighlights(mergedHighlights);
+
+        // Merge journal entries the same way
+        const mergedJournal = mergeData(cloudJournal, useJournalStore.getState().entries);
+        useJournalStore.getState().setEntries(mergedJournal);
+
         // Clear the flag after initial load
         isProcessingCloudUpdateRef.current = false;
 
@@ -485,6 +557,28 @@ export function useSyncManager() {
         pendingBookmarksRef.current = mergedBookmarks;
         lastSyncedBookmarksIndexRef.current = buildBookmarkIndex(cloudBookmarks);
 
+        // Highlights made while signed out only reach the cloud here
+        pendingHighlightsRef.current = mergedHighlights;
+        lastSyncedHighlightsIndexRef.current = buildUpdatedAtIndex(cloudHighlights);
+        try {
+          const { upserts, deletes } = computeUpdatedAtMutations(mergedHighlights, lastSyncedHighlightsIndexRef.current);
+          await firestoreSync.applyHighlightMutations(userId, { upserts, deletes });
+          lastSyncedHighlightsIndexRef.current = buildUpdatedAtIndex(mergedHighlights);
+        } catch (error) {
+          console.error('[Sync] Failed to sync merged highlights to cloud', error);
+        }
+
+        // Likewise for journal entries written while signed out
+        pendingJournalRef.current = mergedJournal;
+        lastSyncedJournalIndexRef.current = buildUpdatedAtIndex(cloudJournal);
+        try {
+          const { upserts, deletes } = computeUpdatedAtMutations(mergedJournal, lastSyncedJournalIndexRef.current);
+          await firestoreSync.applyJournalMutations(userId, { upserts, deletes });
+          lastSyncedJournalIndexRef.current = buildUpdatedAtIndex(mergedJournal);
+        } catch (error) {
+          console.error('[Sync] Failed to sync merged journal to cloud', error);
+        }
+
         // Step 5: Set up real-time listeners for changes from other devices
         const vocabUnsub = firestoreSync.subscribeToVocabulary(userId, (words) => {
           // Safety: Never let an empty cloud snapshot wipe non-empty local state before we've ever
@@ -561,6 +655,28 @@ export function useSyncManager() {
           }
         });
 
+        const bookmarkCollectionsUnsub = firestoreSync.subscribeToBookmarkCollections(userId, (data) => {
+          if (hasInitialSyncedRef.current) {
+            // Check if this update is from a recent local modification
+            const now = Date.now();
+            const lastLocalMod = lastLocalModificationRef.current.bookmarkCollections || 0;
+            const timeSinceLastMod = now - lastLocalMod;
+
+            // If we modified locally within the last 2 seconds, ignore this cloud update
+            if (timeSinceLastMod < 2000) {
+              console.log('[Sync] Ignoring bookmark collections cloud update - recent local modification');
+              return;
+            }
+
+            isProcessingCloudUpdateRef.current = true;
+            console.log('[Sync] Applying bookmark collections update from cloud');
+            bookmarkStore.setCollections(data.names || []);
+            setTimeout(() => {
+              isProcessingCloudUpdateRef.current = false;
+            }, 100);
+          }
+        });
+
         const historyUnsub = firestoreSync.subscribeToHistory(userId, (entries) => {
           if (hasInitialSyncedRef.current) {
             // Check if this update is from a recent local modification
@@ -667,7 +783,77 @@ export function useSyncManager() {
           }
         });
 
-        unsubscribersRef.current = [vocabUnsub, bookmarksUnsub, historyUnsub, settingsUnsub, readingPlansUnsub, progressUnsub];
+        const knownWordsUnsub = firestoreSync.subscribeToKnownWords(userId, (data) => {
+          if (hasInitialSyncedRef.current) {
+            // Check if this update is from a recent local modification
+            const now = Date.now();
+            const lastLocalMod = lastLocalModificationRef.current.knownWords || 0;
+            const timeSinceLastMod = now - lastLocalMod;
+
+            // If we modified locally within the last 2 seconds, ignore this cloud update
+            if (timeSinceLastMod < 2000) {
+              console.log('[Sync] Ignoring known words cloud update - recent local modification');
+              return;
+            }
+
+            isProcessingCloudUpdateRef.current = true;
+            console.log('[Sync] Applying known words update from cloud');
+            useKnownWordsStore.getState().setMarks(data.marks || {});
+            setTimeout(() => {
+              isProcessingCloudUpdateRef.current = false;
+            }, 100);
+          }
+        });
+
+        const highlightsUnsub = firestoreSync.subscribeToHighlights(userId, (highlights) => {
+          if (hasInitialSyncedRef.current) {
+            // Check if this update is from a recent local modification
+            const now = Date.now();
+            const lastLocalMod = lastLocalModificationRef.current.highlights || 0;
+            const timeSinceLastMod = now - lastLocalMod;
+
+            // If we modified locally within the last 2 seconds, ignore this cloud update
+            if (timeSinceLastMod < 2000) {
+              console.log('[Sync] Ignoring highlights cloud update - recent local modification');
+              return;
+            }
+
+            isProcessingCloudUpdateRef.current = true;
+            console.log('[Sync] Applying highlights update from cloud:', highlights.length, 'highlights');
+            useHighlightStore.getState().setHighlights(highlights);
+            pendingHighlightsRef.current = highlights;
+            lastSyncedHighlightsIndexRef.current = buildUpdatedAtIndex(highlights);
+            setTimeout(() => {
+              isProcessingCloudUpdateRef.current = false;
+            }, 100);
+          }
+        });
+
+        const journalUnsub = firestoreSync.subscribeToJournal(userId, (entries) => {
+          if (hasInitialSyncedRef.current) {
+            // Check if this update is from a recent local modification
+            const now = Date.now();
+            const lastLocalMod = lastLocalModificationRef.current.journal || 0;
+            const timeSinceLastMod = now - lastLocalMod;
+
+            // If we modified locally within the last 2 seconds, ignore this cloud update
+            if (timeSinceLastMod < 2000) {
+              console.log('[Sync] Ignoring journal cloud update - recent local modification');
+              return;
+            }
+
+            isProcessingCloudUpdateRef.current = true;
+            console.log('[Sync] Applying journal update from cloud:', entries.length, 'entries');
+            useJournalStore.getState().setEntries(entries);
+            pendingJournalRef.current = entries;
+            lastSyncedJournalIndexRef.current = buildUpdatedAtIndex(entries);
+            setTimeout(() => {
+              isProcessingCloudUpdateRef.current = false;
+            }, 100);
+          }
+        });
+
+        unsubscribersRef.current = [vocabUnsub, bookmarksUnsub, bookmarkCollectionsUnsub, historyUnsub, settingsUnsub, readingPlansUnsub, progressUnsub, knownWordsUnsub, highlightsUnsub, journalUnsub];
 
         hasInitialSyncedRef.current = true;
         setSyncComplete();
@@ -721,9 +907,27 @@ export function useSyncManager() {
       lastSyncedBookmarksIndexRef.current = buildBookmarkIndex(bookmarks);
     };
 
+    const syncHighlightsToCloudDiff = async (): Promise<void> => {
+      const highlights = pendingHighlightsRef.current;
+      const { upserts, deletes } = computeUpdatedAtMutations(highlights, lastSyncedHighlightsIndexRef.current);
+      if (upserts.length === 0 && deletes.length === 0) return;
+
+      await firestoreSync.applyHighlightMutations(userId, { upserts, deletes });
+      lastSyncedHighlightsIndexRef.current = buildUpdatedAtIndex(highlights);
+    };
+
+    const syncJournalToCloudDiff = async (): Promise<void> => {
+      const entries = pendingJournalRef.current;
+      const { upserts, deletes } = computeUpdatedAtMutations(entries, lastSyncedJournalIndexRef.current);
+      if (upserts.length === 0 && deletes.length === 0) return;
+
+      await firestoreSync.applyJournalMutations(userId, { upserts, deletes });
+      lastSyncedJournalIndexRef.current = buildUpdatedAtIndex(entries);
+    };
+
     // Debounced sync function to avoid rapid-fire updates
     const debouncedSync = (
-      key: 'vocabulary' | 'bookmarks' | 'history' | 'settings' | 'readingPlans' | 'progress',
+      key: 'vocabulary' | 'bookmarks' | 'bookmarkCollections' | 'history' | 'settings' | 'readingPlans' | 'progress' | 'knownWords' | 'highlights' | 'journal',
       syncFn: () => Promise<void>
     ) => {
       // Don't schedule syncs until initial sync is complete, and never echo cloud-origin changes.
@@ -792,12 +996,12 @@ export function useSyncManager() {
 
         const signature = JSON.stringify(
           bookmarks
-            .map((b) => ({ id: b.id, note: b.note ?? '', createdAt: b.createdAt }))
+            .map((b) => ({ id: b.id, note: b.note ?? '', collection: b.collection ?? '', tags: b.tags ?? [], createdAt: b.createdAt }))
             .sort((a, b) => a.id.localeCompare(b.id))
         );
         const prevSignature = JSON.stringify(
           prevBookmarks
-            .map((b) => ({ id: b.id, note: b.note ?? '', createdAt: b.createdAt }))
+            .map((b) => ({ id: b.id, note: b.note ?? '', collection: b.collection ?? '', tags: b.tags ?? [], createdAt: b.createdAt }))
             .sort((a, b) => a.id.localeCompare(b.id))
         );
 
@@ -826,13 +1030,22 @@ export function useSyncManager() {
         fontFamily: state.fontFamily,
         textSize: state.textSize,
         pinyinLevel: state.pinyinLevel,
+        proficiencySystem: state.proficiencySystem,
         pinyinDisplay: state.pinyinDisplay,
         characterSet: state.characterSet,
+        phoneticSystem: state.phoneticSystem,
+        toneColors: state.toneColors,
+        toneSandhi: state.toneSandhi,
         showHskIndicators: state.showHskIndicators,
+        glossDisplay: state.glossDisplay,
         chineseVersion: state.chineseVersion,
         englishVersion: state.englishVersion,
+        parallelTranslation: state.parallelTranslation,
+        copyFormat: state.copyFormat,
         audioSpeed: state.audioSpeed,
         ambientMusicEnabled: state.ambientMusicEnabled,
+        enabledCardDirections: state.enabledCardDirections,
+        clozeSeparateSchedule: state.clozeSeparateSchedule,
         lastReadingPosition: state.lastReadingPosition,
       }),
       (settings) => {
@@ -887,14 +1100,57 @@ export function useSyncManager() {
       { equalityFn: (a, b) => a === b }
     );
 
+    // Subscribe to collection changes (create, rename, delete)
+    const unsubBookmarkCollections = useBookmarkStore.subscribe(
+      (state) => state.collections,
+      (collections) => {
+        debouncedSync('bookmarkCollections', () =>
+          firestoreSync.syncBookmarkCollectionsToCloud(userId, { names: collections })
+        );
+      }
+    );
+
+    // Subscribe to known-word marks
+    const unsubKnownWords = useKnownWordsStore.subscribe(
+      (state) => state.marks,
+      (marks) => {
+        debouncedSync('knownWords', () =>
+          firestoreSync.syncKnownWordsToCloud(userId, { marks })
+        );
+      }
+    );
+
+    // Subscribe to highlight changes (add, recolor, note edits, removal)
+    const unsubHighlights = useHighlightStore.subscribe(
+      (state) => state.highlights,
+      (highlights) => {
+        // Track the latest state so the debounced sync always applies the newest snapshot.
+        pendingHighlightsRef.current = highlights;
+        debouncedSync('highlights', syncHighlightsToCloudDiff);
+      }
+    );
+
+    // Subscribe to journal changes (new entries, edits, linked passages, removal)
+    const unsubJournal = useJournalStore.subscribe(
+      (state) => state.entries,
+      (entries) => {
+        pendingJournalRef.current = entries;
+        debouncedSync('journal', syncJournalToCloudDiff);
+      }
+    );
+
     // Cleanup subscriptions
     return () => {
       unsubVocab();
       unsubBookmarks();
+      unsubBookmarkCollections();
       unsubHistory();
       unsubSettings();
       unsubReadingPlans();
       unsubProgress();
+      unsubKnownWords();
+      unsubHighlights();
+      unsubJournal();
     };
   }, [isAuthenticated, user?.uid]);
 }
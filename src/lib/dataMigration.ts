@@ -3,7 +3,10 @@ import type { ReadingPlansData, ProgressData } from './firebaseSync';
 import type { SavedWord } from '../types/vocabulary';
 import type { Bookmark } from '../stores/bookmarkStore';
 import type { PassageEntry } from '../stores/historyStore';
+import { MAX_SEEN_IN } from '../stores/vocabularyStore';
 import type { Settings } from '../types';
+import { isSameVerse } from '../utils/wordContexts';
+import { trimReviewLog } from '../utils/reviewAnalytics';
 
 // Local storage keys used by the app
 const STORAGE_KEYS = {
@@ -297,3 +300,44 @@ export function mergeData<T extends { id?: string; updatedAt?: number; createdAt
 
   return Array.from(merged.values());
 }
+
+function sameIds(a: { id: string }[], b: { id: string }[]): boolean {
+  return a.length === b.length && a.every((entry, index) => entry.id === b[index].id);
+}
+
+// Merge vocabulary like mergeData, but keep review logs and "seen in" verses
+// from both sides so activity on different devices between syncs is not lost
+export function mergeVocabulary(cloudWords: SavedWord[], localWords: SavedWord[]): SavedWord[] {
+  const cloudById = new Map(cloudWords.map((word) => [word.id, word]));
+  const localById = new Map(localWords.map((word) => [word.id, word]));
+
+  return mergeData(cloudWords, localWords).map((word) => {
+    const cloud = cloudById.get(word.id);
+    const local = localById.get(word.id);
+    if (!cloud || !local) return word;
+
+    const entries = new Map(
+      [...(cloud.reviewLog ?? []), ...(local.reviewLog ?? [])].map((entry) => [entry.id, entry])
+    );
+    const reviewLog = trimReviewLog(Array.from(entries.values()).sort((a, b) => a.timestamp - b.timestamp));
+
+    const seenIn = [...(cloud.seenIn ?? []), ...(local.seenIn ?? [])]
+      .filter((ref, index, all) => all.findIndex((other) => isSameVerse(other, ref)) === index)
+      .slice(-MAX_SEEN_IN);
+
+    if (
+      sameIds(reviewLog, word.reviewLog ?? []) &&
+      seenIn.length === (word.seenIn?.length ?? 0) &&
+      seenIn.every((ref, index) => isSameVerse(ref, word.seenIn![index]))
+    ) {
+      return word;
+    }
+    // Bump updatedAt so the combined data is written back to the cloud
+    return {
+      ...word,
+      ...(reviewLog.length > 0 && { reviewLog }),
+      ...(seenIn.length > 0 && { seenIn }),
+      updatedAt: Date.now(),
+    };
+  });
+}
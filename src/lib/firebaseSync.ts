@@ -11,7 +11,9 @@ import {
   type Unsubscribe,
 } from 'firebase/firestore';
 import { db } from './firebase';
-import type { SavedWord } from '../types/vocabulary';
+import type { SavedWord, KnownWordMark } from '../types/vocabulary';
+import type { Highlight } from '../types/highlights';
+import type { JournalEntry } from '../types/journal';
 import type { Bookmark } from '../stores/bookmarkStore';
 import type { PassageEntry } from '../stores/historyStore';
 import type { Settings } from '../types';
@@ -33,14 +35,28 @@ export interface ProgressData {
   dailyHistory: DailyReading[];
 }
 
+// Known-word marks for Firestore
+export interface KnownWordsData {
+  marks: Record<string, KnownWordMark>;
+}
+
+// Bookmark collection names for Firestore (bookmarks carry the ones in use)
+export interface BookmarkCollectionsData {
+  names: string[];
+}
+
 // Firestore collection paths
 const getUserPath = (uid: string) => `users/${uid}`;
 const getVocabularyPath = (uid: string) => `${getUserPath(uid)}/vocabulary`;
 const getBookmarksPath = (uid: string) => `${getUserPath(uid)}/bookmarks`;
+const getBookmarkCollectionsPath = (uid: string) => `${getUserPath(uid)}/bookmarkCollections`;
 const getHistoryPath = (uid: string) => `${getUserPath(uid)}/history`;
 const getSettingsPath = (uid: string) => `${getUserPath(uid)}/settings`;
 const getReadingPlansPath = (uid: string) => `${getUserPath(uid)}/readingPlans`;
 const getProgressPath = (uid: string) => `${getUserPath(uid)}/progress`;
+const getKnownWordsPath = (uid: string) => `${getUserPath(uid)}/knownWords`;
+const getHighlightsPath = (uid: string) => `${getUserPath(uid)}/highlights`;
+const getJournalPath = (uid: string) => `${getUserPath(uid)}/journal`;
 
 // Generic sync functions
 export class FirestoreSync {
@@ -307,6 +323,156 @@ export class FirestoreSync {
     return unsubscribe;
   }
 
+  // Highlights sync
+  async applyHighlightMutations(
+    uid: string,
+    mutations: { upserts?: Highlight[]; deletes?: string[] }
+  ): Promise<void> {
+    if (!db) throw new Error('Firestore not initialized');
+
+    const highlightsPath = getHighlightsPath(uid);
+    const upserts = mutations.upserts ?? [];
+    const deletes = mutations.deletes ?? [];
+    if (upserts.length === 0 && deletes.length === 0) return;
+
+    let batch = writeBatch(db);
+    let opCount = 0;
+
+    const commit = async () => {
+      if (opCount === 0) return;
+      await batch.commit();
+      batch = writeBatch(db);
+      opCount = 0;
+    };
+
+    for (const highlight of upserts) {
+      const highlightRef = doc(db, highlightsPath, highlight.id);
+      batch.set(highlightRef, FirestoreSync.sanitizeFirestoreData(highlight));
+      opCount += 1;
+      if (opCount >= MAX_BATCH_OPS) {
+        await commit();
+      }
+    }
+
+    for (const highlightId of deletes) {
+      const highlightRef = doc(db, highlightsPath, highlightId);
+      batch.delete(highlightRef);
+      opCount += 1;
+      if (opCount >= MAX_BATCH_OPS) {
+        await commit();
+      }
+    }
+
+    await commit();
+  }
+
+  async loadHighlightsFromCloud(uid: string): Promise<Highlight[]> {
+    if (!db) throw new Error('Firestore not initialized');
+
+    const highlightsCollection = collection(db, getHighlightsPath(uid));
+    const snapshot = await getDocs(highlightsCollection);
+
+    return snapshot.docs.map((docSnapshot) => ({
+      ...(docSnapshot.data() as Highlight),
+      id: docSnapshot.id,
+    }));
+  }
+
+  subscribeToHighlights(
+    uid: string,
+    callback: (highlights: Highlight[]) => void
+  ): Unsubscribe {
+    if (!db) throw new Error('Firestore not initialized');
+
+    const highlightsCollection = collection(db, getHighlightsPath(uid));
+
+    const unsubscribe = onSnapshot(query(highlightsCollection), (snapshot) => {
+      const highlights = snapshot.docs.map((docSnapshot) => ({
+        ...(docSnapshot.data() as Highlight),
+        id: docSnapshot.id,
+      }));
+      callback(highlights);
+    });
+
+    this.unsubscribers.push(unsubscribe);
+    return unsubscribe;
+  }
+
+  // Journal sync
+  async applyJournalMutations(
+    uid: string,
+    mutations: { upserts?: JournalEntry[]; deletes?: string[] }
+  ): Promise<void> {
+    if (!db) throw new Error('Firestore not initialized');
+
+    const journalPath = getJournalPath(uid);
+    const upserts = mutations.upserts ?? [];
+    const deletes = mutations.deletes ?? [];
+    if (upserts.length === 0 && deletes.length === 0) return;
+
+    let batch = writeBatch(db);
+    let opCount = 0;
+
+    const commit = async () => {
+      if (opCount === 0) return;
+      await batch.commit();
+      batch = writeBatch(db);
+      opCount = 0;
+    };
+
+    for (const entry of upserts) {
+      const entryRef = doc(db, journalPath, entry.id);
+      batch.set(entryRef, FirestoreSync.sanitizeFirestoreData(entry));
+      opCount += 1;
+      if (opCount >= MAX_BATCH_OPS) {
+        await commit();
+      }
+    }
+
+    for (const entryId of deletes) {
+      const entryRef = doc(db, journalPath, entryId);
+      batch.delete(entryRef);
+      opCount += 1;
+      if (opCount >= MAX_BATCH_OPS) {
+        await commit();
+      }
+    }
+
+    await commit();
+  }
+
+  async loadJournalFromCloud(uid: string): Promise<JournalEntry[]> {
+    if (!db) throw new Error('Firestore not initialized');
+
+    const journalCollection = collection(db, getJournalPath(uid));
+    const snapshot = await getDocs(journalCollection);
+
+    return snapshot.docs.map((docSnapshot) => ({
+      ...(docSnapshot.data() as JournalEntry),
+      id: docSnapshot.id,
+    }));
+  }
+
+  subscribeToJournal(
+    uid: string,
+    callback: (entries: JournalEntry[]) => void
+  ): Unsubscribe {
+    if (!db) throw new Error('Firestore not initialized');
+
+    const journalCollection = collection(db, getJournalPath(uid));
+
+    const unsubscribe = onSnapshot(query(journalCollection), (snapshot) => {
+      const entries = snapshot.docs.map((docSnapshot) => ({
+        ...(docSnapshot.data() as JournalEntry),
+        id: docSnapshot.id,
+      }));
+      callback(entries);
+    });
+
+    this.unsubscribers.push(unsubscribe);
+    return unsubscribe;
+  }
+
   // History sync
   async syncHistoryToCloud(uid: string, entries: PassageEntry[]): Promise<void> {
     if (!db) throw new Error('Firestore not initialized');
@@ -479,6 +645,81 @@ export class FirestoreSync {
     return unsubscribe;
   }
 
+  // Known words sync
+  async syncKnownWordsToCloud(uid: string, data: KnownWordsData): Promise<void> {
+    if (!db) throw new Error('Firestore not initialized');
+
+    const knownWordsRef = doc(db, getKnownWordsPath(uid), 'user_known_words');
+    await setDoc(knownWordsRef, data);
+  }
+
+  async loadKnownWordsFromCloud(uid: string): Promise<KnownWordsData | null> {
+    if (!db) throw new Error('Firestore not initialized');
+
+    const knownWordsRef = doc(db, getKnownWordsPath(uid), 'user_known_words');
+    const snapshot = await getDoc(knownWordsRef);
+
+    if (snapshot.exists()) {
+      return snapshot.data() as KnownWordsData;
+    }
+
+    return null;
+  }
+
+  subscribeToKnownWords(uid: string, callback: (data: KnownWordsData) => void): Unsubscribe {
+    if (!db) throw new Error('Firestore not initialized');
+
+    const knownWordsRef = doc(db, getKnownWordsPath(uid), 'user_known_words');
+
+    const unsubscribe = onSnapshot(knownWordsRef, (snapshot) => {
+      if (snapshot.exists()) {
+        callback(snapshot.data() as KnownWordsData);
+      }
+    });
+
+    this.unsubscribers.push(unsubscribe);
+    return unsubscribe;
+  }
+
+  // Bookmark collections sync
+  async syncBookmarkCollectionsToCloud(uid: string, data: BookmarkCollectionsData): Promise<void> {
+    if (!db) throw new Error('Firestore not initialized');
+
+    const collectionsRef = doc(db, getBookmarkCollectionsPath(uid), 'user_collections');
+    await setDoc(collectionsRef, data);
+  }
+
+  async loadBookmarkCollectionsFromCloud(uid: string): Promise<BookmarkCollectionsData | null> {
+    if (!db) throw new Error('Firestore not initialized');
+
+    const collectionsRef = doc(db, getBookmarkCollectionsPath(uid), 'user_collections');
+    const snapshot = await getDoc(collectionsRef);
+
+    if (snapshot.exists()) {
+      return snapshot.data() as BookmarkCollectionsData;
+    }
+
+    return null;
+  }
+
+  subscribeToBookmarkCollections(
+    uid: string,
+    callback: (data: BookmarkCollectionsData) => void
+  ): Unsubscribe {
+    if (!db) throw new Error('Firestore not initialized');
+
+    const collectionsRef = doc(db, getBookmarkCollectionsPath(uid), 'user_collections');
+
+    const unsubscribe = onSnapshot(collectionsRef, (snapshot) => {
+      if (snapshot.exists()) {
+        callback(snapshot.data() as BookmarkCollectionsData);
+      }
+    });
+
+    this.unsubscribers.push(unsubscribe);
+    return unsubscribe;
+  }
+
   // User profile
   async updateUserProfile(
     uid: string,
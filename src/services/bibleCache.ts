@@ -89,6 +89,13 @@ db.version(2).stores({
 // Cache expiry time (7 days)
 const CACHE_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000;
 
+// Bump when the fields mapped from preprocessed data change; older entries are refetched
+const PREPROCESSED_CACHE_VERSION = 'ncv-preprocessed-2';
+
+function isOutdatedPreprocessed(cached: CachedChapter): boolean {
+  return cached.version.startsWith('ncv-preprocessed') && cached.version !== PREPROCESSED_CACHE_VERSION;
+}
+
 /**
  * Get chapter from cache or fetch from API
  * Returns the appropriate character set version (Traditional or Simplified)
@@ -121,7 +128,7 @@ export async function getChapter(
         // Check if cache has both versions (not legacy format)
         const hasBothVersions = cached.versesTraditional && cached.versesSimplified;
 
-        if (!isExpired && hasBothVersions) {
+        if (!isExpired && hasBothVersions && !isOutdatedPreprocessed(cached)) {
           // Self-heal: if the stored "traditional" text is actually Simplified, repair it once.
           // This can happen if a user cached chapters under an older buggy build.
           if (looksLikeSimplified(cached.versesTraditional)) {
@@ -155,7 +162,7 @@ export async function getChapter(
             verses: selectVerses(cached),
           };
         }
-        // If legacy format or expired, refetch
+        // If legacy format, outdated or expired, refetch
       }
     } catch (error) {
       console.warn('Cache read error:', error);
@@ -177,7 +184,7 @@ export async function getChapter(
           chapter: chapterNum,
           versesTraditional,
           versesSimplified,
-          version: 'ncv-preprocessed',
+          version: PREPROCESSED_CACHE_VERSION,
           cachedAt: Date.now(),
         });
       } catch (error) {
@@ -277,7 +284,12 @@ export async function prefetchAdjacentChapters(
         const cached = await db.chapters.get(cacheKey);
         // Check if cache exists AND has both versions (not legacy)
         const hasBothVersions = cached?.versesTraditional && cached?.versesSimplified;
-        if (!cached || !hasBothVersions || Date.now() - cached.cachedAt > CACHE_EXPIRY_MS) {
+        if (
+          !cached ||
+          !hasBothVersions ||
+          isOutdatedPreprocessed(cached) ||
+          Date.now() - cached.cachedAt > CACHE_EXPIRY_MS
+        ) {
           await getChapter(bookId, chap);
         }
       } catch {
@@ -0,0 +1,242 @@
+/**
+ * Chapter difficulty - how hard a chapter is for the learner's reading level
+ *
+ * Scores come from the prebuilt chapter statistics (see src/data/chapterStats.ts):
+ * - the share of running words above the reading level (words that get pinyin)
+ * - the number of distinct words
+ * - the number of those the learner has never saved or marked as known
+ *
+ * Names and biblical terms always get pinyin, so even easy chapters have a fair
+ * share of words above the level. Tiers are therefore relative: a chapter is
+ * easy or hard compared with the rest of the Bible at the same level.
+ */
+
+import type { KnownWordMark, PinyinLevel, ProficiencySystem, SavedWord } from '../types';
+import { getProficiencyLevel, shouldShowPinyin } from '../types';
+import { BIBLE_BOOKS, getBookIndex } from '../data/bible/books';
+import {
+  CHAPTER_STATS_PATH,
+  parseWordLevelKey,
+  type BookWordList,
+  type ChapterStatsSummary,
+} from '../data/chapterStats';
+import { getKnownWordKey, getVocabularyFamiliarity } from '../utils/knownWords';
+
+export type DifficultyTier = 'easy' | 'moderate' | 'hard';
+
+export interface ChapterDifficulty extends WordCounts {
+  runningWords: number;
+  aboveLevelShare: number; // 0-1
+}
+
+export interface WordCounts {
+  uniqueWords: number;
+  newWords: number;
+}
+
+export interface DifficultyScale {
+  aboveLevel: boolean[]; // Per level key in the summary: above the reading level?
+  easyShare: number; // Chapters up to this share are the easiest quarter
+  hardShare: number; // Chapters from this share on are the hardest quarter
+}
+
+export interface ChapterRecommendation {
+  bookId: string;
+  chapter: number;
+  aboveLevelShare: number;
+}
+
+// Keep the in-flight promises so concurrent callers share one request
+let summaryCache: Promise<ChapterStatsSummary> | null = null;
+const wordListCache = new Map<string, Promise<BookWordList>>();
+
+function fetchJson<T>(url: string): Promise<T> {
+  return fetch(url).then((response) => {
+    if (!response.ok) {
+      throw new Error(`Chapter statistics not available (${response.status})`);
+    }
+    return response.json() as Promise<T>;
+  });
+}
+
+export function loadChapterStatsSummary(): Promise<ChapterStatsSummary> {
+  if (!summaryCache) {
+    summaryCache = fetchJson<ChapterStatsSummary>(`${CHAPTER_STATS_PATH}/summary.json`);
+    // Allow a retry after a failed request
+    summaryCache.catch(() => {
+      summaryCache = null;
+    });
+  }
+  return summaryCache;
+}
+
+export function loadBookWordList(bookId: string): Promise<BookWordList> {
+  let cached = wordListCache.get(bookId);
+  if (!cached) {
+    cached = fetchJson<BookWordList>(`${CHAPTER_STATS_PATH}/${bookId}.json`);
+    cached.catch(() => wordListCache.delete(bookId));
+    wordListCache.set(bookId, cached);
+  }
+  return cached;
+}
+
+/** Running words and how many of them are above the level, for one chapter's flat counts */
+function countRunningWords(counts: number[], aboveLevel: boolean[]): { total: number; above: number } {
+  let total = 0;
+  let above = 0;
+  for (let i = 0; i < counts.length; i += 2) {
+    total += counts[i + 1];
+    if (aboveLevel[counts[i]]) above += counts[i + 1];
+  }
+  return { total, above };
+}
+
+function getShare(counts: number[], aboveLevel: boolean[]): number {
+  const { total, above } = countRunningWords(counts, aboveLevel);
+  return total > 0 ? above / total : 0;
+}
+
+/**
+ * Which words are above the reading level, and the quartiles of chapter shares
+ * at that level. Null when the level shows pinyin for every word or for none,
+ * so all chapters score the same.
+ */
+export function getDifficultyScale(
+  summary: ChapterStatsSummary,
+  pinyinLevel: PinyinLevel,
+  proficiencySystem: ProficiencySystem
+): DifficultyScale | null {
+  const aboveLevel = summary.levels.map((key) => {
+    const level = parseWordLevelKey(key);
+    return shouldShowPinyin(
+      pinyinLevel,
+      proficiencySystem,
+      getProficiencyLevel(level, proficiencySystem),
+      level.freq
+    );
+  });
+
+  const shares = Object.values(summary.books)
+    .flatMap((chapters) => chapters.map((counts) => getShare(counts, aboveLevel)))
+    .sort((a, b) => a - b);
+  if (shares.length === 0 || shares[0] === shares[shares.length - 1]) return null;
+
+  return {
+    aboveLevel,
+    easyShare: shares[Math.floor(shares.length / 4)],
+    hardShare: shares[Math.floor((shares.length * 3) / 4)],
+  };
+}
+
+export function getChapterAboveLevelShare(
+  summary: ChapterStatsSummary,
+  scale: DifficultyScale,
+  bookId: string,
+  chapter: number
+): number {
+  const counts = summary.books[bookId]?.[chapter - 1];
+  return counts ? getShare(counts, scale.aboveLevel) : 0;
+}
+
+/** Share of the whole book's running words above the level */
+export function getBookAboveLevelShare(
+  summary: ChapterStatsSummary,
+  scale: DifficultyScale,
+  bookId: string
+): number {
+  let total = 0;
+  let above = 0;
+  for (const counts of summary.books[bookId] ?? []) {
+    const chapter = countRunningWords(counts, scale.aboveLevel);
+    total += chapter.total;
+    above += chapter.above;
+  }
+  return total > 0 ? above / total : 0;
+}
+
+/**
+ * Distinct words and how many are new: above the level, and neither saved
+ * nor marked as known
+ */
+function countWords(
+  words: string[],
+  wordList: BookWordList,
+  scale: DifficultyScale,
+  vocabulary: SavedWord[],
+  knownMarks: Record<string, KnownWordMark>
+): WordCounts {
+  const newWords = words.filter(
+    (word) =>
+      scale.aboveLevel[wordList.levels[word]] &&
+      !knownMarks[getKnownWordKey(word)]?.familiarity &&
+      !getVocabularyFamiliarity(vocabulary, word)
+  ).length;
+  return { uniqueWords: words.length, newWords };
+}
+
+/** Full difficulty for every chapter of a book */
+export function getBookChapterDifficulties(
+  summary: ChapterStatsSummary,
+  scale: DifficultyScale,
+  bookId: string,
+  wordList: BookWordList,
+  vocabulary: SavedWord[],
+  knownMarks: Record<string, KnownWordMark>
+): ChapterDifficulty[] {
+  return (summary.books[bookId] ?? []).map((counts, index) => {
+    const { total, above } = countRunningWords(counts, scale.aboveLevel);
+    return {
+      runningWords: total,
+      aboveLevelShare: total > 0 ? above / total : 0,
+      ...countWords(wordList.chapters[index] ?? [], wordList, scale, vocabulary, knownMarks),
+    };
+  });
+}
+
+/** Distinct and new words across a whole book */
+export function getBookWordCounts(
+  scale: DifficultyScale,
+  wordList: BookWordList,
+  vocabulary: SavedWord[],
+  knownMarks: Record<string, KnownWordMark>
+): WordCounts {
+  return countWords(Object.keys(wordList.levels), wordList, scale, vocabulary, knownMarks);
+}
+
+export function getDifficultyTier(aboveLevelShare: number, scale: DifficultyScale): DifficultyTier {
+  if (aboveLevelShare <= scale.easyShare) return 'easy';
+  if (aboveLevelShare < scale.hardShare) return 'moderate';
+  return 'hard';
+}
+
+/**
+ * Next chapter to read at this level: the first unread easy chapter after the
+ * current one (wrapping around the Bible), otherwise the easiest unread
+ * chapter. Null once every other chapter has been read.
+ */
+export function recommendNextChapter(
+  summary: ChapterStatsSummary,
+  scale: DifficultyScale,
+  chaptersCompleted: Set<string>, // "bookId:chapter"
+  currentBookId: string,
+  currentChapter: number
+): ChapterRecommendation | null {
+  const startBook = Math.max(getBookIndex(currentBookId), 0);
+  let easiest: ChapterRecommendation | null = null;
+
+  for (let offset = 0; offset <= BIBLE_BOOKS.length; offset++) {
+    const book = BIBLE_BOOKS[(startBook + offset) % BIBLE_BOOKS.length];
+    // The current book is visited twice: after the current chapter, then before it
+    const firstChapter = offset === 0 ? currentChapter + 1 : 1;
+    const lastChapter = offset === BIBLE_BOOKS.length ? currentChapter - 1 : book.chapterCount;
+
+    for (let chapter = firstChapter; chapter <= lastChapter; chapter++) {
+      if (chaptersCompleted.has(`${book.id}:${chapter}`)) continue;
+      const aboveLevelShare = getChapterAboveLevelShare(summary, scale, book.id, chapter);
+      const candidate = { bookId: book.id, chapter, aboveLevelShare };
+      if (getDifficultyTier(aboveLevelShare, scale) === 'easy') return candidate;
+      if (!easiest || aboveLevelShare < easiest.aboveLevelShare) easiest = candidate;
+    }
+  }
+  return easiest;
+}
@@ -0,0 +1,61 @@
+/**
+ * Concordance - every verse containing a segmented word
+ *
+ * Looks words up in the prebuilt inverted word index (see src/data/wordIndex.ts)
+ * rather than scanning chapter text, so matches follow word segmentation:
+ * 恩典 does not match inside an unrelated longer word.
+ */
+
+import type { VerseReference } from '../types';
+import {
+  WORD_INDEX_PATH,
+  getWordIndexShard,
+  type WordIndexShard,
+} from '../data/wordIndex';
+import { toTraditional } from '../utils/characterConversion';
+
+export interface ConcordanceBook {
+  bookId: string;
+  references: VerseReference[];
+}
+
+// Shards are small and reused across lookups; keep the in-flight promise so
+// concurrent lookups share one request
+const shardCache = new Map<number, Promise<WordIndexShard>>();
+
+function loadShard(shard: number): Promise<WordIndexShard> {
+  let cached = shardCache.get(shard);
+  if (!cached) {
+    cached = fetch(`${WORD_INDEX_PATH}/${shard}.json`).then((response) => {
+      if (!response.ok) {
+        throw new Error(`Word index shard ${shard} not available (${response.status})`);
+      }
+      return response.json() as Promise<WordIndexShard>;
+    });
+    // Allow a retry after a failed request
+    cached.catch(() => shardCache.delete(shard));
+    shardCache.set(shard, cached);
+  }
+  return cached;
+}
+
+/**
+ * Every verse containing the word, grouped by book in canonical order.
+ * Accepts Simplified or Traditional input (the index is Traditional).
+ */
+export async function getWordOccurrences(chinese: string): Promise<ConcordanceBook[]> {
+  const word = toTraditional(chinese.trim());
+  if (!word) return [];
+
+  const shard = await loadShard(getWordIndexShard(word));
+  const books = shard[word];
+  if (!books) return [];
+
+  return Object.entries(books).map(([bookId, positions]) => {
+    const references: VerseReference[] = [];
+    for (let i = 0; i < positions.length; i += 2) {
+      references.push({ bookId, chapter: positions[i], verse: positions[i + 1] });
+    }
+    return { bookId, references };
+  });
+}
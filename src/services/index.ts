@@ -5,3 +5,6 @@ export * from './ttsService';
 export * from './searchService';
 export * from './feedbackService';
 export * from './audioMixer';
+export * from './concordanceService';
+export * from './searchQuery';
+export * from './chapterDifficulty';
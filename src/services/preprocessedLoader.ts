@@ -18,6 +18,9 @@ interface PreprocessedWord {
   pinyin: string;
   definition: string;
   pos?: string;                    // Part of speech code
+  hskLevel?: number | null;        // Added by scripts/add-proficiency-levels.ts
+  hsk3Level?: number | null;
+  tocflLevel?: number | null;
   isName?: boolean;
   nameType?: 'person' | 'place' | 'group';
   breakdown?: PreprocessedCharBreakdown[];
@@ -190,6 +193,19 @@ export async function loadPreprocessedChapter(
   }
 }
 
+/**
+ * Load a single preprocessed verse (with its segmented words)
+ * Returns null if the chapter or verse isn't available
+ */
+export async function loadPreprocessedVerse(
+  bookId: string,
+  chapter: number,
+  verseNumber: number
+): Promise<Verse | null> {
+  const verses = await loadPreprocessedChapter(bookId, chapter);
+  return verses?.find((v) => v.number === verseNumber) ?? null;
+}
+
 /**
  * Convert preprocessed chapter to Verse array
  * Maps all enhanced fields from preprocessing to SegmentedWord
@@ -203,6 +219,9 @@ function convertToVerses(chapter: PreprocessedChapter): Verse[] {
       pinyin: word.pinyin || '',
       definition: word.definition || undefined,
       partOfSpeech: word.pos,
+      hskLevel: word.hskLevel,
+      hsk3Level: word.hsk3Level,
+      tocflLevel: word.tocflLevel,
       isName: word.isName,
       nameType: word.nameType,
       breakdown: word.breakdown,
@@ -0,0 +1,243 @@
+// Search Index - Dexie IndexedDB inverted index for full-text search
+//
+// Shared by the main thread (queries) and the search index worker (builds).
+// Each verse row carries its tokens in a multi-entry index, so IndexedDB keeps
+// the token -> verses postings for us and a chapter can be (re)indexed on its
+// own without rewriting any shared posting lists.
+
+import Dexie, { type EntityTable } from 'dexie';
+import { BIBLE_BOOKS, getBookById, getBookIndex } from '../data/bible/books';
+import type { loadTranslation } from '../data/english';
+import { getPinyinTone, splitPinyinSyllables, stripPinyinTone } from '../utils/pinyin';
+import { toSimplified } from '../utils/characterConversion';
+
+// Bump when tokenization changes; chapters indexed under an older version are rebuilt
+export const SEARCH_INDEX_VERSION = 3;
+
+// English translations whose text is indexed alongside the Chinese
+export const INDEXED_TRANSLATIONS = ['bsb', 'kjv'] as const;
+
+export interface SearchIndexVerse {
+  id: number; // See getVerseIndexId - sorts in canonical Bible order
+  bookId: string;
+  chapter: number;
+  verse: number;
+  text: string; // Traditional Chinese, as in the preprocessed data
+  textSimplified: string; // foldChinese(text) - same length, so offsets apply to both
+  english: Record<string, string>; // Translation id -> verse text
+  pinyin: string[]; // Numbered syllable per character, e.g. 'en1'
+  pinyinOffsets: number[]; // Offset in `text` of the character each syllable belongs to
+  tokens: string[];
+}
+
+export interface SearchIndexChapter {
+  id: string; // `${bookId}:${chapter}`
+  bookId: string;
+  chapter: number;
+  version: number;
+  indexedAt: number;
+}
+
+// Loaded English translation data, keyed by translation id
+export type TranslationData = Awaited<ReturnType<typeof loadTranslation>>;
+
+// A verse as stored in the preprocessed chapter files
+export interface IndexSourceVerse {
+  number: number;
+  text: string;
+  words?: Array<{ chinese: string; pinyin?: string }>;
+}
+
+// Messages exchanged with src/workers/searchIndex.worker.ts
+export type SearchIndexWorkerRequest = { type: 'build' };
+
+export type SearchIndexWorkerMessage =
+  | { type: 'progress'; indexed: number; total: number }
+  | { type: 'done'; indexed: number; total: number }
+  | { type: 'error'; message: string };
+
+export const searchIndexDb = new Dexie('BilingualBibleSearch') as Dexie & {
+  verses: EntityTable<SearchIndexVerse, 'id'>;
+  chapters: EntityTable<SearchIndexChapter, 'id'>;
+};
+
+searchIndexDb.version(1).stores({
+  verses: 'id, [bookId+chapter], *tokens',
+  chapters: 'id, bookId, version',
+});
+
+export const TOTAL_CHAPTERS = BIBLE_BOOKS.reduce((sum, book) => sum + book.chapterCount, 0);
+
+/**
+ * Numeric verse key: book order, then chapter, then verse.
+ * Keeps intersected postings sortable without loading the rows.
+ */
+export function getVerseIndexId(bookId: string, chapter: number, verse: number): number {
+  return getBookIndex(bookId) * 1_000_000 + chapter * 1_000 + verse;
+}
+
+/** Book position encoded in a verse key (index into BIBLE_BOOKS) */
+export function getBookIndexFromVerseId(id: number): number {
+  return Math.floor(id / 1_000_000);
+}
+
+/**
+ * Fold Chinese to Simplified so either script matches the other (這/这, 後/后).
+ * Chinese tokens and queries are both folded. The result always has the same
+ * length as the input, so match offsets found in it apply to the original text.
+ */
+export function foldChinese(text: string): string {
+  const folded = toSimplified(text);
+  if (folded.length === text.length) return folded;
+  return Array.from(text, (char) => {
+    const converted = toSimplified(char);
+    return converted.length === char.length ? converted : char;
+  }).join('');
+}
+
+const HAN_RUN = /\p{Script=Han}+/gu;
+const HAN_CHAR = /\p{Script=Han}/u;
+const ENGLISH_WORD = /[a-z0-9]+/g;
+
+/**
+ * Chinese tokens: every character and character bigram within a run of Han
+ * characters (bigrams never span punctuation), plus the segmented words.
+ * Pass folded text and words (see foldChinese).
+ */
+export function tokenizeChinese(text: string, words: string[] = []): string[] {
+  const tokens = new Set<string>();
+  for (const run of text.match(HAN_RUN) ?? []) {
+    const chars = Array.from(run);
+    for (let i = 0; i < chars.length; i++) {
+      tokens.add(chars[i]);
+      if (i + 1 < chars.length) tokens.add(chars[i] + chars[i + 1]);
+    }
+  }
+  for (const word of words) {
+    if (HAN_CHAR.test(word)) tokens.add(word);
+  }
+  return [...tokens];
+}
+
+/**
+ * Tokens to look up for a Chinese query: its bigrams, or the character itself
+ * for a one-character query. Candidates still need a substring check.
+ */
+export function getChineseQueryTokens(query: string): string[] {
+  const tokens = new Set<string>();
+  for (const run of query.match(HAN_RUN) ?? []) {
+    const chars = Array.from(run);
+    if (chars.length === 1) tokens.add(chars[0]);
+    for (let i = 0; i + 1 < chars.length; i++) tokens.add(chars[i] + chars[i + 1]);
+  }
+  return [...tokens];
+}
+
+/** Lowercased English words; apostrophes and hyphens split words */
+export function tokenizeEnglish(text: string): string[] {
+  return text.toLowerCase().match(ENGLISH_WORD) ?? [];
+}
+
+/**
+ * Line each segmented word's pinyin up with its characters in the verse text.
+ * Words whose pinyin doesn't split into one syllable per character are skipped.
+ */
+export function alignVersePinyin(
+  text: string,
+  words: Array<{ chinese: string; pinyin?: string }>
+): { pinyin: string[]; pinyinOffsets: number[] } {
+  const pinyin: string[] = [];
+  const pinyinOffsets: number[] = [];
+  let cursor = 0;
+
+  for (const word of words) {
+    if (!word.pinyin || !HAN_CHAR.test(word.chinese)) continue;
+    const start = text.indexOf(word.chinese, cursor);
+    if (start === -1) continue;
+    cursor = start + word.chinese.length;
+
+    const chars = Array.from(word.chinese);
+    const syllables = splitPinyinSyllables(word.pinyin, chars.length);
+    if (syllables.length !== chars.length) continue;
+
+    let offset = start;
+    chars.forEach((char, index) => {
+      pinyin.push(`${stripPinyinTone(syllables[index])}${getPinyinTone(syllables[index])}`);
+      pinyinOffsets.push(offset);
+      offset += char.length;
+    });
+  }
+  return { pinyin, pinyinOffsets };
+}
+
+/** Split a numbered syllable ('en1') into its base and tone */
+export function splitNumberedSyllable(syllable: string): { base: string; tone: number } {
+  return { base: syllable.slice(0, -1), tone: Number(syllable.slice(-1)) };
+}
+
+/** Whether the character at `offset` is directly followed by the one at `nextOffset` */
+export function areAdjacentOffsets(text: string, offset: number, nextOffset: number): boolean {
+  return offset + (text.codePointAt(offset)! > 0xffff ? 2 : 1) === nextOffset;
+}
+
+/**
+ * Pinyin tokens (prefixed so they never collide with English words): each
+ * syllable with and without its tone, plus toneless bigrams of adjacent characters.
+ */
+export function tokenizePinyin(text: string, pinyin: string[], pinyinOffsets: number[]): string[] {
+  const tokens = new Set<string>();
+  pinyin.forEach((syllable, index) => {
+    const { base } = splitNumberedSyllable(syllable);
+    tokens.add(`py:${base}`);
+    tokens.add(`py:${syllable}`);
+    const next = pinyin[index + 1];
+    if (next && areAdjacentOffsets(text, pinyinOffsets[index], pinyinOffsets[index + 1])) {
+      tokens.add(`py:${base}+${splitNumberedSyllable(next).base}`);
+    }
+  });
+  return [...tokens];
+}
+
+/**
+ * Build the index row for one verse: folded text, aligned pinyin, English text
+ * from each loaded translation, and the tokens for all three.
+ */
+export function createIndexVerse(
+  bookId: string,
+  chapter: number,
+  verse: IndexSourceVerse,
+  translations: Map<string, TranslationData>
+): SearchIndexVerse {
+  const englishName = getBookById(bookId)?.name.english ?? bookId;
+  const english: Record<string, string> = {};
+  const textSimplified = foldChinese(verse.text);
+  const { pinyin, pinyinOffsets } = alignVersePinyin(verse.text, verse.words ?? []);
+  const tokens = new Set([
+    ...tokenizeChinese(textSimplified, verse.words?.map((word) => foldChinese(word.chinese))),
+    ...tokenizePinyin(verse.text, pinyin, pinyinOffsets),
+  ]);
+
+  for (const [version, translation] of translations) {
+    const text = translation?.[englishName]?.[chapter]?.[verse.number];
+    if (!text) continue;
+    english[version] = text;
+    for (const token of tokenizeEnglish(text)) tokens.add(token);
+  }
+
+  return {
+    id: getVerseIndexId(bookId, chapter, verse.number),
+    bookId,
+    chapter,
+    verse: verse.number,
+    text: verse.text,
+    textSimplified,
+    english,
+    pinyin,
+    pinyinOffsets,
+    tokens: [...tokens],
+  };
+}
+
+export function containsHan(text: string): boolean {
+  return HAN_CHAR.test(text);
+}
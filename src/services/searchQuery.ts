@@ -0,0 +1,184 @@
+/**
+ * Search query language
+ *
+ *   愛 AND 信心        both terms (AND is also implied between separate terms)
+ *   "永生"             exact phrase
+ *   -律法              exclude verses containing a term
+ *   愛 NEAR/5 神       terms within 5 characters (or English words) of each other
+ *   in:gospels         limit to a scope - see resolveBookScope in data/bookCategories.ts
+ *
+ * Each term is a single word or a quoted phrase: "-", NEAR/n and AND bind to
+ * the one word or phrase beside them. Bare pinyin syllables in a row count as
+ * one word, so en dian is a single pinyin sequence; quote an English phrase
+ * ("son of man") to keep its words together.
+ */
+
+import { resolveBookScope } from '../data/bookCategories';
+import { parsePinyinQuery } from '../utils/pinyin';
+
+export interface SearchTerm {
+  text: string;
+  exact: boolean; // Quoted: English words must match whole, not as prefixes
+}
+
+export type SearchClause =
+  | { kind: 'term'; term: SearchTerm }
+  | { kind: 'near'; terms: SearchTerm[]; distances: number[] }; // distances[i] links terms[i] and terms[i + 1]
+
+export interface ParsedSearchQuery {
+  clauses: SearchClause[]; // Every clause must match
+  exclude: SearchTerm[]; // No excluded term may match
+  scopeBookIds: string[] | null; // Union of in: scopes, null when unscoped
+}
+
+export class SearchQueryError extends Error {
+  readonly position: number; // Offset in the query where the problem was found
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'SearchQueryError';
+    this.position = position;
+  }
+}
+
+type Token =
+  | { type: 'word'; text: string; position: number }
+  | { type: 'phrase'; text: string; position: number }
+  | { type: 'minus'; position: number }
+  | { type: 'and'; position: number }
+  | { type: 'near'; distance: number; position: number }
+  | { type: 'scope'; bookIds: string[]; position: number };
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '"' || char === '“' || char === '”') {
+      const close = query.slice(i + 1).search(/["“”]/);
+      if (close === -1) throw new SearchQueryError('Missing closing quote', i);
+      const text = query.slice(i + 1, i + 1 + close).trim();
+      if (!text) throw new SearchQueryError('Empty phrase', i);
+      tokens.push({ type: 'phrase', text, position: i });
+      i += close + 2;
+      continue;
+    }
+
+    if (char === '-') {
+      if (i + 1 >= query.length || /\s/.test(query[i + 1])) {
+        throw new SearchQueryError("Nothing to exclude after '-'", i);
+      }
+      tokens.push({ type: 'minus', position: i });
+      i++;
+      continue;
+    }
+
+    const start = i;
+    while (i < query.length && !/[\s"“”]/.test(query[i])) i++;
+    const word = query.slice(start, i);
+
+    if (word === 'AND') {
+      tokens.push({ type: 'and', position: start });
+    } else if (word.startsWith('NEAR')) {
+      const distance = word.match(/^NEAR\/(\d+)$/);
+      if (!distance) throw new SearchQueryError('NEAR needs a distance, e.g. NEAR/5', start);
+      tokens.push({ type: 'near', distance: Number(distance[1]), position: start });
+    } else if (/^in:/i.test(word)) {
+      const scope = word.slice(3);
+      if (!scope) throw new SearchQueryError('Missing scope after in:', start);
+      const bookIds = resolveBookScope(scope);
+      if (!bookIds) throw new SearchQueryError(`Unknown scope '${scope}'`, start);
+      tokens.push({ type: 'scope', bookIds, position: start });
+    } else {
+      tokens.push({ type: 'word', text: word, position: start });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Parse a search query. Throws SearchQueryError describing the first problem.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const tokens = tokenize(query);
+  const clauses: SearchClause[] = [];
+  const exclude: SearchTerm[] = [];
+  let scopeBookIds: string[] | null = null;
+  let i = 0;
+
+  const isPinyinWord = (token: Token | undefined): boolean =>
+    token?.type === 'word' && parsePinyinQuery(token.text) !== null;
+
+  // A single word, a run of pinyin syllables or a quoted phrase
+  const readTerm = (): SearchTerm | null => {
+    const token = tokens[i];
+    if (token?.type === 'phrase') {
+      i++;
+      return { text: token.text, exact: true };
+    }
+    if (token?.type === 'word') {
+      i++;
+      const words = [token.text];
+      if (isPinyinWord(token)) {
+        while (isPinyinWord(tokens[i])) {
+          words.push((tokens[i] as { text: string }).text);
+          i++;
+        }
+      }
+      return { text: words.join(' '), exact: false };
+    }
+    return null;
+  };
+
+  while (i < tokens.length) {
+    const token = tokens[i];
+
+    if (token.type === 'scope') {
+      scopeBookIds = [...new Set([...(scopeBookIds ?? []), ...token.bookIds])];
+      i++;
+    } else if (token.type === 'minus') {
+      i++;
+      const term = readTerm();
+      if (!term) throw new SearchQueryError("Nothing to exclude after '-'", token.position);
+      exclude.push(term);
+    } else if (token.type === 'and') {
+      const previous = tokens[i - 1]?.type;
+      const next = tokens[i + 1]?.type;
+      if (!(previous === 'word' || previous === 'phrase') || !(next === 'word' || next === 'phrase' || next === 'minus')) {
+        throw new SearchQueryError('AND needs a term on both sides', token.position);
+      }
+      i++;
+    } else if (token.type === 'near') {
+      throw new SearchQueryError('NEAR needs a term on both sides', token.position);
+    } else {
+      const term = readTerm()!;
+      if (tokens[i]?.type !== 'near') {
+        clauses.push({ kind: 'term', term });
+        continue;
+      }
+
+      const terms = [term];
+      const distances: number[] = [];
+      while (tokens[i]?.type === 'near') {
+        const near = tokens[i] as { distance: number; position: number };
+        i++;
+        const next = readTerm();
+        if (!next) throw new SearchQueryError('NEAR needs a term on both sides', near.position);
+        terms.push(next);
+        distances.push(near.distance);
+      }
+      clauses.push({ kind: 'near', terms, distances });
+    }
+  }
+
+  if (clauses.length === 0) {
+    throw new SearchQueryError('Add a word or phrase to search for', query.length);
+  }
+  return { clauses, exclude, scopeBookIds };
+}
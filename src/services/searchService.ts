@@ -1,4 +1,29 @@
+import type { CharacterSet } from '../types';
 import { BIBLE_BOOKS, getBookById } from '../data/bible/books';
+import { loadTranslation } from '../data/english';
+import {
+  searchIndexDb,
+  SEARCH_INDEX_VERSION,
+  TOTAL_CHAPTERS,
+  getBookIndexFromVerseId,
+  getChineseQueryTokens,
+  foldChinese,
+  tokenizeEnglish,
+  splitNumberedSyllable,
+  areAdjacentOffsets,
+  containsHan,
+  createIndexVerse,
+  type IndexSourceVerse,
+  type SearchIndexVerse,
+  type SearchIndexWorkerMessage,
+} from './searchIndex';
+import { parseSearchQuery, type SearchTerm } from './searchQuery';
+import { parsePinyinQuery, type PinyinQuerySyllable } from '../utils/pinyin';
+
+export interface SearchMatchRange {
+  start: number;
+  end: number;
+}
 
 export interface SearchResult {
   bookId: string;
@@ -8,31 +33,339 @@ export interface SearchResult {
   };
   chapter: number;
   verse: number;
-  text: string;
+  language: SearchLanguage; // Pinyin matches are reported against the Chinese text
+  text: string; // Verse text the match ranges refer to
   matchedText: string;
   matchStart: number;
   matchEnd: number;
+  matches: SearchMatchRange[]; // Every term matched in `text`, in order
 }
 
-interface CachedChapter {
-  bookId: string;
-  chapter: number;
-  verses: Array<{
-    number: number;
-    text: string;
-  }>;
+export type SearchLanguage = 'chinese' | 'pinyin' | 'english';
+
+// 'auto' picks from the query: Han characters search Chinese text, toned pinyin
+// searches pinyin, and toneless pinyin ("man") searches both pinyin and English
+export type SearchMode = 'auto' | SearchLanguage;
+
+export interface SearchOptions {
+  maxResults?: number;
+  bookFilter?: string[];
+  testamentFilter?: 'old' | 'new' | null;
+  mode?: SearchMode;
+  toneSensitive?: boolean; // Tones given in a pinyin query must match (default true)
+  englishVersion?: string; // Translation searched for English queries
+  characterSet?: CharacterSet; // Script of the returned Chinese text and match ranges
+  signal?: AbortSignal; // Stops the search between batches once aborted
+}
+
+// Candidate verses are loaded and verified in pages of this size
+const VERIFY_BATCH_SIZE = 200;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+interface IndexToken {
+  token: string;
+  prefix?: boolean;
+}
+
+interface IndexMatch extends SearchMatchRange {
+  language: SearchLanguage;
+  text: string;
+}
+
+// One way of reading a search term: the index tokens a verse must contain,
+// and the exact check run on each candidate
+interface IndexMatcher {
+  tokens: IndexToken[];
+  matchAll: (row: SearchIndexVerse) => IndexMatch[];
+}
+
+// Chinese verse text in the reader's script; both versions share offsets
+function displayText(row: SearchIndexVerse, characterSet: CharacterSet): string {
+  return characterSet === 'simplified' ? row.textSimplified : row.text;
+}
+
+function createChineseMatcher(query: string, characterSet: CharacterSet): IndexMatcher | null {
+  const foldedQuery = foldChinese(query.replace(/\s+/g, ''));
+  const tokens = getChineseQueryTokens(foldedQuery);
+  if (tokens.length === 0) return null;
+
+  return {
+    tokens: tokens.map((token) => ({ token })),
+    matchAll: (row) => {
+      const text = displayText(row, characterSet);
+      const matches: IndexMatch[] = [];
+      for (
+        let start = row.textSimplified.indexOf(foldedQuery);
+        start !== -1;
+        start = row.textSimplified.indexOf(foldedQuery, start + foldedQuery.length)
+      ) {
+        matches.push({ language: 'chinese', text, start, end: start + foldedQuery.length });
+      }
+      return matches;
+    },
+  };
+}
+
+function createEnglishMatcher(
+  query: string,
+  englishVersion: string,
+  exact: boolean
+): IndexMatcher | null {
+  const words = tokenizeEnglish(query);
+  if (words.length === 0) return null;
+  const phrase = new RegExp(
+    `\\b${words.map(escapeRegExp).join('[^a-z0-9]+')}${exact ? '\\b' : ''}`,
+    'gi'
+  );
+
+  return {
+    // Unless quoted, the last word matches as a prefix so partially typed queries still find verses
+    tokens: words.map((word, index) => ({ token: word, prefix: !exact && index === words.length - 1 })),
+    matchAll: (row) => {
+      const text = row.english[englishVersion] ?? row.english.bsb;
+      if (!text) return [];
+      return Array.from(text.matchAll(phrase), (match) => ({
+        language: 'english' as const,
+        text,
+        start: match.index,
+        end: match.index + match[0].length,
+      }));
+    },
+  };
+}
+
+function createPinyinMatcher(
+  syllables: PinyinQuerySyllable[],
+  toneSensitive: boolean,
+  characterSet: CharacterSet
+): IndexMatcher {
+  const usesTone = (syllable: PinyinQuerySyllable) => toneSensitive && syllable.tone !== null;
+  const tokens = new Set<string>();
+  syllables.forEach((syllable, index) => {
+    if (usesTone(syllable)) tokens.add(`py:${syllable.base}${syllable.tone}`);
+    else if (syllables.length === 1) tokens.add(`py:${syllable.base}`);
+    const next = syllables[index + 1];
+    if (next) tokens.add(`py:${syllable.base}+${next.base}`);
+  });
+
+  return {
+    tokens: [...tokens].map((token) => ({ token })),
+    matchAll: (row) => {
+      const { pinyin, pinyinOffsets } = row;
+      const text = displayText(row, characterSet);
+      const matches: IndexMatch[] = [];
+
+      for (let i = 0; i + syllables.length <= pinyin.length; i++) {
+        const isMatch = syllables.every((wanted, k) => {
+          const { base, tone } = splitNumberedSyllable(pinyin[i + k]);
+          return (
+            base === wanted.base &&
+            (!usesTone(wanted) || tone === wanted.tone) &&
+            (k === 0 || areAdjacentOffsets(row.text, pinyinOffsets[i + k - 1], pinyinOffsets[i + k]))
+          );
+        });
+        if (!isMatch) continue;
+
+        const lastOffset = pinyinOffsets[i + syllables.length - 1];
+        const end = lastOffset + (row.text.codePointAt(lastOffset)! > 0xffff ? 2 : 1);
+        matches.push({ language: 'pinyin', text, start: pinyinOffsets[i], end });
+        i += syllables.length - 1;
+      }
+      return matches;
+    },
+  };
+}
+
+function createMatchers(term: SearchTerm, options: SearchOptions): IndexMatcher[] {
+  const {
+    mode = 'auto',
+    toneSensitive = true,
+    englishVersion = 'bsb',
+    characterSet = 'traditional',
+  } = options;
+
+  if (mode === 'chinese' || (mode === 'auto' && containsHan(term.text))) {
+    const matcher = createChineseMatcher(term.text, characterSet);
+    return matcher ? [matcher] : [];
+  }
+
+  const matchers: IndexMatcher[] = [];
+  const syllables = mode === 'english' ? null : parsePinyinQuery(term.text);
+  if (syllables) matchers.push(createPinyinMatcher(syllables, toneSensitive, characterSet));
+
+  const hasTones = syllables?.some((syllable) => syllable.tone !== null) ?? false;
+  if (mode === 'english' || (mode === 'auto' && !hasTones)) {
+    const matcher = createEnglishMatcher(term.text, englishVersion, term.exact);
+    if (matcher) matchers.push(matcher);
+  }
+  return matchers;
+}
+
+// A term matches wherever any of its readings does
+type CompiledTerm = IndexMatcher[];
+
+interface CompiledClause {
+  terms: CompiledTerm[];
+  distances: number[]; // NEAR distances between consecutive terms
+}
+
+interface CompiledQuery {
+  clauses: CompiledClause[];
+  exclude: CompiledTerm[];
+  bookIndexes: Set<number>; // Positions in BIBLE_BOOKS allowed by filters and in: scopes
+}
+
+/** Parse and compile a query; throws SearchQueryError on a syntax error */
+function compileQuery(query: string, options: SearchOptions): CompiledQuery {
+  const parsed = parseSearchQuery(query);
+  const { bookFilter, testamentFilter } = options;
+
+  const clauses = parsed.clauses.map((clause) =>
+    clause.kind === 'term'
+      ? { terms: [createMatchers(clause.term, options)], distances: [] }
+      : { terms: clause.terms.map((term) => createMatchers(term, options)), distances: clause.distances }
+  );
+
+  const bookIndexes = new Set(
+    BIBLE_BOOKS.flatMap((book, index) =>
+      (!testamentFilter || book.testament === testamentFilter) &&
+      (!bookFilter?.length || bookFilter.includes(book.id)) &&
+      (!parsed.scopeBookIds || parsed.scopeBookIds.includes(book.id))
+        ? [index]
+        : []
+    )
+  );
+
+  return {
+    clauses,
+    exclude: parsed.exclude.map((term) => createMatchers(term, options)),
+    bookIndexes,
+  };
+}
+
+function matchTerm(term: CompiledTerm, row: SearchIndexVerse): IndexMatch[] {
+  return term.flatMap((matcher) => matcher.matchAll(row));
+}
+
+// Distance between two matches in the same text: characters, or words in English
+function matchGap(a: IndexMatch, b: IndexMatch): number {
+  const [first, second] = a.start <= b.start ? [a, b] : [b, a];
+  if (second.start <= first.end) return 0;
+  const gap = first.text.slice(first.end, second.start);
+  return first.language === 'english'
+    ? tokenizeEnglish(gap).length
+    : Array.from(gap.replace(/\s+/g, '')).length;
+}
+
+/** Check a verse against a compiled query; returns the result with its highlights */
+function evaluateVerse(query: CompiledQuery, row: SearchIndexVerse): SearchResult | null {
+  if (!query.bookIndexes.has(getBookIndexFromVerseId(row.id))) return null;
+  if (query.exclude.some((term) => matchTerm(term, row).length > 0)) return null;
+
+  const matches: IndexMatch[] = [];
+  for (const clause of query.clauses) {
+    const termMatches = clause.terms.map((term) => matchTerm(term, row));
+    if (termMatches.some((found) => found.length === 0)) return null;
+
+    if (clause.distances.length === 0) {
+      matches.push(...termMatches[0]);
+      continue;
+    }
+
+    for (let k = 0; k < clause.distances.length; k++) {
+      const pairs = termMatches[k].flatMap((a) =>
+        termMatches[k + 1]
+          .filter((b) => a.text === b.text && matchGap(a, b) <= clause.distances[k])
+          .map((b) => [a, b])
+      );
+      if (pairs.length === 0) return null;
+      matches.push(...pairs.flat());
+    }
+  }
+
+  // Report the text of the first clause's match, highlighting every match in it
+  const primary = matches[0];
+  const ranges: SearchMatchRange[] = [];
+  for (const match of matches
+    .filter((m) => m.text === primary.text)
+    .sort((a, b) => a.start - b.start)) {
+    const last = ranges[ranges.length - 1];
+    if (last && match.start < last.end) last.end = Math.max(last.end, match.end);
+    else ranges.push({ start: match.start, end: match.end });
+  }
+
+  const bookInfo = getBookById(row.bookId);
+  return {
+    bookId: row.bookId,
+    bookName: bookInfo ? bookInfo.name : { chinese: row.bookId, english: row.bookId },
+    chapter: row.chapter,
+    verse: row.verse,
+    language: primary.language,
+    text: primary.text,
+    matchedText: primary.text.slice(ranges[0].start, ranges[0].end),
+    matchStart: ranges[0].start,
+    matchEnd: ranges[0].end,
+    matches: ranges,
+  };
+}
+
+/** Verse ids containing every token, via intersected postings (smallest first) */
+async function findCandidates(tokens: IndexToken[]): Promise<number[]> {
+  const postings = await Promise.all(
+    tokens.map(({ token, prefix }) =>
+      prefix
+        ? searchIndexDb.verses.where('tokens').startsWith(token).primaryKeys()
+        : searchIndexDb.verses.where('tokens').equals(token).primaryKeys()
+    )
+  );
+  postings.sort((a, b) => a.length - b.length);
+
+  let candidates = [...new Set(postings[0])];
+  for (const list of postings.slice(1)) {
+    const members = new Set(list);
+    candidates = candidates.filter((id) => members.has(id));
+  }
+  return candidates;
+}
+
+/** Verse ids that may satisfy every clause (a term's readings are unioned) */
+async function findQueryCandidates(query: CompiledQuery): Promise<number[]> {
+  const clauseCandidates = await Promise.all(
+    query.clauses.flatMap((clause) =>
+      clause.terms.map(async (term) => {
+        const lists = await Promise.all(term.map((matcher) => findCandidates(matcher.tokens)));
+        return new Set(lists.flat());
+      })
+    )
+  );
+  clauseCandidates.sort((a, b) => a.size - b.size);
+
+  return [...clauseCandidates[0]]
+    .filter((id) => query.bookIndexes.has(getBookIndexFromVerseId(id)))
+    .filter((id) => clauseCandidates.every((candidates) => candidates.has(id)))
+    .sort((a, b) => a - b);
 }
 
 class SearchService {
-  private chapterCache: Map<string, CachedChapter> = new Map();
-  private isIndexing = false;
+  // Verses built on the fly for searching before the index is ready
+  private chapterCache: Map<string, SearchIndexVerse[]> = new Map();
   private indexProgress = 0;
+  private indexReady: boolean | null = null; // null until checked against IndexedDB
+  private buildPromise: Promise<void> | null = null;
+  private progressListeners = new Set<(percent: number) => void>();
 
   /**
-   * Load a chapter's data for searching
+   * Load a chapter's verses for scanning, with English text from `englishVersion`
    */
-  private async loadChapter(bookId: string, chapter: number): Promise<CachedChapter | null> {
-    const key = `${bookId}:${chapter}`;
+  private async loadChapter(
+    bookId: string,
+    chapter: number,
+    englishVersion: string
+  ): Promise<SearchIndexVerse[] | null> {
+    const key = `${englishVersion}:${bookId}:${chapter}`;
     if (this.chapterCache.has(key)) {
       return this.chapterCache.get(key)!;
     }
@@ -41,45 +374,66 @@ class SearchService {
       const response = await fetch(`/data/preprocessed/${bookId}/chapter-${chapter}.json`);
       if (!response.ok) return null;
 
-      const data = await response.json();
-      const cached: CachedChapter = {
-        bookId,
-        chapter,
-        verses: data.verses.map((v: { number: number; text: string }) => ({
-          number: v.number,
-          text: v.text,
-        })),
-      };
+      const data: { verses: IndexSourceVerse[] } = await response.json();
+      const translations = new Map([[englishVersion, await loadTranslation(englishVersion)]]);
+      // Tokens are only needed in IndexedDB; drop them to keep the cache small
+      const verses = data.verses.map((verse) => ({
+        ...createIndexVerse(bookId, chapter, verse, translations),
+        tokens: [],
+      }));
 
-      this.chapterCache.set(key, cached);
-      return cached;
+      this.chapterCache.set(key, verses);
+      return verses;
     } catch {
       return null;
     }
   }
 
   /**
-   * Pre-load all chapters for faster searching
+   * Build the persistent full-text index in a Web Worker.
+   * Resumes an earlier partial build; resolves once every available chapter is indexed.
    */
-  async buildIndex(onProgress?: (percent: number) => void): Promise<void> {
-    if (this.isIndexing) return;
-    this.isIndexing = true;
+  buildIndex(onProgress?: (percent: number) => void): Promise<void> {
+    if (onProgress) this.progressListeners.add(onProgress);
+    if (this.buildPromise) return this.buildPromise;
 
-    const totalChapters = BIBLE_BOOKS.reduce((sum, book) => sum + book.chapterCount, 0);
-    let loaded = 0;
+    if (typeof Worker === 'undefined') {
+      return Promise.reject(new Error('Web Workers are not supported'));
+    }
 
-    for (const book of BIBLE_BOOKS) {
-      for (let chapter = 1; chapter <= book.chapterCount; chapter++) {
-        await this.loadChapter(book.id, chapter);
-        loaded++;
-        this.indexProgress = Math.round((loaded / totalChapters) * 100);
-        if (onProgress) {
-          onProgress(this.indexProgress);
+    const worker = new Worker(new URL('../workers/searchIndex.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+
+    this.buildPromise = new Promise<void>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<SearchIndexWorkerMessage>) => {
+        const message = event.data;
+        if (message.type === 'error') {
+          worker.terminate();
+          reject(new Error(message.message));
+          return;
         }
-      }
-    }
 
-    this.isIndexing = false;
+        this.indexProgress = Math.round((message.indexed / message.total) * 100);
+        this.progressListeners.forEach((listener) => listener(this.indexProgress));
+
+        if (message.type === 'done') {
+          worker.terminate();
+          this.indexReady = message.indexed >= message.total;
+          resolve();
+        }
+      };
+      worker.onerror = (event) => {
+        worker.terminate();
+        reject(new Error(event.message || 'Search index worker failed'));
+      };
+      worker.postMessage({ type: 'build' });
+    }).finally(() => {
+      this.buildPromise = null;
+      this.progressListeners.clear();
+    });
+
+    return this.buildPromise;
   }
 
   /**
@@ -90,80 +444,131 @@ class SearchService {
   }
 
   /**
-   * Check if a specific book is indexed
+   * Whether every chapter is in the persistent index (checked once per session)
    */
-  isBookIndexed(bookId: string): boolean {
+  async isIndexReady(): Promise<boolean> {
+    if (this.indexReady === null) {
+      try {
+        const indexed = await searchIndexDb.chapters
+          .where('version')
+          .equals(SEARCH_INDEX_VERSION)
+          .count();
+        this.indexReady = indexed >= TOTAL_CHAPTERS;
+        this.indexProgress = Math.round((indexed / TOTAL_CHAPTERS) * 100);
+      } catch {
+        this.indexReady = false;
+      }
+    }
+    return this.indexReady;
+  }
+
+  /**
+   * Check if a specific book is searchable offline
+   */
+  async isBookIndexed(bookId: string): Promise<boolean> {
     const book = BIBLE_BOOKS.find(b => b.id === bookId);
     if (!book) return false;
 
-    for (let chapter = 1; chapter <= book.chapterCount; chapter++) {
-      if (!this.chapterCache.has(`${bookId}:${chapter}`)) {
-        return false;
-      }
-    }
-    return true;
+    const indexed = await searchIndexDb.chapters
+      .where('bookId')
+      .equals(bookId)
+      .filter((chapter) => chapter.version === SEARCH_INDEX_VERSION)
+      .count();
+    return indexed >= book.chapterCount;
   }
 
   /**
-   * Search for text across all loaded chapters
+   * Search the whole Bible (see searchQuery.ts for the query syntax) and return
+   * the first `maxResults` matches in canonical order.
+   * Throws SearchQueryError when the query has a syntax error.
    */
-  async search(
-    query: string,
-    options: {
-      maxResults?: number;
-      bookFilter?: string[];
-      testamentFilter?: 'old' | 'new' | null;
-    } = {}
-  ): Promise<SearchResult[]> {
-    const { maxResults = 50, bookFilter, testamentFilter } = options;
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const { maxResults = 50 } = options;
     const results: SearchResult[] = [];
-    const normalizedQuery = query.toLowerCase().trim();
+    await this.searchAll(query, options, (batch) => {
+      results.push(...batch.slice(0, maxResults - results.length));
+      return results.length < maxResults;
+    });
+    return results;
+  }
 
-    if (!normalizedQuery) return results;
+  /**
+   * Stream every match in canonical order, a batch at a time. `onBatch` returns
+   * false to stop early, as does aborting `options.signal`. Uses the persistent
+   * index once it is built; until then, starts the build in the background and
+   * scans chapters instead.
+   * Throws SearchQueryError when the query has a syntax error.
+   */
+  async searchAll(
+    query: string,
+    options: SearchOptions,
+    onBatch: (results: SearchResult[]) => boolean | void
+  ): Promise<void> {
+    if (!query.trim()) return;
+    const compiled = compileQuery(query, options);
 
-    // Determine which books to search
-    let booksToSearch = BIBLE_BOOKS;
-    if (testamentFilter) {
-      booksToSearch = booksToSearch.filter(b => b.testament === testamentFilter);
+    if (await this.isIndexReady()) {
+      try {
+        return await this.searchIndex(compiled, options, onBatch);
+      } catch (error) {
+        console.warn('[SearchService] Index search failed, scanning instead:', error);
+      }
+    } else {
+      this.buildIndex().catch((error) => {
+        console.warn('[SearchService] Failed to build search index:', error);
+      });
     }
-    if (bookFilter && bookFilter.length > 0) {
-      booksToSearch = booksToSearch.filter(b => bookFilter.includes(b.id));
+
+    return this.scanChapters(compiled, options, onBatch);
+  }
+
+  /**
+   * Narrow to candidate verses through the inverted index, then confirm each
+   * one against the full query
+   */
+  private async searchIndex(
+    query: CompiledQuery,
+    options: SearchOptions,
+    onBatch: (results: SearchResult[]) => boolean | void
+  ): Promise<void> {
+    const { signal } = options;
+    const candidates = await findQueryCandidates(query);
+
+    for (let i = 0; i < candidates.length; i += VERIFY_BATCH_SIZE) {
+      if (signal?.aborted) return;
+      const rows = await searchIndexDb.verses.bulkGet(candidates.slice(i, i + VERIFY_BATCH_SIZE));
+      const results = rows.flatMap((row) => {
+        const result = row ? evaluateVerse(query, row) : null;
+        return result ? [result] : [];
+      });
+      if (results.length > 0 && onBatch(results) === false) return;
     }
+  }
+
+  /**
+   * Fallback: fetch and check chapters in order
+   */
+  private async scanChapters(
+    query: CompiledQuery,
+    options: SearchOptions,
+    onBatch: (results: SearchResult[]) => boolean | void
+  ): Promise<void> {
+    const { englishVersion = 'bsb', signal } = options;
 
-    // Search through books
-    for (const book of booksToSearch) {
-      if (results.length >= maxResults) break;
+    for (const [index, book] of BIBLE_BOOKS.entries()) {
+      if (!query.bookIndexes.has(index)) continue;
 
       for (let chapter = 1; chapter <= book.chapterCount; chapter++) {
-        if (results.length >= maxResults) break;
-
-        const chapterData = await this.loadChapter(book.id, chapter);
-        if (!chapterData) continue;
-
-        for (const verse of chapterData.verses) {
-          if (results.length >= maxResults) break;
-
-          const normalizedText = verse.text.toLowerCase();
-          const matchIndex = normalizedText.indexOf(normalizedQuery);
-
-          if (matchIndex !== -1) {
-            const bookInfo = getBookById(book.id);
-            results.push({
-              bookId: book.id,
-              bookName: bookInfo ? bookInfo.name : { chinese: book.id, english: book.id },
-              chapter,
-              verse: verse.number,
-              text: verse.text,
-              matchedText: verse.text.substring(matchIndex, matchIndex + query.length),
-              matchStart: matchIndex,
-              matchEnd: matchIndex + query.length,
-            });
-          }
-        }
+        // A superseded search stops here even when it has found nothing
+        if (signal?.aborted) return;
+        const verses = await this.loadChapter(book.id, chapter, englishVersion);
+        const results = (verses ?? []).flatMap((verse) => {
+          const result = evaluateVerse(query, verse);
+          return result ? [result] : [];
+        });
+        if (results.length > 0 && onBatch(results) === false) return;
       }
     }
-
-    return results;
   }
 
   /**
@@ -174,10 +579,21 @@ class SearchService {
   }
 
   /**
-   * Clear the cache
+   * Clear the in-memory chapter cache
    */
   clearCache(): void {
     this.chapterCache.clear();
+  }
+
+  /**
+   * Delete the persistent index; the next search starts a fresh build
+   */
+  async clearIndex(): Promise<void> {
+    await searchIndexDb.transaction('rw', searchIndexDb.verses, searchIndexDb.chapters, async () => {
+      await searchIndexDb.verses.clear();
+      await searchIndexDb.chapters.clear();
+    });
+    this.indexReady = false;
     this.indexProgress = 0;
   }
 }
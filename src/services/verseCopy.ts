@@ -0,0 +1,161 @@
+// Structured verse copy - a verse range as text in the user's chosen format
+//
+// References come in two styles: Chinese ones use the short book names of
+// Chinese Bibles (約3:16), English ones the full name (John 3:16).
+
+import type { CharacterSet, CopyFormat } from '../types';
+import { getTranslationInfo } from '../data/english';
+import { getChineseAbbreviation } from './bibleApi';
+import { formatImageReference, verseCharacters, type PassageVerse } from './verseImage';
+import { convertCharacters } from '../utils/characterConversion';
+
+// Most verses in one copied range
+export const MAX_COPY_VERSES = 50;
+
+export interface VerseCopyOptions {
+  bookId: string;
+  chapter: number;
+  verses: PassageVerse[];
+  englishVersion: string;
+  characterSet: CharacterSet;
+}
+
+export interface VerseCopyResult {
+  text: string;
+  // Set for formats that paste as rich text
+  html?: string;
+}
+
+// Closing punctuation attaches to the syllable before it in a pinyin line
+const CLOSING_PUNCTUATION = /\s+([，。、！？；：」』）》〉】,.!?;:])/g;
+
+/** "約3:16" or "約3:16-18" */
+export function formatChineseReference(
+  bookId: string,
+  chapter: number,
+  verses: number[],
+  characterSet: CharacterSet
+): string {
+  const abbreviation = getChineseAbbreviation(bookId);
+  const first = verses[0];
+  const last = verses[verses.length - 1];
+  const range = first === last ? `${first}` : `${first}-${last}`;
+  return abbreviation
+    ? `${convertCharacters(abbreviation, characterSet)}${chapter}:${range}`
+    : formatImageReference(bookId, chapter, verses, 'chinese', characterSet);
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function chineseText(verse: PassageVerse, characterSet: CharacterSet): string {
+  return verseCharacters(verse.chinese, characterSet, false)
+    .map((unit) => unit.text)
+    .join('');
+}
+
+// Syllables spaced by word, punctuation kept so the line reads alongside the characters
+function pinyinLine(verse: PassageVerse, characterSet: CharacterSet): string {
+  const words = verse.chinese.words ?? [];
+  return words
+    .map((word) => word.pinyin || convertCharacters(word.chinese, characterSet))
+    .join(' ')
+    .replace(CLOSING_PUNCTUATION, '$1');
+}
+
+function rubyHtml(verse: PassageVerse, characterSet: CharacterSet): string {
+  return verseCharacters(verse.chinese, characterSet, true)
+    .map((unit) =>
+      unit.pinyin
+        ? `<ruby>${escapeHtml(unit.text)}<rt>${escapeHtml(unit.pinyin)}</rt></ruby>`
+        : escapeHtml(unit.text)
+    )
+    .join('');
+}
+
+/** The verses in the given format; verse numbers are added once there is more than one */
+export function formatVerseCopy(options: VerseCopyOptions, format: CopyFormat): VerseCopyResult {
+  const { bookId, chapter, verses, englishVersion, characterSet } = options;
+  const numbers = verses.map((verse) => verse.number);
+  const showNumbers = verses.length > 1;
+  const numbered = (verse: PassageVerse, text: string) => (showNumbers ? `${verse.number} ${text}` : text);
+
+  const chineseReference = formatChineseReference(bookId, chapter, numbers, characterSet);
+  const englishReference = formatImageReference(bookId, chapter, numbers, 'english', characterSet);
+  const translationCode = getTranslationInfo(englishVersion)?.abbreviation;
+  const englishCitation = translationCode ? `${englishReference} (${translationCode})` : englishReference;
+
+  switch (format) {
+    case 'chinese':
+      return {
+        text: `${verses.map((verse) => numbered(verse, chineseText(verse, characterSet))).join(' ')}（${chineseReference}）`,
+      };
+
+    case 'pinyin':
+      return {
+        text: [
+          ...verses.map((verse) => {
+            const chinese = numbered(verse, chineseText(verse, characterSet));
+            const pinyin = pinyinLine(verse, characterSet);
+            // Verses without word segmentation have no pinyin to show
+            return pinyin ? `${chinese}\n${numbered(verse, pinyin)}` : chinese;
+          }),
+          chineseReference,
+        ].join('\n\n'),
+      };
+
+    case 'ruby': {
+      const html = [
+        ...verses.map((verse) => {
+          const number = showNumbers ? `<sup>${verse.number}</sup>` : '';
+          return `<p>${number}${rubyHtml(verse, characterSet)}</p>`;
+        }),
+        `<p><cite>${escapeHtml(chineseReference)}</cite></p>`,
+      ].join('\n');
+      // Plain-text targets get the Chinese and reference without the markup
+      const text = [
+        ...verses.map((verse) => numbered(verse, chineseText(verse, characterSet))),
+        chineseReference,
+      ].join('\n');
+      return { text, html };
+    }
+
+    case 'markdown': {
+      const lines = verses.map((verse) => {
+        const number = showNumbers ? `**${verse.number}** ` : '';
+        return `> ${number}${chineseText(verse, characterSet)}`;
+      });
+      const english = verses
+        .map((verse) => (showNumbers ? `**${verse.number}** ${verse.english}` : verse.english))
+        .join(' ');
+      return {
+        text: [...lines, '>', `> ${english}`, '>', `> — ${chineseReference} · ${englishCitation}`].join('\n'),
+      };
+    }
+
+    case 'bilingual':
+    default:
+      return {
+        text: [
+          verses.map((verse) => numbered(verse, chineseText(verse, characterSet))).join(' '),
+          verses.map((verse) => numbered(verse, verse.english)).join(' '),
+          `— ${chineseReference} · ${englishCitation}`,
+        ].join('\n'),
+      };
+  }
+}
+
+/** Write to the clipboard, as rich text too where the format has it */
+export async function copyVerseText({ text, html }: VerseCopyResult): Promise<void> {
+  if (html && typeof ClipboardItem !== 'undefined' && navigator.clipboard.write) {
+    await navigator.clipboard.write([
+      new ClipboardItem({
+        'text/plain': new Blob([text], { type: 'text/plain' }),
+        'text/html': new Blob([html], { type: 'text/html' }),
+      }),
+    ]);
+    return;
+  }
+  await navigator.clipboard.writeText(text);
+}
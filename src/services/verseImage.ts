@@ -0,0 +1,304 @@
+// Verse image cards - renders verses to a PNG for sharing in chat apps
+//
+// Chinese is laid out one character at a time so each can carry its pinyin
+// above it; English wraps by word underneath, with the reference at the foot.
+
+import type { CharacterSet, FontFamily, Theme, Verse } from '../types';
+import { getBookById } from '../data/bible/books';
+import { getEnglishVerseAsync, getTranslationInfo, loadTranslation } from '../data/english';
+import { loadPreprocessedChapter } from './preprocessedLoader';
+import { convertCharacters } from '../utils/characterConversion';
+import { downloadBlob } from '../utils/download';
+import { splitChineseCharacters, splitPinyinSyllables } from '../utils/pinyin';
+
+// Most verses chosen for one card; longer passages stop fitting a phone screen
+export const MAX_IMAGE_VERSES = 8;
+
+export interface PassageVerse {
+  number: number;
+  chinese: Verse; // Traditional, as preprocessed
+  english: string;
+}
+
+export interface VerseImageOptions {
+  bookId: string;
+  chapter: number;
+  verses: PassageVerse[];
+  englishVersion: string;
+  characterSet: CharacterSet;
+  theme: Theme;
+  fontFamily: FontFamily;
+  showPinyin: boolean;
+}
+
+// Matches the theme variables in index.css
+const CARD_THEMES: Record<Theme, { background: string; text: string; secondary: string; pinyin: string; accent: string; accentLight: string }> = {
+  light: { background: '#FAF8F3', text: '#2D2A26', secondary: '#5C574E', pinyin: 'rgba(92, 87, 78, 0.65)', accent: '#8B5A2B', accentLight: '#D4B896' },
+  sepia: { background: '#F0E6D2', text: '#3D3225', secondary: '#5E5040', pinyin: 'rgba(62, 50, 37, 0.6)', accent: '#996B2D', accentLight: '#C9A86C' },
+  dark: { background: '#0F0C0A', text: '#F5EFE3', secondary: '#B3A895', pinyin: 'rgba(179, 168, 149, 0.7)', accent: '#D9AF5D', accentLight: '#3D3225' },
+};
+
+const CHINESE_FONTS: Record<FontFamily, string> = {
+  serif: "'Noto Serif TC', 'Source Han Serif TC', 'Songti TC', serif",
+  sans: "'Noto Sans TC', 'Source Han Sans TC', 'PingFang TC', sans-serif",
+};
+const LATIN_FONT = "'Crimson Pro', 'Noto Serif', 'Georgia', serif";
+const DISPLAY_FONT = "'Cormorant Garamond', 'Georgia', serif";
+
+// Layout in pixels, at a width that stays sharp on high-density screens
+const WIDTH = 1080;
+const PADDING = 88;
+const CHINESE_SIZE = 46;
+const PINYIN_SIZE = 20;
+const VERSE_NUMBER_SIZE = 20;
+const ENGLISH_SIZE = 30;
+const REFERENCE_SIZE = 26;
+
+const PUNCTUATION = /[。，、！？；：「」『』（）《》〈〉【】〔〕—…]/;
+// Punctuation that should not begin a line
+const NO_LINE_START = /[。，、！？；：」』）》〉】〔…]/;
+
+export interface CharUnit {
+  text: string;
+  pinyin: string;
+  isVerseNumber?: boolean;
+}
+
+/** "John 3:16" or "John 3:16–18", with the book name in Chinese or English */
+export function formatImageReference(
+  bookId: string,
+  chapter: number,
+  verses: number[],
+  language: 'chinese' | 'english',
+  characterSet: CharacterSet
+): string {
+  const book = getBookById(bookId);
+  const name = book
+    ? language === 'chinese'
+      ? convertCharacters(book.name.chinese, characterSet)
+      : book.name.english
+    : bookId;
+  const first = verses[0];
+  const last = verses[verses.length - 1];
+  return `${name} ${chapter}:${first === last ? first : `${first}–${last}`}`;
+}
+
+/** Chinese and English text for verses start..end of a chapter */
+export async function loadPassageVerses(
+  bookId: string,
+  chapter: number,
+  startVerse: number,
+  endVerse: number,
+  englishVersion: string
+): Promise<PassageVerse[]> {
+  const [chineseVerses] = await Promise.all([
+    loadPreprocessedChapter(bookId, chapter),
+    loadTranslation(englishVersion),
+  ]);
+  const selected = (chineseVerses ?? []).filter((v) => v.number >= startVerse && v.number <= endVerse);
+
+  return Promise.all(
+    selected.map(async (verse) => ({
+      number: verse.number,
+      chinese: verse,
+      english: (await getEnglishVerseAsync(bookId, chapter, verse.number, englishVersion)) ?? '',
+    }))
+  );
+}
+
+// One unit per character; pinyin comes from the word segmentation when it exists
+export function verseCharacters(verse: Verse, characterSet: CharacterSet, showPinyin: boolean): CharUnit[] {
+  const words = verse.words ?? [];
+  if (words.length === 0) {
+    return splitChineseCharacters(convertCharacters(verse.text, characterSet)).map((text) => ({ text, pinyin: '' }));
+  }
+
+  const units: CharUnit[] = [];
+  for (const word of words) {
+    const chars = splitChineseCharacters(convertCharacters(word.chinese, characterSet));
+    const syllables =
+      showPinyin && word.pinyin && !PUNCTUATION.test(word.chinese)
+        ? splitPinyinSyllables(word.pinyin, chars.length)
+        : [];
+    chars.forEach((text, i) => units.push({ text, pinyin: syllables[i] ?? '' }));
+  }
+
+  // Same as the reader: trailing punctuation is sometimes missing from the words
+  const lastChar = verse.text.slice(-1);
+  if (PUNCTUATION.test(lastChar) && !PUNCTUATION.test(words[words.length - 1].chinese)) {
+    units.push({ text: lastChar, pinyin: '' });
+  }
+  return units;
+}
+
+function wrapEnglish(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+/** Render the verses to a PNG card */
+export async function renderVerseImage(options: VerseImageOptions): Promise<Blob> {
+  const { bookId, chapter, verses, englishVersion, characterSet, theme, fontFamily, showPinyin } = options;
+  const colors = CARD_THEMES[theme];
+  const chineseFont = `${CHINESE_SIZE}px ${CHINESE_FONTS[fontFamily]}`;
+  const pinyinFont = `${PINYIN_SIZE}px ${LATIN_FONT}`;
+  const verseNumberFont = `600 ${VERSE_NUMBER_SIZE}px ${LATIN_FONT}`;
+  const englishFont = `${ENGLISH_SIZE}px ${LATIN_FONT}`;
+  const referenceFont = `${REFERENCE_SIZE}px ${DISPLAY_FONT}`;
+
+  // Web fonts must be ready before measuring, or the layout uses the fallbacks
+  await document.fonts?.ready;
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported');
+
+  const contentWidth = WIDTH - PADDING * 2;
+  const showNumbers = verses.length > 1;
+
+  // Lay out the Chinese lines
+  const units: CharUnit[] = verses.flatMap((verse) => [
+    ...(showNumbers ? [{ text: String(verse.number), pinyin: '', isVerseNumber: true }] : []),
+    ...verseCharacters(verse.chinese, characterSet, showPinyin),
+  ]);
+  const unitWidth = (unit: CharUnit) => {
+    ctx.font = unit.isVerseNumber ? verseNumberFont : chineseFont;
+    const textWidth = ctx.measureText(unit.text).width + (unit.isVerseNumber ? 8 : 0);
+    ctx.font = pinyinFont;
+    return Math.max(textWidth, unit.pinyin ? ctx.measureText(unit.pinyin).width + 4 : 0);
+  };
+  const chineseLines: { unit: CharUnit; x: number; width: number }[][] = [[]];
+  let x = 0;
+  for (const unit of units) {
+    const width = unitWidth(unit);
+    const line = chineseLines[chineseLines.length - 1];
+    // Closing punctuation may hang into the margin rather than start a line
+    if (x + width > contentWidth && line.length > 0 && !NO_LINE_START.test(unit.text)) {
+      chineseLines.push([{ unit, x: 0, width }]);
+      x = width;
+    } else {
+      line.push({ unit, x, width });
+      x += width;
+    }
+  }
+
+  const hasPinyin = units.some((unit) => unit.pinyin);
+  const chineseLineHeight = CHINESE_SIZE * 1.5 + (hasPinyin ? PINYIN_SIZE + 6 : 0);
+
+  ctx.font = englishFont;
+  const englishText = verses
+    .map((verse) => (showNumbers ? `${verse.number} ${verse.english}` : verse.english))
+    .join(' ');
+  const englishLines = wrapEnglish(ctx, englishText, contentWidth);
+  const englishLineHeight = ENGLISH_SIZE * 1.45;
+
+  const numbers = verses.map((verse) => verse.number);
+  const translationCode = getTranslationInfo(englishVersion)?.abbreviation ?? '';
+  const reference = [
+    formatImageReference(bookId, chapter, numbers, 'chinese', characterSet),
+    formatImageReference(bookId, chapter, numbers, 'english', characterSet),
+    translationCode,
+  ]
+    .filter(Boolean)
+    .join('  ·  ');
+
+  const height = Math.round(
+    PADDING +
+      chineseLines.length * chineseLineHeight +
+      40 +
+      englishLines.length * englishLineHeight +
+      56 +
+      REFERENCE_SIZE +
+      PADDING
+  );
+
+  // Resizing clears the canvas, so draw only after measuring everything
+  canvas.width = WIDTH;
+  canvas.height = height;
+
+  ctx.fillStyle = colors.background;
+  ctx.fillRect(0, 0, WIDTH, height);
+  // Gold accent bar, as on the verse panel
+  const bar = ctx.createLinearGradient(0, 0, 0, height);
+  bar.addColorStop(0, colors.accent);
+  bar.addColorStop(1, colors.accentLight);
+  ctx.fillStyle = bar;
+  ctx.fillRect(0, 0, 12, height);
+
+  ctx.textBaseline = 'alphabetic';
+  let y = PADDING;
+  for (const line of chineseLines) {
+    const baseline = y + (hasPinyin ? PINYIN_SIZE + 6 : 0) + CHINESE_SIZE;
+    for (const { unit, x: unitX, width } of line) {
+      const centerX = PADDING + unitX + width / 2;
+      ctx.textAlign = 'center';
+      if (unit.isVerseNumber) {
+        ctx.font = verseNumberFont;
+        ctx.fillStyle = colors.accent;
+        ctx.fillText(unit.text, centerX, baseline - CHINESE_SIZE * 0.45);
+        continue;
+      }
+      if (unit.pinyin) {
+        ctx.font = pinyinFont;
+        ctx.fillStyle = colors.pinyin;
+        ctx.fillText(unit.pinyin, centerX, y + PINYIN_SIZE);
+      }
+      ctx.font = chineseFont;
+      ctx.fillStyle = colors.text;
+      ctx.fillText(unit.text, centerX, baseline);
+    }
+    y += chineseLineHeight;
+  }
+
+  y += 40;
+  ctx.textAlign = 'left';
+  ctx.font = englishFont;
+  ctx.fillStyle = colors.secondary;
+  for (const line of englishLines) {
+    ctx.fillText(line, PADDING, y + ENGLISH_SIZE);
+    y += englishLineHeight;
+  }
+
+  y += 56;
+  ctx.font = referenceFont;
+  ctx.fillStyle = colors.accent;
+  ctx.fillText(`— ${reference}`, PADDING, y + REFERENCE_SIZE * 0.8);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to render image'))), 'image/png');
+  });
+}
+
+/**
+ * Hand the image to the Web Share API where files can be shared (mostly
+ * mobile), otherwise download it
+ */
+export async function shareVerseImage(
+  blob: Blob,
+  filename: string,
+  title: string
+): Promise<'shared' | 'downloaded' | 'cancelled'> {
+  const file = new File([blob], filename, { type: 'image/png' });
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title });
+      return 'shared';
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return 'cancelled';
+      throw error;
+    }
+  }
+  downloadBlob(blob, filename);
+  return 'downloaded';
+}
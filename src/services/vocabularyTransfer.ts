@@ -0,0 +1,760 @@
+// Vocabulary export/import - CSV/TSV files and Anki .apkg decks
+
+import { zipSync, unzipSync, strToU8 } from 'fflate';
+import type { SqlJsStatic } from 'sql.js';
+import { BIBLE_BOOKS, getBookById } from '../data/bible/books';
+import { getEnglishVerseAsync } from '../data/english';
+import { loadPreprocessedVerse } from './preprocessedLoader';
+import { convertCharacters } from '../utils/characterConversion';
+import { DAY_IN_MS, createInitialSRSData, normalizeSRSData } from '../utils/srs';
+import type {
+  SavedWord,
+  SRSData,
+  VerseReference,
+  CharacterSet,
+  VocabularyImportEntry,
+} from '../types';
+
+export type DelimitedFormat = 'csv' | 'tsv';
+
+const NOTE_FIELDS = [
+  'Chinese',
+  'Pinyin',
+  'Definition',
+  'PartOfSpeech',
+  'HSK',
+  'Reference',
+  'VerseChinese',
+  'VerseEnglish',
+] as const;
+
+const SRS_COLUMNS = [
+  'Status',
+  'Interval',
+  'Ease',
+  'Stability',
+  'Difficulty',
+  'Reps',
+  'Lapses',
+  'LastReview',
+  'NextReview',
+] as const;
+
+// Header names (lowercased, without spaces/underscores) accepted for each field on import
+const FIELD_ALIASES: Record<string, string[]> = {
+  chinese: ['chinese', 'hanzi', 'word', 'traditional', 'simplified', 'front', '中文', '漢字', '汉字'],
+  pinyin: ['pinyin', 'reading', '拼音'],
+  definition: ['definition', 'meaning', 'english', 'back', 'translation', '意思'],
+  partOfSpeech: ['partofspeech', 'pos', 'wordtype'],
+  hskLevel: ['hsk', 'hsklevel', 'level'],
+  reference: ['reference', 'source', 'verse', 'sourceverse'],
+};
+
+interface ExportNote {
+  word: SavedWord;
+  reference: string;
+  verseChinese: string;
+  verseEnglish: string;
+}
+
+/**
+ * "John 3:16" style reference for a verse
+ */
+function formatReference(ref: VerseReference): string {
+  const book = getBookById(ref.bookId);
+  return `${book?.name.english ?? ref.bookId} ${ref.chapter}:${ref.verse}`;
+}
+
+/**
+ * Parses a reference written by formatReference (book ids are accepted too)
+ */
+function parseReference(text: string): VerseReference | null {
+  const match = text.trim().match(/^(.+?)\s+(\d+):(\d+)$/);
+  if (!match) return null;
+
+  const name = match[1].toLowerCase();
+  const book = BIBLE_BOOKS.find(
+    (b) => b.id === name || b.name.english.toLowerCase() === name || b.name.chinese === match[1]
+  );
+  if (!book) return null;
+  return { bookId: book.id, chapter: Number(match[2]), verse: Number(match[3]) };
+}
+
+/**
+ * Looks up the source verse text for each word in both languages
+ */
+async function buildExportNotes(
+  words: SavedWord[],
+  characterSet: CharacterSet,
+  englishVersion: string
+): Promise<ExportNote[]> {
+  return Promise.all(
+    words.map(async (word) => {
+      // Words imported from other tools may have no verse
+      if (!word.sourceVerse) {
+        return { word, reference: '', verseChinese: '', verseEnglish: '' };
+      }
+      const { bookId, chapter, verse } = word.sourceVerse;
+      const [chineseVerse, englishVerse] = await Promise.all([
+        loadPreprocessedVerse(bookId, chapter, verse).catch(() => null),
+        getEnglishVerseAsync(bookId, chapter, verse, englishVersion).catch(() => null),
+      ]);
+      return {
+        word,
+        reference: formatReference(word.sourceVerse),
+        verseChinese: chineseVerse ? convertCharacters(chineseVerse.text, characterSet) : '',
+        verseEnglish: englishVerse ?? '',
+      };
+    })
+  );
+}
+
+function noteFieldValues(note: ExportNote): string[] {
+  const { word } = note;
+  return [
+    word.chinese,
+    word.pinyin,
+    word.definition,
+    word.partOfSpeech ?? '',
+    word.hskLevel ? String(word.hskLevel) : '',
+    note.reference,
+    note.verseChinese,
+    note.verseEnglish,
+  ];
+}
+
+function toIsoDate(timestamp: number | null): string {
+  return timestamp === null ? '' : new Date(timestamp).toISOString();
+}
+
+function escapeDelimited(value: string, format: DelimitedFormat): string {
+  if (format === 'tsv') return value.replace(/[\t\r\n]+/g, ' ');
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * CSV/TSV text with one row per word, including its scheduling state
+ */
+export async function exportVocabularyDelimited(
+  words: SavedWord[],
+  format: DelimitedFormat,
+  characterSet: CharacterSet,
+  englishVersion: string
+): Promise<Blob> {
+  const separator = format === 'csv' ? ',' : '\t';
+  const notes = await buildExportNotes(words, characterSet, englishVersion);
+
+  const rows = notes.map((note) => {
+    const srs = note.word.srsData;
+    return [
+      ...noteFieldValues(note),
+      srs.status,
+      String(srs.interval),
+      String(srs.ease),
+      String(srs.stability),
+      String(srs.difficulty),
+      String(srs.reps),
+      String(srs.lapses),
+      toIsoDate(srs.lastReview),
+      toIsoDate(srs.nextReview),
+    ];
+  });
+
+  const lines = [[...NOTE_FIELDS, ...SRS_COLUMNS], ...rows].map((row) =>
+    row.map((value) => escapeDelimited(value, format)).join(separator)
+  );
+  // BOM so spreadsheet apps open the Chinese text as UTF-8
+  return new Blob(['\uFEFF' + lines.join('\r\n')], {
+    type: format === 'csv' ? 'text/csv;charset=utf-8' : 'text/tab-separated-values;charset=utf-8',
+  });
+}
+
+/**
+ * Splits delimited text into rows, honoring quoted fields
+ */
+function parseDelimited(text: string, separator: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === separator) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+function normalizeHeader(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s_-]/g, '');
+}
+
+/**
+ * Maps each known field to its column index, using the header row if there is one
+ */
+function mapColumns(header: string[]): { columns: Record<string, number>; hasHeader: boolean } {
+  const normalized = header.map(normalizeHeader);
+  const columns: Record<string, number> = {};
+
+  for (const [field, aliases] of Object.entries(FIELD_ALIASES)) {
+    const index = normalized.findIndex((name) => aliases.includes(name));
+    if (index !== -1) columns[field] = index;
+  }
+  for (const column of SRS_COLUMNS) {
+    const index = normalized.indexOf(column.toLowerCase());
+    if (index !== -1) columns[column] = index;
+  }
+
+  if (columns.chinese !== undefined) return { columns, hasHeader: true };
+  // No header: assume the common chinese, pinyin, definition layout
+  return { columns: { chinese: 0, pinyin: 1, definition: 2 }, hasHeader: false };
+}
+
+function parseTimestamp(value: string | undefined): number | null {
+  if (!value) return null;
+  const timestamp = Date.parse(value);
+  return Number.isNaN(timestamp) ? null : timestamp;
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (!value?.trim()) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Reads scheduling columns written by exportVocabularyDelimited, if present
+ */
+function parseDelimitedSRS(get: (column: string) => string | undefined): SRSData | undefined {
+  const nextReview = parseTimestamp(get('NextReview'));
+  if (nextReview === null) return undefined;
+
+  const status = get('Status');
+  const partial: Partial<SRSData> = {
+    nextReview,
+    lastReview: parseTimestamp(get('LastReview')),
+    status: status === 'learning' || status === 'reviewing' || status === 'mastered' ? status : undefined,
+    interval: parseNumber(get('Interval')),
+    ease: parseNumber(get('Ease')),
+    stability: parseNumber(get('Stability')),
+    difficulty: parseNumber(get('Difficulty')),
+    reps: parseNumber(get('Reps')),
+    lapses: parseNumber(get('Lapses')),
+  };
+  // Let normalizeSRSData fill in anything missing
+  const defined = Object.fromEntries(
+    Object.entries(partial).filter(([, value]) => value !== undefined)
+  ) as Partial<SRSData>;
+  return normalizeSRSData(defined);
+}
+
+function parseDelimitedFile(text: string): VocabularyImportEntry[] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const separator = firstLine.includes('\t') ? '\t' : firstLine.includes(';') && !firstLine.includes(',') ? ';' : ',';
+  const rows = parseDelimited(content, separator);
+  if (rows.length === 0) return [];
+
+  const { columns, hasHeader } = mapColumns(rows[0]);
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+
+  return dataRows.flatMap((row): VocabularyImportEntry[] => {
+    const get = (field: string) =>
+      columns[field] === undefined ? undefined : row[columns[field]]?.trim();
+    const chinese = get('chinese');
+    if (!chinese) return [];
+
+    const reference = get('reference');
+    return [
+      {
+        chinese,
+        pinyin: get('pinyin') ?? '',
+        definition: get('definition') ?? '',
+        partOfSpeech: get('partOfSpeech') || undefined,
+        hskLevel: parseNumber(get('hskLevel')),
+        sourceVerse: (reference && parseReference(reference)) || undefined,
+        srsData: parseDelimitedSRS(get),
+      },
+    ];
+  });
+}
+
+// ============================================================================
+// Anki .apkg
+// ============================================================================
+
+let sqlJsPromise: Promise<SqlJsStatic> | null = null;
+
+/**
+ * Loads sql.js (and its wasm binary) on first use
+ */
+function loadSqlJs(): Promise<SqlJsStatic> {
+  if (!sqlJsPromise) {
+    sqlJsPromise = Promise.all([
+      import('sql.js'),
+      import('sql.js/dist/sql-wasm.wasm?url'),
+    ]).then(([{ default: initSqlJs }, { default: wasmUrl }]) =>
+      initSqlJs({ locateFile: () => wasmUrl })
+    );
+    sqlJsPromise.catch(() => {
+      sqlJsPromise = null;
+    });
+  }
+  return sqlJsPromise;
+}
+
+// Legacy (schema 11) collection layout, which every Anki version can import
+const ANKI_SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const ANKI_FIELD_SEPARATOR = '\x1f';
+
+const ANKI_GRADE: Record<string, number> = { again: 1, hard: 2, good: 3, easy: 4 };
+
+// Anki card types and queues
+const CARD_TYPE_NEW = 0;
+const CARD_TYPE_LEARNING = 1;
+const CARD_TYPE_REVIEW = 2;
+const CARD_TYPE_RELEARNING = 3;
+
+const ANKI_CARD_CSS = `.card {
+  font-family: "Noto Serif TC", "Songti TC", serif;
+  font-size: 22px;
+  text-align: center;
+}
+.chinese { font-size: 48px; }
+.pinyin { font-style: italic; color: #8b5a2b; }
+.verse { margin-top: 16px; font-size: 16px; color: #666; }`;
+
+const ANKI_FRONT_TEMPLATE = '<div class="chinese">{{Chinese}}</div>';
+const ANKI_BACK_TEMPLATE = `{{FrontSide}}
+<hr id="answer">
+<div class="pinyin">{{Pinyin}}</div>
+<div>{{Definition}}</div>
+{{#PartOfSpeech}}<div><i>{{PartOfSpeech}}</i></div>{{/PartOfSpeech}}
+<div class="verse">{{VerseChinese}}<br>{{VerseEnglish}}<br><small>{{Reference}}</small></div>`;
+
+function randomGuid(): string {
+  const chars = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!#$%&()*+,-./:;<=>?@[]^_`{|}~';
+  return Array.from({ length: 10 }, () => chars[Math.floor(Math.random() * chars.length)]).join('');
+}
+
+function stripHtml(value: string): string {
+  return value
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .trim();
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Anki's note checksum: first 8 hex digits of the SHA-1 of the sort field
+ */
+async function fieldChecksum(value: string): Promise<number> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(stripHtml(value)));
+  const bytes = new Uint8Array(digest);
+  return ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0;
+}
+
+function buildCollectionConfig(now: number, modelId: number, deckId: number) {
+  const seconds = Math.floor(now / 1000);
+
+  const model = {
+    id: modelId,
+    name: 'Bilingual Bible Vocabulary',
+    type: 0,
+    mod: seconds,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tmpls: [
+      {
+        name: 'Recognition',
+        ord: 0,
+        qfmt: ANKI_FRONT_TEMPLATE,
+        afmt: ANKI_BACK_TEMPLATE,
+        did: null,
+        bqfmt: '',
+        bafmt: '',
+      },
+    ],
+    flds: NOTE_FIELDS.map((name, ord) => ({
+      name,
+      ord,
+      sticky: false,
+      rtl: false,
+      font: 'Arial',
+      size: 20,
+      media: [],
+    })),
+    css: ANKI_CARD_CSS,
+    latexPre: '\\documentclass[12pt]{article}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    req: [[0, 'any', [0]]],
+    tags: [],
+    vers: [],
+  };
+
+  const deck = (id: number, name: string) => ({
+    id,
+    name,
+    desc: '',
+    mod: seconds,
+    usn: -1,
+    collapsed: false,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+    dyn: 0,
+    conf: 1,
+    extendNew: 10,
+    extendRev: 50,
+  });
+
+  const deckConfig = {
+    id: 1,
+    name: 'Default',
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: {
+      delays: [1, 10],
+      ints: [1, 4, 7],
+      initialFactor: 2500,
+      order: 1,
+      perDay: 20,
+      bury: true,
+      separate: true,
+    },
+    rev: {
+      perDay: 200,
+      ease4: 1.3,
+      fuzz: 0.05,
+      maxIvl: 36500,
+      ivlFct: 1,
+      bury: true,
+      minSpace: 1,
+    },
+    lapse: {
+      delays: [10],
+      mult: 0,
+      minInt: 1,
+      leechFails: 8,
+      leechAction: 0,
+    },
+  };
+
+  const conf = {
+    activeDecks: [deckId],
+    curDeck: deckId,
+    newSpread: 0,
+    collapseTime: 1200,
+    timeLim: 0,
+    estTimes: true,
+    dueCounts: true,
+    curModel: modelId,
+    nextPos: 1,
+    sortType: 'noteFld',
+    sortBackwards: false,
+    addToCur: true,
+  };
+
+  return {
+    models: { [modelId]: model },
+    decks: { 1: deck(1, 'Default'), [deckId]: deck(deckId, 'Bilingual Bible Vocabulary') },
+    dconf: { 1: deckConfig },
+    conf,
+  };
+}
+
+/**
+ * Anki deck with one recognition card per word. Review history and the
+ * current interval/ease carry over so Anki continues the same schedule.
+ */
+export async function exportVocabularyApkg(
+  words: SavedWord[],
+  characterSet: CharacterSet,
+  englishVersion: string
+): Promise<Blob> {
+  const [SQL, notes] = await Promise.all([
+    loadSqlJs(),
+    buildExportNotes(words, characterSet, englishVersion),
+  ]);
+
+  const now = Date.now();
+  const modelId = now;
+  const deckId = now + 1;
+  // Collection creation time; review due dates are stored as days since this
+  const earliest = Math.min(now, ...words.map((w) => w.createdAt));
+  const startOfDay = new Date(earliest);
+  startOfDay.setHours(0, 0, 0, 0);
+  const crt = Math.floor(startOfDay.getTime() / 1000);
+
+  const db = new SQL.Database();
+  try {
+    db.run(ANKI_SCHEMA);
+
+    const config = buildCollectionConfig(now, modelId, deckId);
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      crt,
+      now,
+      now,
+      JSON.stringify(config.conf),
+      JSON.stringify(config.models),
+      JSON.stringify(config.decks),
+      JSON.stringify(config.dconf),
+      '{}',
+    ]);
+
+    const usedRevlogIds = new Set<number>();
+    const modSeconds = Math.floor(now / 1000);
+
+    for (const [index, note] of notes.entries()) {
+      const { word } = note;
+      const noteId = now + index;
+      const cardId = now + index;
+      const fields = noteFieldValues(note).map(escapeHtml);
+
+      db.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')', [
+        noteId,
+        randomGuid(),
+        modelId,
+        modSeconds,
+        word.hskLevel ? ` HSK${word.hskLevel} ` : '',
+        fields.join(ANKI_FIELD_SEPARATOR),
+        fields[0],
+        await fieldChecksum(fields[0]),
+      ]);
+
+      const srs = word.srsData;
+      const isNew = srs.lastReview === null;
+      const factor = isNew ? 0 : Math.round(srs.ease * 1000);
+      db.run(
+        'INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, \'\')',
+        [
+          cardId,
+          noteId,
+          deckId,
+          modSeconds,
+          isNew ? CARD_TYPE_NEW : CARD_TYPE_REVIEW,
+          isNew ? CARD_TYPE_NEW : CARD_TYPE_REVIEW,
+          isNew ? index + 1 : Math.floor((srs.nextReview / 1000 - crt) / (DAY_IN_MS / 1000)),
+          isNew ? 0 : srs.interval,
+          factor,
+          srs.reps,
+          srs.lapses,
+        ]
+      );
+
+      // Only recognition reviews map onto the Anki card
+      for (const entry of word.reviewLog ?? []) {
+        if (entry.cardType && entry.cardType !== 'recognition') continue;
+        let revlogId = entry.timestamp;
+        while (usedRevlogIds.has(revlogId)) revlogId += 1;
+        usedRevlogIds.add(revlogId);
+
+        db.run('INSERT INTO revlog VALUES (?, ?, -1, ?, ?, ?, ?, ?, ?)', [
+          revlogId,
+          cardId,
+          ANKI_GRADE[entry.grade],
+          entry.newInterval,
+          entry.previousInterval,
+          factor,
+          Math.min(entry.responseTimeMs, 60000),
+          entry.previousInterval === 0 ? CARD_TYPE_NEW : 1,
+        ]);
+      }
+    }
+
+    const collection = db.export();
+    const archive = zipSync({
+      'collection.anki2': collection,
+      media: strToU8('{}'),
+    });
+    return new Blob([archive], { type: 'application/octet-stream' });
+  } finally {
+    db.close();
+  }
+}
+
+interface AnkiModel {
+  flds: { name: string; ord: number }[];
+}
+
+/**
+ * Maps an Anki card's scheduling onto SRS state
+ */
+function ankiCardToSRS(
+  card: { type: number; queue: number; due: number; ivl: number; factor: number; reps: number; lapses: number },
+  crt: number,
+  lastReviewMs: number | null
+): SRSData {
+  if (card.type === CARD_TYPE_NEW) return createInitialSRSData();
+
+  // Learning cards (and relearning cards in the intraday queue) store a timestamp
+  const dueIsTimestamp = card.type === CARD_TYPE_LEARNING || (card.type === CARD_TYPE_RELEARNING && card.queue === 1);
+  const nextReview = dueIsTimestamp ? card.due * 1000 : (crt + card.due * 86400) * 1000;
+  // Negative intervals are in seconds (learning steps)
+  const interval = Math.max(1, card.ivl);
+  const isLearning = card.type === CARD_TYPE_LEARNING || card.type === CARD_TYPE_RELEARNING;
+
+  return normalizeSRSData({
+    interval,
+    streak: 0,
+    lastReview: lastReviewMs ?? nextReview - interval * DAY_IN_MS,
+    nextReview,
+    status: isLearning ? 'learning' : interval >= 21 ? 'mastered' : 'reviewing',
+    ease: card.factor > 0 ? card.factor / 1000 : undefined,
+    reps: card.reps,
+    lapses: card.lapses,
+  });
+}
+
+function pickField(fields: Record<string, string>, aliases: string[]): string | undefined {
+  for (const [name, value] of Object.entries(fields)) {
+    if (aliases.includes(normalizeHeader(name))) return value;
+  }
+  return undefined;
+}
+
+async function parseApkgFile(buffer: ArrayBuffer): Promise<VocabularyImportEntry[]> {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(buffer));
+  } catch {
+    throw new Error('This file is not a valid Anki package');
+  }
+
+  const collection = files['collection.anki21'] ?? (files['collection.anki21b'] ? null : files['collection.anki2']);
+  if (!collection) {
+    throw new Error(
+      files['collection.anki21b']
+        ? 'This deck uses Anki\'s newest format. Export it again with "Support older Anki versions" checked.'
+        : 'No Anki collection found in this file'
+    );
+  }
+
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database(collection);
+  try {
+    const [col] = db.exec('SELECT crt, models FROM col');
+    if (!col) throw new Error('This Anki collection is empty');
+    const crt = Number(col.values[0][0]);
+    const models = JSON.parse(String(col.values[0][1])) as Record<string, AnkiModel>;
+
+    const lastReviews = new Map<number, number>();
+    for (const row of db.exec('SELECT cid, MAX(id) FROM revlog GROUP BY cid')[0]?.values ?? []) {
+      lastReviews.set(Number(row[0]), Number(row[1]));
+    }
+
+    // One entry per note; the first card carries the schedule
+    const [result] = db.exec(`
+      SELECT n.mid, n.flds, c.id, c.type, c.queue, c.due, c.ivl, c.factor, c.reps, c.lapses
+      FROM notes n JOIN cards c ON c.nid = n.id
+      WHERE c.ord = (SELECT MIN(ord) FROM cards WHERE nid = n.id)
+    `);
+
+    return (result?.values ?? []).flatMap((row): VocabularyImportEntry[] => {
+      const model = models[String(row[0])];
+      const values = String(row[1]).split(ANKI_FIELD_SEPARATOR).map(stripHtml);
+      const fields: Record<string, string> = {};
+      for (const field of model?.flds ?? []) {
+        fields[field.name] = values[field.ord] ?? '';
+      }
+
+      // Unknown note types: assume chinese, pinyin, definition order
+      const chinese = pickField(fields, FIELD_ALIASES.chinese) ?? values[0];
+      if (!chinese) return [];
+      const reference = pickField(fields, FIELD_ALIASES.reference);
+      const cardId = Number(row[2]);
+
+      return [
+        {
+          chinese,
+          pinyin: pickField(fields, FIELD_ALIASES.pinyin) ?? values[1] ?? '',
+          definition: pickField(fields, FIELD_ALIASES.definition) ?? values[2] ?? '',
+          partOfSpeech: pickField(fields, FIELD_ALIASES.partOfSpeech) || undefined,
+          hskLevel: parseNumber(pickField(fields, FIELD_ALIASES.hskLevel)),
+          sourceVerse: (reference && parseReference(reference)) || undefined,
+          srsData: ankiCardToSRS(
+            {
+              type: Number(row[3]),
+              queue: Number(row[4]),
+              due: Number(row[5]),
+              ivl: Number(row[6]),
+              factor: Number(row[7]),
+              reps: Number(row[8]),
+              lapses: Number(row[9]),
+            },
+            crt,
+            lastReviews.get(cardId) ?? null
+          ),
+        },
+      ];
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Reads words from a CSV/TSV file or an Anki .apkg deck
+ */
+export async function parseVocabularyFile(file: File): Promise<VocabularyImportEntry[]> {
+  if (/\.(apkg|colpkg)$/i.test(file.name)) {
+    return parseApkgFile(await file.arrayBuffer());
+  }
+  return parseDelimitedFile(await file.text());
+}
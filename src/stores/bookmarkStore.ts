@@ -6,7 +6,10 @@ export interface Bookmark {
   id: string;
   verseRef: VerseReference;
   note?: string;
+  collection?: string; // Name of the collection it is filed in, if any
+  tags?: string[];
   createdAt: number;
+  updatedAt?: number;
 }
 
 function generateId(): string {
@@ -25,8 +28,24 @@ function sanitizeNote(note?: string): string | undefined {
   return note.trim().slice(0, MAX_NOTE_LENGTH);
 }
 
+// Collection names and tags are free text, kept short
+const MAX_NAME_LENGTH = 60;
+const MAX_TAGS = 20;
+function sanitizeName(name?: string): string | undefined {
+  return name?.trim().slice(0, MAX_NAME_LENGTH) || undefined;
+}
+function sanitizeTags(tags?: string[]): string[] | undefined {
+  if (!tags) return undefined;
+  const clean = tags
+    .map((tag) => sanitizeName(tag.replace(/^#/, ''))?.toLowerCase())
+    .filter((tag): tag is string => !!tag);
+  return clean.length > 0 ? [...new Set(clean)].slice(0, MAX_TAGS) : undefined;
+}
+
 interface BookmarkState {
   bookmarks: Bookmark[];
+  // Collections created before anything was filed in them (bookmarks carry the rest)
+  collections: string[];
 
   // Actions
   addBookmark: (verseRef: VerseReference, note?: string) => void;
@@ -36,8 +55,17 @@ interface BookmarkState {
   getBookmark: (verseRef: VerseReference) => Bookmark | undefined;
   updateNote: (verseRef: VerseReference, note: string) => void;
   getBookmarksByBook: (bookId: string) => Bookmark[];
+  getCollections: () => string[];
+  createCollection: (name: string) => void;
+  renameCollection: (from: string, to: string) => void;
+  deleteCollection: (name: string) => void; // Bookmarks in it are kept, unfiled
+  moveBookmarks: (ids: string[], collection?: string) => void;
+  setTags: (id: string, tags: string[]) => void;
+  addTag: (ids: string[], tag: string) => void;
+  removeBookmarks: (ids: string[]) => void;
   clearAllBookmarks: () => void;
   setBookmarks: (bookmarks: Bookmark[]) => void;
+  setCollections: (collections: string[]) => void;
 }
 
 export const useBookmarkStore = create<BookmarkState>()(
@@ -45,6 +73,7 @@ export const useBookmarkStore = create<BookmarkState>()(
     persist(
       (set, get) => ({
         bookmarks: [],
+        collections: [],
 
       addBookmark: (verseRef, note) => {
         // Don't add duplicates
@@ -96,7 +125,7 @@ export const useBookmarkStore = create<BookmarkState>()(
         const sanitizedNote = sanitizeNote(note);
         set((state) => ({
           bookmarks: state.bookmarks.map((b) =>
-            verseRefToKey(b.verseRef) === key ? { ...b, note: sanitizedNote } : b
+            verseRefToKey(b.verseRef) === key ? { ...b, note: sanitizedNote, updatedAt: Date.now() } : b
           ),
         }));
       },
@@ -105,15 +134,95 @@ export const useBookmarkStore = create<BookmarkState>()(
         return get().bookmarks.filter((b) => b.verseRef.bookId === bookId);
       },
 
-      clearAllBookmarks: () => set({ bookmarks: [] }),
+      getCollections: () => {
+        const { bookmarks, collections } = get();
+        const names = new Set(collections);
+        bookmarks.forEach((b) => b.collection && names.add(b.collection));
+        return [...names].sort((a, b) => a.localeCompare(b));
+      },
+
+      createCollection: (name) => {
+        const clean = sanitizeName(name);
+        if (!clean || get().getCollections().includes(clean)) return;
+        set((state) => ({ collections: [...state.collections, clean] }));
+      },
+
+      renameCollection: (from, to) => {
+        const clean = sanitizeName(to);
+        if (!clean || clean === from) return;
+        const now = Date.now();
+        set((state) => ({
+          collections: state.collections.map((c) => (c === from ? clean : c)),
+          bookmarks: state.bookmarks.map((b) =>
+            b.collection === from ? { ...b, collection: clean, updatedAt: now } : b
+          ),
+        }));
+      },
+
+      deleteCollection: (name) => {
+        const now = Date.now();
+        set((state) => ({
+          collections: state.collections.filter((c) => c !== name),
+          bookmarks: state.bookmarks.map((b) =>
+            b.collection === name ? { ...b, collection: undefined, updatedAt: now } : b
+          ),
+        }));
+      },
+
+      moveBookmarks: (ids, collection) => {
+        const clean = sanitizeName(collection);
+        const idSet = new Set(ids);
+        const now = Date.now();
+        set((state) => ({
+          bookmarks: state.bookmarks.map((b) =>
+            idSet.has(b.id) ? { ...b, collection: clean, updatedAt: now } : b
+          ),
+        }));
+      },
+
+      setTags: (id, tags) => {
+        set((state) => ({
+          bookmarks: state.bookmarks.map((b) =>
+            b.id === id ? { ...b, tags: sanitizeTags(tags), updatedAt: Date.now() } : b
+          ),
+        }));
+      },
+
+      addTag: (ids, tag) => {
+        const idSet = new Set(ids);
+        const now = Date.now();
+        set((state) => ({
+          bookmarks: state.bookmarks.map((b) =>
+            idSet.has(b.id) ? { ...b, tags: sanitizeTags([...(b.tags ?? []), tag]), updatedAt: now } : b
+          ),
+        }));
+      },
+
+      removeBookmarks: (ids) => {
+        const idSet = new Set(ids);
+        set((state) => ({
+          bookmarks: state.bookmarks.filter((b) => !idSet.has(b.id)),
+        }));
+      },
+
+      clearAllBookmarks: () => set({ bookmarks: [], collections: [] }),
 
       setBookmarks: (bookmarks) =>
         set({
           bookmarks: bookmarks.map((b) => ({
             ...b,
             note: sanitizeNote(b.note),
+            collection: sanitizeName(b.collection),
+            tags: sanitizeTags(b.tags),
           })),
         }),
+
+      setCollections: (collections) =>
+        set({
+          collections: [
+            ...new Set(collections.map(sanitizeName).filter((name): name is string => !!name)),
+          ],
+        }),
       }),
       {
         name: 'bilingual-bible-bookmarks',
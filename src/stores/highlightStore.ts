@@ -0,0 +1,120 @@
+import { create } from 'zustand';
+import { persist, subscribeWithSelector } from 'zustand/middleware';
+import type {
+  Highlight,
+  HighlightAnchor,
+  HighlightColor,
+  HighlightRange,
+  HighlightStyle,
+} from '../types';
+import { compareHighlightRanges } from '../utils/highlights';
+
+function generateId(): string {
+  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Security: Sanitize and limit note length to prevent abuse
+const MAX_NOTE_LENGTH = 2000;
+function sanitizeNote(note?: string): string | undefined {
+  if (!note) return undefined;
+  return note.trim().slice(0, MAX_NOTE_LENGTH) || undefined;
+}
+
+interface HighlightState {
+  highlights: Highlight[];
+  // Color and style of the last highlight made or changed, used for the next one
+  lastColor: HighlightColor;
+  lastStyle: HighlightStyle;
+  // Start of a range picked in the reader, waiting for its other end (not persisted)
+  pendingAnchor: HighlightAnchor | null;
+
+  // Actions
+  addHighlight: (range: HighlightRange, color?: HighlightColor, style?: HighlightStyle) => Highlight;
+  updateHighlight: (id: string, changes: Partial<Pick<Highlight, 'color' | 'style' | 'note'>>) => void;
+  removeHighlight: (id: string) => void;
+  getHighlightsByBook: (bookId: string) => Highlight[];
+  setPendingAnchor: (anchor: HighlightAnchor | null) => void;
+  clearAllHighlights: () => void;
+  // Set highlights directly (for cloud sync)
+  setHighlights: (highlights: Highlight[]) => void;
+}
+
+export const useHighlightStore = create<HighlightState>()(
+  subscribeWithSelector(
+    persist(
+      (set, get) => ({
+        highlights: [],
+        lastColor: 'yellow',
+        lastStyle: 'fill',
+        pendingAnchor: null,
+
+      addHighlight: (range, color = get().lastColor, style = get().lastStyle) => {
+        const now = Date.now();
+        const highlight: Highlight = {
+          id: generateId(),
+          range,
+          color,
+          style,
+          createdAt: now,
+          updatedAt: now,
+        };
+        set((state) => ({
+          highlights: [highlight, ...state.highlights],
+          lastColor: color,
+          lastStyle: style,
+        }));
+        return highlight;
+      },
+
+      updateHighlight: (id, changes) => {
+        set((state) => ({
+          highlights: state.highlights.map((h) =>
+            h.id === id
+              ? {
+                  ...h,
+                  ...changes,
+                  note: 'note' in changes ? sanitizeNote(changes.note) : h.note,
+                  updatedAt: Date.now(),
+                }
+              : h
+          ),
+          lastColor: changes.color ?? state.lastColor,
+          lastStyle: changes.style ?? state.lastStyle,
+        }));
+      },
+
+      removeHighlight: (id) => {
+        set((state) => ({
+          highlights: state.highlights.filter((h) => h.id !== id),
+        }));
+      },
+
+      getHighlightsByBook: (bookId) => {
+        return get()
+          .highlights.filter((h) => h.range.bookId === bookId)
+          .sort((a, b) => compareHighlightRanges(a.range, b.range));
+      },
+
+      setPendingAnchor: (pendingAnchor) => set({ pendingAnchor }),
+
+      clearAllHighlights: () => set({ highlights: [] }),
+
+      setHighlights: (highlights) =>
+        set({
+          highlights: highlights.map((h) => ({
+            ...h,
+            note: sanitizeNote(h.note),
+          })),
+        }),
+      }),
+      {
+        name: 'bilingual-bible-highlights',
+        partialize: (state) => ({
+          highlights: state.highlights,
+          lastColor: state.lastColor,
+          lastStyle: state.lastStyle,
+        }),
+      }
+    )
+  )
+);
@@ -6,3 +6,6 @@ export { useHistoryStore } from './historyStore';
 export { useAuthStore } from './authStore';
 export { useProgressStore } from './progressStore';
 export { useReadingPlansStore, READING_PLANS } from './readingPlansStore';
+export { useKnownWordsStore } from './knownWordsStore';
+export { useHighlightStore } from './highlightStore';
+export { useJournalStore } from './journalStore';
@@ -0,0 +1,100 @@
+import { create } from 'zustand';
+import { persist, subscribeWithSelector } from 'zustand/middleware';
+import type { JournalEntry } from '../types';
+import { journalEntryCoversVerse } from '../utils/journal';
+
+function generateId(): string {
+  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Security: Limit sizes to prevent abuse (well within Firestore's 1 MB document limit)
+const MAX_TITLE_LENGTH = 200;
+const MAX_BODY_LENGTH = 50000;
+const MAX_LINKS = 100;
+
+function sanitizeEntry<T extends Partial<JournalEntry>>(entry: T): T {
+  return {
+    ...entry,
+    ...(entry.title !== undefined && { title: entry.title.slice(0, MAX_TITLE_LENGTH) }),
+    ...(entry.body !== undefined && { body: entry.body.slice(0, MAX_BODY_LENGTH) }),
+    ...(entry.passages !== undefined && { passages: entry.passages.slice(0, MAX_LINKS) }),
+    ...(entry.words !== undefined && { words: [...new Set(entry.words)].slice(0, MAX_LINKS) }),
+  };
+}
+
+type JournalContent = Pick<JournalEntry, 'title' | 'body' | 'passages' | 'words'>;
+
+interface JournalState {
+  entries: JournalEntry[];
+
+  // Actions
+  addEntry: (content?: Partial<JournalContent>) => JournalEntry;
+  updateEntry: (id: string, changes: Partial<JournalContent & Pick<JournalEntry, 'createdAt'>>) => void;
+  removeEntry: (id: string) => void;
+  getEntriesForVerse: (bookId: string, chapter: number, verse: number) => JournalEntry[];
+  clearAllEntries: () => void;
+  // Set entries directly (for cloud sync)
+  setEntries: (entries: JournalEntry[]) => void;
+}
+
+export const useJournalStore = create<JournalState>()(
+  subscribeWithSelector(
+    persist(
+      (set, get) => ({
+        entries: [],
+
+      addEntry: (content = {}) => {
+        const now = Date.now();
+        const entry: JournalEntry = sanitizeEntry({
+          id: generateId(),
+          title: '',
+          body: '',
+          passages: [],
+          words: [],
+          ...content,
+          createdAt: now,
+          updatedAt: now,
+        });
+        set((state) => ({ entries: [entry, ...state.entries] }));
+        return entry;
+      },
+
+      updateEntry: (id, changes) => {
+        set((state) => ({
+          entries: state.entries.map((entry) =>
+            entry.id === id ? { ...entry, ...sanitizeEntry(changes), updatedAt: Date.now() } : entry
+          ),
+        }));
+      },
+
+      removeEntry: (id) => {
+        set((state) => ({
+          entries: state.entries.filter((entry) => entry.id !== id),
+        }));
+      },
+
+      getEntriesForVerse: (bookId, chapter, verse) => {
+        return get()
+          .entries.filter((entry) => journalEntryCoversVerse(entry, bookId, chapter, verse))
+          .sort((a, b) => b.createdAt - a.createdAt);
+      },
+
+      clearAllEntries: () => set({ entries: [] }),
+
+      setEntries: (entries) =>
+        set({
+          entries: entries.map((entry) =>
+            sanitizeEntry({
+              ...entry,
+              passages: entry.passages ?? [],
+              words: entry.words ?? [],
+            })
+          ),
+        }),
+      }),
+      {
+        name: 'bilingual-bible-journal',
+      }
+    )
+  )
+);
@@ -0,0 +1,53 @@
+import { create } from 'zustand';
+import { persist, subscribeWithSelector } from 'zustand/middleware';
+import type { KnownWordMark, WordFamiliarity } from '../types';
+import { getKnownWordKey } from '../utils/knownWords';
+
+interface KnownWordsState {
+  // Words the learner marked themselves, keyed by getKnownWordKey
+  marks: Record<string, KnownWordMark>;
+
+  // Actions
+  setFamiliarity: (chinese: string, familiarity: WordFamiliarity) => void;
+  // Clear a mark so the vocabulary and reading level decide again
+  clearMark: (chinese: string) => void;
+  getMark: (chinese: string) => KnownWordMark | undefined;
+  clearAllMarks: () => void;
+  // Set marks directly (for cloud sync)
+  setMarks: (marks: Record<string, KnownWordMark>) => void;
+}
+
+export const useKnownWordsStore = create<KnownWordsState>()(
+  subscribeWithSelector(
+    persist(
+      (set, get) => ({
+        marks: {},
+
+      setFamiliarity: (chinese, familiarity) => {
+        const key = getKnownWordKey(chinese);
+        set((state) => ({
+          marks: { ...state.marks, [key]: { familiarity, updatedAt: Date.now() } },
+        }));
+      },
+
+      clearMark: (chinese) => {
+        const key = getKnownWordKey(chinese);
+        if (!get().marks[key]?.familiarity) return;
+        // Leave a tombstone rather than deleting, so a merge with an older copy keeps the clear
+        set((state) => ({
+          marks: { ...state.marks, [key]: { familiarity: null, updatedAt: Date.now() } },
+        }));
+      },
+
+      getMark: (chinese) => get().marks[getKnownWordKey(chinese)],
+
+      clearAllMarks: () => set({ marks: {} }),
+
+      setMarks: (marks) => set({ marks }),
+      }),
+      {
+        name: 'bilingual-bible-known-words',
+      }
+    )
+  )
+);
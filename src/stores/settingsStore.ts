@@ -2,6 +2,7 @@ import { create } from 'zustand';
 import { persist, subscribeWithSelector } from 'zustand/middleware';
 import {
   DEFAULT_SETTINGS,
+  isProficiencySystemAvailable,
 } from '../types';
 import type {
   Settings,
@@ -9,9 +10,16 @@ import type {
   FontFamily,
   TextSize,
   PinyinLevel,
+  ProficiencySystem,
   PinyinDisplay,
   CharacterSet,
+  PhoneticSystem,
+  ToneColors,
+  GlossDisplay,
   AudioSpeed,
+  CardDirection,
+  ParallelTranslation,
+  CopyFormat,
 } from '../types';
 
 // Theme colors for PWA status bar (matches --bg-primary from index.css)
@@ -35,13 +43,22 @@ interface SettingsState extends Settings {
   setFontFamily: (fontFamily: FontFamily) => void;
   setTextSize: (textSize: TextSize) => void;
   setPinyinLevel: (pinyinLevel: PinyinLevel) => void;
+  setProficiencySystem: (proficiencySystem: ProficiencySystem) => void;
   setPinyinDisplay: (pinyinDisplay: PinyinDisplay) => void; // Legacy
   setCharacterSet: (characterSet: CharacterSet) => void;
+  setPhoneticSystem: (phoneticSystem: PhoneticSystem) => void;
+  setToneColors: (toneColors: ToneColors) => void;
+  setToneSandhi: (enabled: boolean) => void;
   setShowHskIndicators: (show: boolean) => void;
+  setGlossDisplay: (glossDisplay: GlossDisplay) => void;
   setAudioSpeed: (speed: AudioSpeed) => void;
   setAmbientMusicEnabled: (enabled: boolean) => void;
+  setClozeSeparateSchedule: (separate: boolean) => void;
+  toggleCardDirection: (direction: CardDirection) => void;
   setChineseVersion: (version: string) => void;
   setEnglishVersion: (version: string) => void;
+  setParallelTranslation: (parallelTranslation: ParallelTranslation) => void;
+  setCopyFormat: (copyFormat: CopyFormat) => void;
   updateLastReadingPosition: (position: Settings['lastReadingPosition']) => void;
   resetSettings: () => void;
 }
@@ -72,6 +89,11 @@ export const useSettingsStore = create<SettingsState>()(
         set({ pinyinLevel });
       },
 
+      setProficiencySystem: (proficiencySystem) => {
+        if (!isProficiencySystemAvailable(proficiencySystem)) return;
+        set({ proficiencySystem });
+      },
+
       // Legacy - kept for backwards compatibility
       setPinyinDisplay: (pinyinDisplay) => {
         document.documentElement.setAttribute('data-pinyin', pinyinDisplay);
@@ -80,6 +102,15 @@ export const useSettingsStore = create<SettingsState>()(
 
       setCharacterSet: (characterSet) => set({ characterSet }),
 
+      setPhoneticSystem: (phoneticSystem) => set({ phoneticSystem }),
+
+      setToneColors: (toneColors) => {
+        document.documentElement.setAttribute('data-tone-colors', toneColors);
+        set({ toneColors });
+      },
+
+      setToneSandhi: (toneSandhi) => set({ toneSandhi }),
+
       setShowHskIndicators: (showHskIndicators) => {
         document.documentElement.setAttribute(
           'data-show-hsk',
@@ -88,14 +119,33 @@ export const useSettingsStore = create<SettingsState>()(
         set({ showHskIndicators });
       },
 
+      setGlossDisplay: (glossDisplay) => set({ glossDisplay }),
+
       setAudioSpeed: (audioSpeed) => set({ audioSpeed }),
 
       setAmbientMusicEnabled: (ambientMusicEnabled) => set({ ambientMusicEnabled }),
 
+      setClozeSeparateSchedule: (clozeSeparateSchedule) => set({ clozeSeparateSchedule }),
+
+      toggleCardDirection: (direction) =>
+        set((state) => {
+          const enabled = state.enabledCardDirections;
+          if (enabled.includes(direction)) {
+            // Keep at least one direction enabled
+            if (enabled.length === 1) return {};
+            return { enabledCardDirections: enabled.filter((d) => d !== direction) };
+          }
+          return { enabledCardDirections: [...enabled, direction] };
+        }),
+
       setChineseVersion: (chineseVersion) => set({ chineseVersion }),
 
       setEnglishVersion: (englishVersion) => set({ englishVersion }),
 
+      setParallelTranslation: (parallelTranslation) => set({ parallelTranslation }),
+
+      setCopyFormat: (copyFormat) => set({ copyFormat }),
+
       updateLastReadingPosition: (lastReadingPosition) =>
         set({ lastReadingPosition }),
 
@@ -108,6 +158,7 @@ export const useSettingsStore = create<SettingsState>()(
           'data-show-hsk',
           String(DEFAULT_SETTINGS.showHskIndicators)
         );
+        document.documentElement.setAttribute('data-tone-colors', DEFAULT_SETTINGS.toneColors);
         // Update PWA status bar color
         updateThemeColor(DEFAULT_SETTINGS.theme);
         set(DEFAULT_SETTINGS);
@@ -126,6 +177,11 @@ export const useSettingsStore = create<SettingsState>()(
               'data-show-hsk',
               String(state.showHskIndicators)
             );
+            document.documentElement.setAttribute('data-tone-colors', state.toneColors || 'off');
+            // A system chosen before its levels were withdrawn would hide every badge
+            if (state.proficiencySystem && !isProficiencySystemAvailable(state.proficiencySystem)) {
+              useSettingsStore.setState({ proficiencySystem: DEFAULT_SETTINGS.proficiencySystem });
+            }
             // Update PWA status bar color
             updateThemeColor(state.theme);
           }
@@ -2,55 +2,35 @@ import { create } from 'zustand';
 import { persist, subscribeWithSelector, createJSONStorage } from 'zustand/middleware';
 import type {
   SavedWord,
-  SRSData,
   ReviewResult,
+  ReviewLogEntry,
+  CardType,
+  ReviewCard,
   VocabularyStats,
   VerseReference,
+  VocabularyImportEntry,
+  VocabularyImportResult,
 } from '../types';
+import {
+  calculateNextReview,
+  createInitialSRSData,
+  normalizeSRSData,
+  getRetrievability,
+  getCardSRSData,
+} from '../utils/srs';
+import { getWordContexts, isSameVerse } from '../utils/wordContexts';
+import { trimReviewLog } from '../utils/reviewAnalytics';
+import { toTraditional } from '../utils/characterConversion';
 
-// Simple SRS intervals (in days)
-const SRS_INTERVALS = {
-  again: 1, // Review tomorrow
-  good: [1, 3, 7, 14, 30, 60], // Progressive intervals
-};
+// Keep the "seen in" list from growing without bound for very common words
+export const MAX_SEEN_IN = 50;
 
 function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
-function calculateNextReview(srsData: SRSData, result: ReviewResult): SRSData {
-  const now = Date.now();
-  const dayInMs = 24 * 60 * 60 * 1000;
-
-  if (result === 'again') {
-    return {
-      interval: SRS_INTERVALS.again,
-      streak: 0,
-      lastReview: now,
-      nextReview: now + SRS_INTERVALS.again * dayInMs,
-      status: 'learning',
-    };
-  }
-
-  // result === 'good'
-  const newStreak = srsData.streak + 1;
-  const intervalIndex = Math.min(newStreak, SRS_INTERVALS.good.length - 1);
-  const newInterval = SRS_INTERVALS.good[intervalIndex];
-
-  let status: SRSData['status'] = 'reviewing';
-  if (newStreak >= 4) {
-    status = 'mastered';
-  } else if (newStreak === 0) {
-    status = 'learning';
-  }
-
-  return {
-    interval: newInterval,
-    streak: newStreak,
-    lastReview: now,
-    nextReview: now + newInterval * dayInMs,
-    status,
-  };
+function normalizeWord(word: SavedWord): SavedWord {
+  return { ...word, srsData: normalizeSRSData(word.srsData) };
 }
 
 interface VocabularyState {
@@ -69,12 +49,24 @@ interface VocabularyState {
     hskLevel?: number
   ) => void;
   removeWord: (wordId: string) => void;
+  // Remember another verse where a saved word was encountered
+  recordWordContext: (chinese: string, verseRef: VerseReference) => void;
   isWordSaved: (chinese: string) => boolean;
   getWordByChars: (chinese: string) => SavedWord | undefined;
-  reviewWord: (wordId: string, result: ReviewResult) => void;
-  getWordsDueForReview: () => SavedWord[];
-  getStats: () => VocabularyStats;
+  reviewWord: (
+    wordId: string,
+    result: ReviewResult,
+    responseTimeMs?: number,
+    cardType?: CardType
+  ) => void;
+  getWordsDueForReview: (cardType?: CardType) => SavedWord[];
+  // Due cards for the given card types, grouped by type so a word's cards are spread apart
+  getDueCards: (cardTypes: CardType[]) => ReviewCard[];
+  // Due, recall and lapse figures cover the given card types (recognition by default)
+  getStats: (cardTypes?: CardType[]) => VocabularyStats;
   clearAllWords: () => void;
+  // Add words from an import file, skipping ones that are already saved
+  importWords: (entries: VocabularyImportEntry[]) => VocabularyImportResult;
   // Set words directly (for cloud sync - preserves SRS data)
   setWords: (words: SavedWord[]) => void;
   // Set hydration state
@@ -91,8 +83,9 @@ export const useVocabularyStore = create<VocabularyState>()(
         setHasHydrated: (state: boolean) => set({ _hasHydrated: state }),
 
       addWord: (chinese, pinyin, definition, sourceVerse, partOfSpeech, hskLevel) => {
-        // Don't add duplicates
+        // Don't add duplicates, but remember the new verse
         if (get().isWordSaved(chinese)) {
+          get().recordWordContext(chinese, sourceVerse);
           return;
         }
 
@@ -105,13 +98,7 @@ export const useVocabularyStore = create<VocabularyState>()(
           partOfSpeech,
           hskLevel,
           sourceVerse,
-          srsData: {
-            interval: 1,
-            streak: 0,
-            lastReview: null,
-            nextReview: now, // Due immediately for first review
-            status: 'learning',
-          },
+          srsData: createInitialSRSData(now), // Due immediately for first review
           createdAt: now,
           updatedAt: now,
         };
@@ -127,6 +114,21 @@ export const useVocabularyStore = create<VocabularyState>()(
         }));
       },
 
+      recordWordContext: (chinese, verseRef) => {
+        const word = get().getWordByChars(chinese);
+        if (!word || getWordContexts(word).some((ref) => isSameVerse(ref, verseRef))) {
+          return;
+        }
+
+        const { bookId, chapter, verse } = verseRef;
+        const seenIn = [...(word.seenIn ?? []), { bookId, chapter, verse }].slice(-MAX_SEEN_IN);
+        set((state) => ({
+          words: state.words.map((w) =>
+            w.id === word.id ? { ...w, seenIn, updatedAt: Date.now() } : w
+          ),
+        }));
+      },
+
       isWordSaved: (chinese) => {
         return get().words.some((w) => w.chinese === chinese);
       },
@@ -135,46 +137,133 @@ export const useVocabularyStore = create<VocabularyState>()(
         return get().words.find((w) => w.chinese === chinese);
       },
 
-      reviewWord: (wordId, result) => {
+      reviewWord: (wordId, result, responseTimeMs = 0, cardType = 'recognition') => {
+        const now = Date.now();
         set((state) => ({
           words: state.words.map((word) => {
             if (word.id !== wordId) return word;
 
-            return {
+            const previous = getCardSRSData(word, cardType);
+            const srsData = calculateNextReview(previous, result, now);
+            const logEntry: ReviewLogEntry = {
+              id: generateId(),
+              timestamp: now,
+              grade: result,
+              previousInterval: previous.lastReview === null ? 0 : previous.interval,
+              newInterval: srsData.interval,
+              responseTimeMs: Math.round(responseTimeMs),
+              cardType,
+            };
+
+            const updated: SavedWord = {
               ...word,
-              srsData: calculateNextReview(word.srsData, result),
-              updatedAt: Date.now(),
+              reviewLog: trimReviewLog([...(word.reviewLog ?? []), logEntry]),
+              updatedAt: now,
             };
+            if (cardType === 'recognition') {
+              updated.srsData = srsData;
+            } else {
+              updated.cardSrsData = { ...word.cardSrsData, [cardType]: srsData };
+            }
+            return updated;
           }),
         }));
       },
 
-      getWordsDueForReview: () => {
+      getWordsDueForReview: (cardType = 'recognition') => {
         const now = Date.now();
-        return get().words.filter((word) => word.srsData.nextReview <= now);
+        return get().words.filter(
+          (word) => getCardSRSData(word, cardType).nextReview <= now
+        );
       },
 
-      getStats: () => {
+      getDueCards: (cardTypes) => {
+        const now = Date.now();
+        const words = get().words;
+        return cardTypes.flatMap((cardType) =>
+          words
+            .map((word) => ({ word, nextReview: getCardSRSData(word, cardType).nextReview }))
+            .filter(({ nextReview }) => nextReview <= now)
+            .sort((a, b) => a.nextReview - b.nextReview)
+            .map(({ word }) => ({ word, cardType }))
+        );
+      },
+
+      getStats: (cardTypes = ['recognition']) => {
         const words = get().words;
         const now = Date.now();
+        const reviewed = words.filter((w) => w.srsData.lastReview !== null);
+        // Every card of the given types, so the due count matches getDueCards
+        const cards = cardTypes.flatMap((cardType) => words.map((w) => getCardSRSData(w, cardType)));
+        const reviewedCards = cards.filter((card) => card.lastReview !== null);
+        const totalRetention = reviewedCards.reduce(
+          (sum, card) => sum + getRetrievability(card, now),
+          0
+        );
 
         return {
           totalWords: words.length,
           masteredWords: words.filter((w) => w.srsData.status === 'mastered').length,
-          learningWords: words.filter((w) => w.srsData.status === 'learning').length,
+          learningWords: words.filter(
+            (w) => w.srsData.status === 'learning' && w.srsData.lastReview !== null
+          ).length,
           reviewingWords: words.filter((w) => w.srsData.status === 'reviewing').length,
-          dueForReview: words.filter((w) => w.srsData.nextReview <= now).length,
+          newWords: words.length - reviewed.length,
+          dueForReview: cards.filter((card) => card.nextReview <= now).length,
+          averageRetention: reviewedCards.length > 0 ? totalRetention / reviewedCards.length : 0,
+          totalLapses: cards.reduce((sum, card) => sum + (card.lapses ?? 0), 0),
         };
       },
 
       clearAllWords: () => set({ words: [] }),
 
+      importWords: (entries) => {
+        const now = Date.now();
+        // Compare in one script so a Simplified import matches a word saved in Traditional
+        const seen = new Set(get().words.map((w) => toTraditional(w.chinese)));
+        const imported: SavedWord[] = [];
+
+        for (const entry of entries) {
+          const key = toTraditional(entry.chinese);
+          if (seen.has(key)) continue;
+          seen.add(key);
+
+          imported.push({
+            id: generateId(),
+            chinese: entry.chinese,
+            pinyin: entry.pinyin,
+            definition: entry.definition,
+            partOfSpeech: entry.partOfSpeech,
+            hskLevel: entry.hskLevel,
+            sourceVerse: entry.sourceVerse,
+            srsData: entry.srsData ? normalizeSRSData(entry.srsData) : createInitialSRSData(now),
+            createdAt: now,
+            updatedAt: now,
+          });
+        }
+
+        if (imported.length > 0) {
+          set((state) => ({ words: [...imported, ...state.words] }));
+        }
+        return { added: imported.length, skipped: entries.length - imported.length };
+      },
+
       // Set words directly (for cloud sync - preserves all data including SRS)
-      setWords: (words) => set({ words }),
+      // Words from devices still on the old scheduler get their memory-model fields filled in
+      setWords: (words) => set({ words: words.map(normalizeWord) }),
       }),
       {
         name: 'bilingual-bible-vocabulary',
         storage: createJSONStorage(() => localStorage),
+        version: 2,
+        // v1 used a fixed interval ladder; seed FSRS state from the saved interval
+        migrate: (persistedState, version) => {
+          const state = persistedState as { words?: SavedWord[] };
+          if (version < 2 && Array.isArray(state?.words)) {
+            return { ...state, words: state.words.map(normalizeWord) };
+          }
+          return state;
+        },
         onRehydrateStorage: () => {
           // This outer function is called when hydration starts
           console.log('[VocabularyStore] Hydration starting...');
@@ -32,6 +32,7 @@ export interface SegmentedWord {
   definition?: string;
   partOfSpeech?: string;          // Part of speech code: n, v, adj, adv, prep, conj, part, mw, pron, num, prop
   hskLevel?: number | null;       // HSK proficiency level (1-6)
+  hsk3Level?: number | null;      // HSK 3.0 level (1-6, 7 = the shared 7-9 band)
   tocflLevel?: number | null;     // TOCFL proficiency level (1-7)
   // Enhanced fields from preprocessing
   isName?: boolean;
@@ -0,0 +1,55 @@
+// Highlight and annotation types
+
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink' | 'purple';
+
+// Fill behind the text, or a solid, dashed or wavy underline
+export type HighlightStyle = 'fill' | 'underline' | 'dashed' | 'wavy';
+
+// Colors are defined per theme in index.css (--annotation-*)
+export const HIGHLIGHT_COLORS: { value: HighlightColor; label: string }[] = [
+  { value: 'yellow', label: 'Yellow' },
+  { value: 'green', label: 'Green' },
+  { value: 'blue', label: 'Blue' },
+  { value: 'pink', label: 'Pink' },
+  { value: 'purple', label: 'Purple' },
+];
+
+export const HIGHLIGHT_STYLES: { value: HighlightStyle; label: string }[] = [
+  { value: 'fill', label: 'Highlight' },
+  { value: 'underline', label: 'Underline' },
+  { value: 'dashed', label: 'Dashed' },
+  { value: 'wavy', label: 'Wavy' },
+];
+
+/**
+ * A passage within one chapter: whole verses, or a word-level span.
+ * startWord is the startIndex of the first word (in startVerse) and endWord the
+ * endIndex of the last word (in endVerse), as in SegmentedWord; without them
+ * the range covers the whole of its first and last verses.
+ */
+export interface HighlightRange {
+  bookId: string;
+  chapter: number;
+  startVerse: number;
+  endVerse: number;
+  startWord?: number;
+  endWord?: number;
+}
+
+export interface Highlight {
+  id: string;
+  range: HighlightRange;
+  color: HighlightColor;
+  style: HighlightStyle;
+  note?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// One end of a range being picked in the reader: a verse, or a word in it
+export interface HighlightAnchor {
+  bookId: string;
+  chapter: number;
+  verse: number;
+  word?: { startIndex: number; endIndex: number };
+}
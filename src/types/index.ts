@@ -4,3 +4,5 @@ export * from './settings';
 export * from './audio';
 export * from './progress';
 export * from './feedback';
+export * from './highlights';
+export * from './journal';
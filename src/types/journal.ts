@@ -0,0 +1,21 @@
+// Study journal types
+
+/** Whole verses within one chapter */
+export interface JournalPassage {
+  bookId: string;
+  chapter: number;
+  startVerse: number;
+  endVerse: number;
+}
+
+export interface JournalEntry {
+  id: string;
+  title: string;
+  // Markdown-ish text: # headings, **bold**, *italic*, - lists and > quotes
+  body: string;
+  passages: JournalPassage[];
+  // Linked saved words, by their Chinese text
+  words: string[];
+  createdAt: number; // The entry's date
+  updatedAt: number;
+}
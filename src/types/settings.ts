@@ -1,5 +1,8 @@
 // Settings and preferences types
 
+import type { SegmentedWord } from './bible';
+import type { CardDirection, WordFamiliarity } from './vocabulary';
+
 export type Theme = 'light' | 'sepia' | 'dark';
 
 export type FontFamily = 'serif' | 'sans';
@@ -7,67 +10,184 @@ export type FontFamily = 'serif' | 'sans';
 export type TextSize = 'sm' | 'md' | 'lg' | 'xl' | '2xl';
 
 // Pinyin display levels based on Chinese reading proficiency
-// Controls which words show pinyin based on HSK level
+// Controls which words show pinyin based on the word's level in the chosen proficiency system
 export type PinyinLevel =
   | 'all'      // Beginner (初学) - Show pinyin for all characters
-  | 'hsk2+'    // Elementary (入门) - Hide HSK 1, show for HSK 2+
-  | 'hsk4+'    // Intermediate (中级) - Hide HSK 1-3, show for HSK 4+
-  | 'hsk5+'    // Upper-Intermediate (中高级) - Hide HSK 1-4, show for HSK 5+
-  | 'hsk6+'    // Advanced (高级) - Hide HSK 1-5, show only HSK 6+ and rare words
+  | 'hsk2+'    // Elementary (入门) - Hide level 1, show for level 2+
+  | 'hsk4+'    // Intermediate (中级) - Hide levels 1-3, show for level 4+
+  | 'hsk5+'    // Upper-Intermediate (中高级) - Hide levels 1-4, show for level 5+
+  | 'hsk6+'    // Advanced (高级) - Show only the top band (HSK 2.0 6, HSK 3.0 7-9, TOCFL 6+) and rare words
   | 'none';    // Fluent (流利) - No pinyin shown
 
 // Legacy type for backwards compatibility
 export type PinyinDisplay = 'always' | 'smart' | 'hidden';
 
+// Word lists that grade vocabulary: HSK 2.0 (levels 1-6), HSK 3.0 (levels 1-6 plus a
+// shared 7-9 band, stored as 7) and Taiwan's TOCFL (levels 1-7)
+export type ProficiencySystem = 'hsk2' | 'hsk3' | 'tocfl';
+
+export const PROFICIENCY_SYSTEMS: {
+  value: ProficiencySystem;
+  label: string;
+  description: string;
+  maxLevel: number;
+  // False until the chapter files carry the system's levels; hidden in Settings until then
+  available: boolean;
+}[] = [
+  { value: 'hsk2', label: 'HSK 2.0', description: '6 levels', maxLevel: 6, available: true },
+  // No chapter has hsk3Level yet: scripts/data/new-hsk1.json ... new-hsk7.json are not bundled
+  { value: 'hsk3', label: 'HSK 3.0', description: 'Levels 1-6 and 7-9', maxLevel: 7, available: false },
+  { value: 'tocfl', label: 'TOCFL', description: 'Taiwan, 7 levels', maxLevel: 7, available: true },
+];
+
+/** Whether the chapter data has levels for the system */
+export function isProficiencySystemAvailable(system: ProficiencySystem): boolean {
+  return PROFICIENCY_SYSTEMS.some((option) => option.value === system && option.available);
+}
+
 // Pinyin level metadata for UI
 export const PINYIN_LEVELS: {
   value: PinyinLevel;
   label: { chinese: string; english: string; pinyin: string };
-  description: string;
-  minHskToShow: number | null; // null = show all, 7 = show none
+  description: string; // Completed with the hidden levels by getPinyinLevelDescription
+  minLevelToShow: Record<ProficiencySystem, number> | null; // null = show all
 }[] = [
   {
     value: 'all',
     label: { chinese: '初学', english: 'Beginner', pinyin: 'chūxué' },
     description: 'Show pinyin for all characters',
-    minHskToShow: null,
+    minLevelToShow: null,
   },
   {
     value: 'hsk2+',
     label: { chinese: '入门', english: 'Elementary', pinyin: 'rùmén' },
-    description: 'Hide very basic words (HSK 1, common words)',
-    minHskToShow: 2,
+    description: 'Hide very basic words',
+    minLevelToShow: { hsk2: 2, hsk3: 2, tocfl: 2 },
   },
   {
     value: 'hsk4+',
     label: { chinese: '中级', english: 'Intermediate', pinyin: 'zhōngjí' },
-    description: 'Show pinyin for less common words (HSK 4+, rare/biblical)',
-    minHskToShow: 4,
+    description: 'Show pinyin for less common words',
+    minLevelToShow: { hsk2: 4, hsk3: 4, tocfl: 4 },
   },
   {
     value: 'hsk5+',
     label: { chinese: '中高级', english: 'Upper-Intermediate', pinyin: 'zhōnggāojí' },
-    description: 'Show pinyin for advanced vocabulary (HSK 5+, rare/biblical)',
-    minHskToShow: 5,
+    description: 'Show pinyin for advanced vocabulary',
+    minLevelToShow: { hsk2: 5, hsk3: 5, tocfl: 5 },
   },
   {
     value: 'hsk6+',
     label: { chinese: '高级', english: 'Advanced', pinyin: 'gāojí' },
-    description: 'Show pinyin only for rare/biblical terms (HSK 6+)',
-    minHskToShow: 6,
+    description: 'Show pinyin only for rare and biblical terms',
+    minLevelToShow: { hsk2: 6, hsk3: 7, tocfl: 6 },
   },
   {
     value: 'none',
     label: { chinese: '流利', english: 'Fluent', pinyin: 'liúlì' },
     description: 'No pinyin shown',
-    minHskToShow: 7, // effectively hide all
+    minLevelToShow: { hsk2: 7, hsk3: 8, tocfl: 8 }, // effectively hide all
   },
 ];
 
 export type CharacterSet = 'traditional' | 'simplified';
 
+// Phonetic annotation over the characters: pinyin above, zhuyin to the right, or both
+export type PhoneticSystem = 'pinyin' | 'zhuyin' | 'both';
+
+export const PHONETIC_SYSTEMS: {
+  value: PhoneticSystem;
+  label: { chinese: string; english: string };
+}[] = [
+  { value: 'pinyin', label: { chinese: '拼音', english: 'Pinyin' } },
+  { value: 'zhuyin', label: { chinese: '注音', english: 'Zhuyin' } },
+  { value: 'both', label: { chinese: '兩者', english: 'Both' } },
+];
+
+// Tone coloring of characters and pinyin; palettes are defined per theme in index.css
+export type ToneColors = 'off' | 'classic' | 'colorblind';
+
+export const TONE_COLOR_OPTIONS: {
+  value: ToneColors;
+  label: string;
+  description: string;
+}[] = [
+  { value: 'off', label: 'Off', description: 'No tone colors' },
+  { value: 'classic', label: 'Classic', description: 'Red, green, blue, purple' },
+  { value: 'colorblind', label: 'Colorblind', description: 'Colorblind-safe palette' },
+];
+
+// Interlinear English gloss under each word
+export type GlossDisplay = 'off' | 'all' | 'unfamiliar';
+
+export const GLOSS_DISPLAY_OPTIONS: {
+  value: GlossDisplay;
+  label: string;
+  description: string;
+}[] = [
+  { value: 'off', label: 'Off', description: 'Long-press for meanings' },
+  { value: 'all', label: 'All', description: 'Gloss every word' },
+  { value: 'unfamiliar', label: 'Unfamiliar', description: 'Same words as pinyin' },
+];
+
+// Card direction metadata for UI
+export const CARD_DIRECTIONS: {
+  value: CardDirection;
+  label: { chinese: string; english: string };
+  description: string;
+}[] = [
+  {
+    value: 'recognition',
+    label: { chinese: '認字', english: 'Recognition' },
+    description: 'Chinese → meaning',
+  },
+  {
+    value: 'recall',
+    label: { chinese: '回想', english: 'Recall' },
+    description: 'Meaning → Chinese',
+  },
+  {
+    value: 'listening',
+    label: { chinese: '聽力', english: 'Listening' },
+    description: 'Audio → meaning',
+  },
+  {
+    value: 'tone',
+    label: { chinese: '聲調', english: 'Tones' },
+    description: 'Identify each syllable’s tone',
+  },
+];
+
 export type AudioSpeed = 0.75 | 1 | 1.25;
 
+// English shown alongside the whole chapter: under each verse, or in a second column on wide screens
+export type ParallelTranslation = 'off' | 'inline' | 'side-by-side';
+
+export const PARALLEL_TRANSLATION_OPTIONS: {
+  value: ParallelTranslation;
+  label: string;
+  description: string;
+}[] = [
+  { value: 'off', label: 'Off', description: 'Chinese only' },
+  { value: 'inline', label: 'Inline', description: 'English under each verse' },
+  { value: 'side-by-side', label: 'Columns', description: 'Side by side on wide screens' },
+];
+
+// How "Copy" formats a verse range
+export type CopyFormat = 'chinese' | 'pinyin' | 'ruby' | 'bilingual' | 'markdown';
+
+export const COPY_FORMAT_OPTIONS: {
+  value: CopyFormat;
+  label: string;
+  description: string;
+}[] = [
+  { value: 'chinese', label: 'Chinese', description: 'Plain Chinese text' },
+  { value: 'pinyin', label: 'Pinyin', description: 'Chinese with a pinyin line' },
+  { value: 'ruby', label: 'Ruby HTML', description: 'Pinyin over each character' },
+  { value: 'bilingual', label: 'Bilingual', description: 'Chinese and English' },
+  { value: 'markdown', label: 'Markdown', description: 'Quote with the reference' },
+];
+
 export interface Settings {
   // Appearance
   theme: Theme;
@@ -76,18 +196,31 @@ export interface Settings {
 
   // Chinese display
   pinyinLevel: PinyinLevel;
+  proficiencySystem: ProficiencySystem; // Word levels behind pinyinLevel and the HSK indicators
   pinyinDisplay: PinyinDisplay; // Legacy - kept for migration
   characterSet: CharacterSet;
+  phoneticSystem: PhoneticSystem;
+  toneColors: ToneColors;
+  toneSandhi: boolean; // Show tones as spoken (一, 不, third-tone sandhi) instead of citation tones
   showHskIndicators: boolean;
+  glossDisplay: GlossDisplay;
 
   // Bible versions
   chineseVersion: string;
   englishVersion: string;
+  parallelTranslation: ParallelTranslation;
+
+  // Sharing
+  copyFormat: CopyFormat;
 
   // Audio
   audioSpeed: AudioSpeed;
   ambientMusicEnabled: boolean;
 
+  // Vocabulary review
+  enabledCardDirections: CardDirection[];
+  clozeSeparateSchedule: boolean; // Cloze cards keep their own SRS state instead of sharing the word's
+
   // Reading
   lastReadingPosition: {
     bookId: string;
@@ -102,56 +235,85 @@ export const DEFAULT_SETTINGS: Settings = {
   fontFamily: 'serif',
   textSize: 'md',
   pinyinLevel: 'all',
+  proficiencySystem: 'hsk2',
   pinyinDisplay: 'always', // Legacy
   characterSet: 'traditional',
+  phoneticSystem: 'pinyin',
+  toneColors: 'off',
+  toneSandhi: false,
   showHskIndicators: false,
+  glossDisplay: 'off',
   chineseVersion: 'cnv',
   englishVersion: 'bsb',
+  parallelTranslation: 'off',
+  copyFormat: 'bilingual',
   audioSpeed: 1,
   ambientMusicEnabled: false,
+  enabledCardDirections: ['recognition'],
+  clozeSeparateSchedule: false,
   lastReadingPosition: null,
 };
 
+/** A word's level in the chosen system; null when the word isn't on that system's lists */
+export function getProficiencyLevel(
+  word: Pick<SegmentedWord, 'hskLevel' | 'hsk3Level' | 'tocflLevel'>,
+  system: ProficiencySystem
+): number | null {
+  switch (system) {
+    case 'hsk3':
+      return word.hsk3Level ?? null;
+    case 'tocfl':
+      return word.tocflLevel ?? null;
+    default:
+      return word.hskLevel ?? null;
+  }
+}
+
+/** Badge label for a level: "HSK 4", "HSK 7–9", "TOCFL 3" */
+export function formatProficiencyLevel(level: number, system: ProficiencySystem): string {
+  if (system === 'tocfl') return `TOCFL ${level}`;
+  return system === 'hsk3' && level >= 7 ? 'HSK 7–9' : `HSK ${level}`;
+}
+
+/** Reading level description naming the levels it hides in the chosen system */
+export function getPinyinLevelDescription(pinyinLevel: PinyinLevel, system: ProficiencySystem): string {
+  const levelConfig = PINYIN_LEVELS.find(l => l.value === pinyinLevel);
+  if (!levelConfig) return '';
+  if (!levelConfig.minLevelToShow || pinyinLevel === 'none') return levelConfig.description;
+
+  const highestHidden = levelConfig.minLevelToShow[system] - 1;
+  const name = system === 'tocfl' ? 'TOCFL' : 'HSK';
+  const hidden = highestHidden > 1 ? `${name} 1–${highestHidden}` : `${name} 1`;
+  return `${levelConfig.description} (${hidden} hidden)`;
+}
+
 // Helper function to determine if pinyin should be shown for a word
+// proficiencyLevel is the word's level in the chosen system (see getProficiencyLevel)
+// A personal familiarity (see utils/knownWords.ts) overrides the level rules,
+// including Beginner and Fluent
 export function shouldShowPinyin(
   pinyinLevel: PinyinLevel,
-  hskLevel?: number | null,
+  proficiencySystem: ProficiencySystem,
+  proficiencyLevel?: number | null,
   freq?: 'common' | 'uncommon' | 'rare' | 'biblical',
-  tocflLevel?: number | null
+  familiarity?: WordFamiliarity | null
 ): boolean {
+  if (familiarity) return familiarity === 'learning';
   if (pinyinLevel === 'all') return true;
   if (pinyinLevel === 'none') return false;
 
-  // Get the minimum HSK level required to show pinyin
+  // Get the minimum level in the chosen system required to show pinyin
   const levelConfig = PINYIN_LEVELS.find(l => l.value === pinyinLevel);
-  if (!levelConfig || levelConfig.minHskToShow === null) return true;
-
-  // Calculate effective level from HSK and/or TOCFL
-  // HSK 1-6 maps roughly to TOCFL 1-7, so we normalize
-  let effectiveLevel: number | null = null;
-
-  if (hskLevel !== undefined && hskLevel !== null) {
-    effectiveLevel = hskLevel;
-  }
-
-  if (tocflLevel !== undefined && tocflLevel !== null) {
-    // TOCFL 1-7 → normalize to HSK-like 1-6 scale: (tocfl - 1) * 6/6 + 1
-    const normalizedTocfl = Math.ceil(tocflLevel * (6 / 7));
-    if (effectiveLevel !== null) {
-      // Average HSK and normalized TOCFL
-      effectiveLevel = Math.round((effectiveLevel + normalizedTocfl) / 2);
-    } else {
-      effectiveLevel = normalizedTocfl;
-    }
-  }
+  if (!levelConfig || levelConfig.minLevelToShow === null) return true;
+  const minLevelToShow = levelConfig.minLevelToShow[proficiencySystem];
 
-  // For words with proficiency level (HSK or TOCFL), use level-based filtering
-  if (effectiveLevel !== null) {
-    return effectiveLevel >= levelConfig.minHskToShow;
+  // For words on the chosen system's lists, use level-based filtering
+  if (proficiencyLevel !== undefined && proficiencyLevel !== null) {
+    return proficiencyLevel >= minLevelToShow;
   }
 
-  // For words without proficiency level, use frequency-based filtering
-  // This handles biblical terms and other words not in HSK/TOCFL systems
+  // For words without a level, use frequency-based filtering
+  // This handles biblical terms and other words not on the chosen system's lists
   if (freq) {
     switch (pinyinLevel) {
       case 'hsk2+':
@@ -172,5 +334,5 @@ export function shouldShowPinyin(
   }
 
   // Words without proficiency level or freq are considered rare - show at higher levels
-  return levelConfig.minHskToShow >= 4;
+  return minLevelToShow >= 4;
 }
@@ -9,10 +9,16 @@ export interface SavedWord {
   definition: string;
   partOfSpeech?: string;
   hskLevel?: number;
-  // Where this word was first encountered
-  sourceVerse: VerseReference;
-  // SRS data
+  // Where this word was first encountered; absent for words imported without a verse
+  sourceVerse?: VerseReference;
+  // Other verses where the word was saved or looked up again, oldest first
+  seenIn?: VerseReference[];
+  // SRS data (for the standard recognition card)
   srsData: SRSData;
+  // Independent SRS state for other card types, created on first review
+  cardSrsData?: Partial<Record<CardType, SRSData>>;
+  // Every review of this word, oldest first
+  reviewLog?: ReviewLogEntry[];
   // Timestamps
   createdAt: number;
   updatedAt: number;
@@ -29,9 +35,57 @@ export interface SRSData {
   nextReview: number;
   // Mastery level: 'learning' | 'reviewing' | 'mastered'
   status: 'learning' | 'reviewing' | 'mastered';
+  // SM-2 ease factor (starts at 2.5, floor 1.3)
+  ease: number;
+  // FSRS memory stability in days (0 = never reviewed)
+  stability: number;
+  // FSRS difficulty on a 1-10 scale (0 = never reviewed)
+  difficulty: number;
+  // Total number of reviews
+  reps: number;
+  // Number of times a reviewed card was forgotten
+  lapses: number;
 }
 
-export type ReviewResult = 'again' | 'good';
+export type ReviewResult = 'again' | 'hard' | 'good' | 'easy';
+
+// Review directions a learner can enable for their saved words
+// 'recognition': Chinese → meaning (scheduled by SavedWord.srsData)
+// 'recall': meaning → Chinese
+// 'listening': audio only → meaning
+// 'tone': identify the tone of each syllable
+export type CardDirection = 'recognition' | 'recall' | 'listening' | 'tone';
+
+// Flashcard variants that can be reviewed for a saved word
+// 'cloze': source verse with the word blanked out
+export type CardType = CardDirection | 'cloze';
+
+// One card in a review session
+export interface ReviewCard {
+  word: SavedWord;
+  cardType: CardType;
+}
+
+export interface ReviewLogEntry {
+  id: string;
+  timestamp: number;
+  grade: ReviewResult;
+  // Interval in days before and after this review (0 = first review)
+  previousInterval: number;
+  newInterval: number;
+  // Time from card shown to grade, in milliseconds
+  responseTimeMs: number;
+  // Card that was reviewed (missing on entries logged before card types existed)
+  cardType?: CardType;
+}
+
+export interface RetentionStats {
+  totalReviews: number;
+  // Share of reviews of already-learned words that were not graded 'again'
+  trueRetention: number;
+  lapses: number;
+  averageResponseMs: number;
+}
 
 export interface FlashcardSession {
   words: SavedWord[];
@@ -48,5 +102,39 @@ export interface VocabularyStats {
   masteredWords: number;
   learningWords: number;
   reviewingWords: number;
+  newWords: number;
+  // Due cards across the card types asked for, as in the review queue
   dueForReview: number;
+  // Average predicted recall probability (0-1) across reviewed cards
+  averageRetention: number;
+  // Total number of times reviewed cards were forgotten
+  totalLapses: number;
+}
+
+// A word read from a CSV/TSV file or Anki deck, before it is added to the store
+export interface VocabularyImportEntry {
+  chinese: string;
+  pinyin: string;
+  definition: string;
+  partOfSpeech?: string;
+  hskLevel?: number;
+  sourceVerse?: VerseReference;
+  // Scheduling carried over from the source; new words start fresh when absent
+  srsData?: SRSData;
+}
+
+export interface VocabularyImportResult {
+  added: number;
+  // Words already in the list (or repeated within the file)
+  skipped: number;
+}
+
+// Personal override of the reading-level pinyin rules for one word
+// 'known': hide its pinyin, 'learning': always show it
+export type WordFamiliarity = 'known' | 'learning';
+
+// A word the learner marked themselves ("I know this" / "Keep pinyin")
+export interface KnownWordMark {
+  familiarity: WordFamiliarity | null; // null: mark cleared, kept so the clear wins when merging devices
+  updatedAt: number;
 }
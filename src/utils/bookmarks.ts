@@ -0,0 +1,36 @@
+// Bookmark ordering and filing helpers
+
+import type { Bookmark } from '../stores/bookmarkStore';
+import { getBookIndex } from '../data/bible/books';
+
+export type BookmarkSort = 'canonical' | 'newest' | 'oldest';
+
+export const BOOKMARK_SORTS: { value: BookmarkSort; label: string }[] = [
+  { value: 'canonical', label: 'Bible order' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'oldest', label: 'Oldest' },
+];
+
+export function sortBookmarks(bookmarks: Bookmark[], sort: BookmarkSort): Bookmark[] {
+  const sorted = [...bookmarks];
+  switch (sort) {
+    case 'canonical':
+      return sorted.sort(
+        (a, b) =>
+          getBookIndex(a.verseRef.bookId) - getBookIndex(b.verseRef.bookId) ||
+          a.verseRef.chapter - b.verseRef.chapter ||
+          a.verseRef.verse - b.verseRef.verse
+      );
+    case 'newest':
+      return sorted.sort((a, b) => b.createdAt - a.createdAt);
+    case 'oldest':
+      return sorted.sort((a, b) => a.createdAt - b.createdAt);
+  }
+}
+
+/** Every tag in use, alphabetically */
+export function getBookmarkTags(bookmarks: Bookmark[]): string[] {
+  const tags = new Set<string>();
+  bookmarks.forEach((b) => b.tags?.forEach((tag) => tags.add(tag)));
+  return [...tags].sort((a, b) => a.localeCompare(b));
+}
@@ -0,0 +1,106 @@
+// Highlight range helpers
+//
+// A range covers its middle verses whole; in its first and last verse a word
+// is covered when it lies within startWord/endWord (see HighlightRange).
+
+import type { Highlight, HighlightAnchor, HighlightRange } from '../types';
+
+type WordSpan = { startIndex: number; endIndex: number };
+
+export function highlightCoversVerse(
+  range: HighlightRange,
+  bookId: string,
+  chapter: number,
+  verse: number
+): boolean {
+  return (
+    range.bookId === bookId &&
+    range.chapter === chapter &&
+    verse >= range.startVerse &&
+    verse <= range.endVerse
+  );
+}
+
+/** Whether a word of a verse the range covers falls inside the range */
+export function highlightCoversWord(range: HighlightRange, verse: number, word: WordSpan): boolean {
+  if (verse === range.startVerse && range.startWord !== undefined && word.startIndex < range.startWord) {
+    return false;
+  }
+  if (verse === range.endVerse && range.endWord !== undefined && word.endIndex > range.endWord) {
+    return false;
+  }
+  return true;
+}
+
+/** Whether the range takes in every word of the verse */
+export function highlightCoversWholeVerse(range: HighlightRange, verse: number): boolean {
+  return (
+    !(verse === range.startVerse && range.startWord !== undefined) &&
+    !(verse === range.endVerse && range.endWord !== undefined)
+  );
+}
+
+/** The most recently created highlight covering a verse (or one word of it) */
+export function findHighlightAt(highlights: Highlight[], anchor: HighlightAnchor): Highlight | undefined {
+  let found: Highlight | undefined;
+  for (const highlight of highlights) {
+    if (!highlightCoversVerse(highlight.range, anchor.bookId, anchor.chapter, anchor.verse)) continue;
+    const covers = anchor.word
+      ? highlightCoversWord(highlight.range, anchor.verse, anchor.word)
+      : highlightCoversWholeVerse(highlight.range, anchor.verse);
+    if (covers && (!found || highlight.createdAt > found.createdAt)) found = highlight;
+  }
+  return found;
+}
+
+/** Single-verse or single-word range for an anchor */
+export function rangeFromAnchor(anchor: HighlightAnchor): HighlightRange {
+  return rangeFromAnchors(anchor, anchor)!;
+}
+
+/**
+ * Range between two anchors, in either order. Null when they are in
+ * different chapters - ranges never cross a chapter boundary.
+ */
+export function rangeFromAnchors(a: HighlightAnchor, b: HighlightAnchor): HighlightRange | null {
+  if (a.bookId !== b.bookId || a.chapter !== b.chapter) return null;
+
+  const aFirst =
+    a.verse !== b.verse
+      ? a.verse < b.verse
+      : (a.word?.startIndex ?? -1) <= (b.word?.startIndex ?? -1);
+  const [start, end] = aFirst ? [a, b] : [b, a];
+
+  const range: HighlightRange = {
+    bookId: a.bookId,
+    chapter: a.chapter,
+    startVerse: start.verse,
+    endVerse: end.verse,
+  };
+  // A verse anchor at either end takes in that whole verse
+  if (start.word && end.word) {
+    range.startWord = start.word.startIndex;
+    range.endWord = Math.max(end.word.endIndex, start.verse === end.verse ? start.word.endIndex : -1);
+  } else if (start.word && start.verse !== end.verse) {
+    range.startWord = start.word.startIndex;
+  } else if (end.word && start.verse !== end.verse) {
+    range.endWord = end.word.endIndex;
+  }
+  return range;
+}
+
+/** Canonical order within a book: by chapter, verse, then word */
+export function compareHighlightRanges(a: HighlightRange, b: HighlightRange): number {
+  return (
+    a.chapter - b.chapter ||
+    a.startVerse - b.startVerse ||
+    (a.startWord ?? -1) - (b.startWord ?? -1)
+  );
+}
+
+/** Chapter and verses of a range: "3:16" or "3:16–18" */
+export function formatHighlightRange(range: HighlightRange): string {
+  const verses =
+    range.endVerse === range.startVerse ? `${range.startVerse}` : `${range.startVerse}–${range.endVerse}`;
+  return `${range.chapter}:${verses}`;
+}
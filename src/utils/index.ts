@@ -1,3 +1,53 @@
-export { splitPinyinSyllables, splitChineseCharacters } from './pinyin';
+export {
+  splitPinyinSyllables,
+  splitChineseCharacters,
+  getPinyinTone,
+  stripPinyinTone,
+  toZhuyinSyllable,
+  pinyinToZhuyin,
+  convertPinyinToZhuyin,
+  formatPhonetic,
+  setPinyinTone,
+} from './pinyin';
+export { applyToneSandhi } from './toneSandhi';
 export { convertCharacters, toSimplified, toTraditional } from './characterConversion';
 export { isEndOfPassage, isWithinPassage, findEndingPassage, getNextPassage } from './readingPlanHelpers';
+export {
+  calculateNextReview,
+  createInitialSRSData,
+  normalizeSRSData,
+  previewIntervals,
+  formatInterval,
+  getRetrievability,
+  getCardSRSData,
+  REVIEW_RESULTS,
+} from './srs';
+export { computeRetentionStats, forecastDueWords } from './reviewAnalytics';
+export { isSameVerse, getWordContexts, pickExampleVerse } from './wordContexts';
+export { downloadBlob } from './download';
+export {
+  getKnownWordKey,
+  getVocabularyFamiliarity,
+  resolveWordFamiliarity,
+  mergeKnownWordMarks,
+} from './knownWords';
+export {
+  highlightCoversVerse,
+  highlightCoversWord,
+  highlightCoversWholeVerse,
+  findHighlightAt,
+  rangeFromAnchor,
+  rangeFromAnchors,
+  compareHighlightRanges,
+  formatHighlightRange,
+} from './highlights';
+export {
+  journalPassageCoversVerse,
+  journalEntryCoversVerse,
+  formatJournalPassage,
+  searchJournalEntries,
+  parseJournalBlocks,
+  parseJournalInline,
+  journalToMarkdown,
+} from './journal';
+export { BOOKMARK_SORTS, sortBookmarks, getBookmarkTags, type BookmarkSort } from './bookmarks';
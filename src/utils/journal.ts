@@ -0,0 +1,162 @@
+// Study journal helpers: passage matching, search, markdown rendering and export
+//
+// Entry bodies use a small markdown subset - # headings, **bold**, *italic*,
+// "- " or "1. " list items and "> " quotes - so they read well both in the
+// app and in the exported file.
+
+import type { JournalEntry, JournalPassage } from '../types';
+import { getBookById } from '../data/bible/books';
+
+export function journalPassageCoversVerse(
+  passage: JournalPassage,
+  bookId: string,
+  chapter: number,
+  verse: number
+): boolean {
+  return (
+    passage.bookId === bookId &&
+    passage.chapter === chapter &&
+    verse >= passage.startVerse &&
+    verse <= passage.endVerse
+  );
+}
+
+export function journalEntryCoversVerse(
+  entry: JournalEntry,
+  bookId: string,
+  chapter: number,
+  verse: number
+): boolean {
+  return entry.passages.some((passage) => journalPassageCoversVerse(passage, bookId, chapter, verse));
+}
+
+/** "John 3:16" or "John 3:16–18" */
+export function formatJournalPassage(passage: JournalPassage): string {
+  const bookName = getBookById(passage.bookId)?.name.english ?? passage.bookId;
+  const verses =
+    passage.endVerse === passage.startVerse
+      ? `${passage.startVerse}`
+      : `${passage.startVerse}–${passage.endVerse}`;
+  return `${bookName} ${passage.chapter}:${verses}`;
+}
+
+/**
+ * Entries matching every term of the query, newest first. Terms are looked
+ * for in the title, body, linked words and passage references.
+ */
+export function searchJournalEntries(entries: JournalEntry[], query: string): JournalEntry[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const sorted = [...entries].sort((a, b) => b.createdAt - a.createdAt);
+  if (terms.length === 0) return sorted;
+
+  return sorted.filter((entry) => {
+    const haystack = [
+      entry.title,
+      entry.body,
+      ...entry.words,
+      ...entry.passages.map(formatJournalPassage),
+    ]
+      .join('\n')
+      .toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+}
+
+export type JournalBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'quote'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] };
+
+/** Split an entry body into blocks; consecutive lines join into one paragraph or quote */
+export function parseJournalBlocks(body: string): JournalBlock[] {
+  const blocks: JournalBlock[] = [];
+
+  for (const rawLine of body.split('\n')) {
+    const line = rawLine.trim();
+    const last = blocks[blocks.length - 1];
+    if (!line) {
+      // Blank lines end the current block
+      if (last) blocks.push({ type: 'paragraph', text: '' });
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    const listItem = line.match(/^(?:([-*])|(\d+)[.)])\s+(.*)$/);
+    const quote = line.match(/^>\s?(.*)$/);
+
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length as 1 | 2 | 3, text: heading[2] });
+    } else if (listItem) {
+      const ordered = listItem[2] !== undefined;
+      if (last?.type === 'list' && last.ordered === ordered) {
+        last.items.push(listItem[3]);
+      } else {
+        blocks.push({ type: 'list', ordered, items: [listItem[3]] });
+      }
+    } else if (quote) {
+      if (last?.type === 'quote') {
+        last.text += `\n${quote[1]}`;
+      } else {
+        blocks.push({ type: 'quote', text: quote[1] });
+      }
+    } else if (last?.type === 'paragraph' && last.text) {
+      last.text += `\n${line}`;
+    } else {
+      blocks.push({ type: 'paragraph', text: line });
+    }
+  }
+
+  return blocks.filter((block) => block.type !== 'paragraph' || block.text);
+}
+
+export interface JournalInline {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+/** **bold** and *italic* runs within a line of text */
+export function parseJournalInline(text: string): JournalInline[] {
+  const runs: JournalInline[] = [];
+  const pattern = /\*\*(.+?)\*\*|\*(.+?)\*/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) runs.push({ text: text.slice(lastIndex, match.index) });
+    runs.push(match[1] !== undefined ? { text: match[1], bold: true } : { text: match[2], italic: true });
+    lastIndex = pattern.lastIndex;
+  }
+  if (lastIndex < text.length) runs.push({ text: text.slice(lastIndex) });
+  return runs;
+}
+
+/** YYYY-MM-DD in local time */
+function formatEntryDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** The journal as one Markdown document, oldest entry first */
+export function journalToMarkdown(entries: JournalEntry[]): string {
+  const sections = [...entries]
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map((entry) => {
+      const lines = [`## ${entry.title || 'Untitled'}`, '', `*${formatEntryDate(entry.createdAt)}*`];
+      if (entry.passages.length > 0) {
+        lines.push('', `**Passages:** ${entry.passages.map(formatJournalPassage).join('; ')}`);
+      }
+      if (entry.words.length > 0) {
+        lines.push('', `**Words:** ${entry.words.join('、')}`);
+      }
+      // Headings in the body sit below the entry's own heading
+      const body = entry.body.trim().replace(/^(#{1,3})\s/gm, '##$1 ');
+      if (body) lines.push('', body);
+      return lines.join('\n');
+    });
+
+  return ['# Study Journal', ...sections].join('\n\n') + '\n';
+}
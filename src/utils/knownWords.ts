@@ -0,0 +1,63 @@
+// Personal known-word model - which words the learner already knows
+//
+// A word's familiarity comes from, in order:
+// 1. A mark the learner set themselves ("I know this" / "Keep pinyin")
+// 2. Their saved vocabulary: mastered words are known, words still being
+//    reviewed keep their pinyin
+// Words with neither fall back to the reading-level rules in shouldShowPinyin.
+
+import type { SavedWord, KnownWordMark, WordFamiliarity } from '../types/vocabulary';
+import { toTraditional } from './characterConversion';
+
+/** Words are stored in Traditional so marks survive switching character sets */
+export function getKnownWordKey(chinese: string): string {
+  return toTraditional(chinese);
+}
+
+// Familiarity index per vocabulary array - the store replaces the array on every change
+const vocabularyIndexCache = new WeakMap<SavedWord[], Map<string, WordFamiliarity>>();
+
+function getVocabularyIndex(words: SavedWord[]): Map<string, WordFamiliarity> {
+  let index = vocabularyIndexCache.get(words);
+  if (!index) {
+    index = new Map();
+    for (const word of words) {
+      index.set(
+        getKnownWordKey(word.chinese),
+        word.srsData.status === 'mastered' ? 'known' : 'learning'
+      );
+    }
+    vocabularyIndexCache.set(words, index);
+  }
+  return index;
+}
+
+/** Familiarity implied by the saved vocabulary, or null for unsaved words */
+export function getVocabularyFamiliarity(
+  words: SavedWord[],
+  chinese: string
+): WordFamiliarity | null {
+  return getVocabularyIndex(words).get(getKnownWordKey(chinese)) ?? null;
+}
+
+/** A manual mark wins over the vocabulary */
+export function resolveWordFamiliarity(
+  mark: KnownWordMark | undefined,
+  vocabularyFamiliarity: WordFamiliarity | null
+): WordFamiliarity | null {
+  return mark?.familiarity ?? vocabularyFamiliarity;
+}
+
+/** Combine marks from two devices, keeping the newer mark for each word */
+export function mergeKnownWordMarks(
+  local: Record<string, KnownWordMark>,
+  cloud: Record<string, KnownWordMark>
+): Record<string, KnownWordMark> {
+  const merged = { ...local };
+  for (const [key, mark] of Object.entries(cloud)) {
+    if (!merged[key] || mark.updatedAt > merged[key].updatedAt) {
+      merged[key] = mark;
+    }
+  }
+  return merged;
+}
@@ -1,5 +1,7 @@
 // Pinyin utility functions
 
+import type { PhoneticSystem } from '../types';
+
 // A set of valid pinyin syllables (without tone marks).
 // Generated from `@pinyin-pro/data/modern` (Mandarin) by normalizing tone marks to base vowels.
 // Used to avoid incorrect syllable splits when pinyin is concatenated without separators.
@@ -514,6 +516,31 @@ function fixConsonantCarrySplits(syllables: string[]): string[] {
   return fixed;
 }
 
+// Tone number (1-4) for each tone-marked vowel
+const TONE_MARK_NUMBERS = new Map<string, number>(
+  ['āáǎà', 'ēéěè', 'īíǐì', 'ōóǒò', 'ūúǔù', 'ǖǘǚǜ', 'ĀÁǍÀ', 'ĒÉĚÈ', 'ĪÍǏÌ', 'ŌÓǑÒ', 'ŪÚǓÙ', 'ǕǗǙǛ'].flatMap(
+    (vowels) => Array.from(vowels).map((vowel, index): [string, number] => [vowel, index + 1])
+  )
+);
+
+// Get the tone of a single pinyin syllable (1-4, or 5 for neutral tone)
+// Accepts tone marks (ēn) or a trailing tone number (en1)
+export function getPinyinTone(syllable: string): number {
+  const toneNumber = syllable.trim().match(/([1-5])$/);
+  if (toneNumber) return Number(toneNumber[1]);
+
+  for (const ch of syllable) {
+    const tone = TONE_MARK_NUMBERS.get(ch);
+    if (tone) return tone;
+  }
+  return 5;
+}
+
+// Remove tone marks and tone numbers from a pinyin syllable (lowercased, keeps ü)
+export function stripPinyinTone(syllable: string): string {
+  return normalizeSyllableForValidation(syllable);
+}
+
 // Split pinyin string into syllables matching the number of Chinese characters
 export function splitPinyinSyllables(pinyin: string, charCount: number): string[] {
   if (!pinyin || charCount === 0) return [];
@@ -605,3 +632,203 @@ export function splitPinyinSyllables(pinyin: string, charCount: number): string[
 export function splitChineseCharacters(text: string): string[] {
   return [...text].filter(char => !/\s/.test(char));
 }
+
+export interface PinyinQuerySyllable {
+  base: string;        // Toneless, lowercased, keeps ü
+  tone: number | null; // 1-5, or null when the query gave no tone
+}
+
+const MAX_SYLLABLE_LENGTH = 6; // e.g. zhuang
+
+/**
+ * Parse free-form pinyin typed into search: "en dian", "ēndiǎn", "en4dian3",
+ * "lv4" (v for ü). Returns null unless the whole query splits into valid syllables.
+ */
+export function parsePinyinQuery(query: string): PinyinQuerySyllable[] | null {
+  const chunks = query.toLowerCase().replace(/v/g, 'ü').split(/[\s'’-]+/).filter(Boolean);
+  if (chunks.length === 0) return null;
+
+  const result: PinyinQuerySyllable[] = [];
+  for (const chunk of chunks) {
+    const syllables = segmentPinyinChunk(Array.from(chunk), 0);
+    if (!syllables) return null;
+    result.push(...syllables);
+  }
+  return result;
+}
+
+// Longest-first segmentation with backtracking, so "xian" stays one syllable
+// but "xianen" still splits into "xian" + "en"
+function segmentPinyinChunk(chars: string[], start: number): PinyinQuerySyllable[] | null {
+  if (start === chars.length) return [];
+
+  for (let length = Math.min(MAX_SYLLABLE_LENGTH, chars.length - start); length > 0; length--) {
+    const piece = chars.slice(start, start + length).join('');
+    if (/\d/.test(piece) || !isValidPinyinSyllable(piece)) continue;
+
+    let end = start + length;
+    let tone: number | null = /[āáǎàēéěèīíǐìōóǒòūúǔùǖǘǚǜ]/.test(piece) ? getPinyinTone(piece) : null;
+    if (/[1-5]/.test(chars[end] ?? '')) {
+      tone = Number(chars[end]);
+      end++;
+    }
+
+    const rest = segmentPinyinChunk(chars, end);
+    if (rest) return [{ base: normalizeSyllableForValidation(piece), tone }, ...rest];
+  }
+  return null;
+}
+
+// ============================================
+// Zhuyin (Bopomofo)
+// ============================================
+
+const ZHUYIN_INITIALS: [string, string][] = [
+  // Two-letter initials first so 'zh' wins over 'z'
+  ['zh', 'ㄓ'], ['ch', 'ㄔ'], ['sh', 'ㄕ'],
+  ['b', 'ㄅ'], ['p', 'ㄆ'], ['m', 'ㄇ'], ['f', 'ㄈ'],
+  ['d', 'ㄉ'], ['t', 'ㄊ'], ['n', 'ㄋ'], ['l', 'ㄌ'],
+  ['g', 'ㄍ'], ['k', 'ㄎ'], ['h', 'ㄏ'],
+  ['j', 'ㄐ'], ['q', 'ㄑ'], ['x', 'ㄒ'],
+  ['r', 'ㄖ'], ['z', 'ㄗ'], ['c', 'ㄘ'], ['s', 'ㄙ'],
+];
+
+// Finals in their full (unabbreviated) spelling
+const ZHUYIN_FINALS = new Map<string, string>([
+  ['a', 'ㄚ'], ['o', 'ㄛ'], ['e', 'ㄜ'], ['ê', 'ㄝ'],
+  ['ai', 'ㄞ'], ['ei', 'ㄟ'], ['ao', 'ㄠ'], ['ou', 'ㄡ'],
+  ['an', 'ㄢ'], ['en', 'ㄣ'], ['ang', 'ㄤ'], ['eng', 'ㄥ'], ['er', 'ㄦ'], ['ong', 'ㄨㄥ'],
+  ['i', 'ㄧ'], ['ia', 'ㄧㄚ'], ['io', 'ㄧㄛ'], ['ie', 'ㄧㄝ'], ['iai', 'ㄧㄞ'], ['iao', 'ㄧㄠ'], ['iou', 'ㄧㄡ'],
+  ['ian', 'ㄧㄢ'], ['in', 'ㄧㄣ'], ['iang', 'ㄧㄤ'], ['ing', 'ㄧㄥ'], ['iong', 'ㄩㄥ'],
+  ['u', 'ㄨ'], ['ua', 'ㄨㄚ'], ['uo', 'ㄨㄛ'], ['uai', 'ㄨㄞ'], ['uei', 'ㄨㄟ'],
+  ['uan', 'ㄨㄢ'], ['uen', 'ㄨㄣ'], ['uang', 'ㄨㄤ'], ['ueng', 'ㄨㄥ'],
+  ['ü', 'ㄩ'], ['üe', 'ㄩㄝ'], ['üan', 'ㄩㄢ'], ['ün', 'ㄩㄣ'],
+]);
+
+// Tone marks, indexed by tone number; the neutral tone dot goes before the symbols
+const ZHUYIN_TONE_MARKS = ['', '', 'ˊ', 'ˇ', 'ˋ', '˙'];
+
+// Initials whose -i syllable has no zhuyin final (zhi, chi, shi, ri, zi, ci, si)
+const BARE_INITIALS = new Set(['zh', 'ch', 'sh', 'r', 'z', 'c', 's']);
+
+export interface ZhuyinSyllable {
+  symbols: string;  // Bopomofo letters without the tone, e.g. 'ㄉㄧㄢ'
+  tone: number;     // 1-4, or 5 for neutral tone
+  toneMark: string; // '', 'ˊ', 'ˇ', 'ˋ' or '˙'
+}
+
+// Restore the full final from pinyin's spelling rules: y/w forms, j/q/x + u = ü,
+// and the contracted iu/ui/un
+function expandPinyinFinal(initial: string, rest: string): string {
+  if (initial === 'y') {
+    if (rest.startsWith('u')) return `ü${rest.slice(1)}`;
+    if (rest.startsWith('i')) return rest;
+    return `i${rest}`;
+  }
+  if (initial === 'w') return rest === 'u' ? 'u' : `u${rest}`;
+  if ((initial === 'j' || initial === 'q' || initial === 'x') && rest.startsWith('u')) {
+    return `ü${rest.slice(1)}`;
+  }
+  if (rest === 'iu') return 'iou';
+  if (rest === 'ui') return 'uei';
+  if (rest === 'un') return 'uen';
+  return rest;
+}
+
+/**
+ * Convert one pinyin syllable (tone marks or tone number) to zhuyin.
+ * Returns null for anything that isn't a valid Mandarin syllable.
+ */
+export function toZhuyinSyllable(syllable: string): ZhuyinSyllable | null {
+  const tone = getPinyinTone(syllable);
+  let base = normalizeSyllableForValidation(syllable).replace(/v/g, 'ü');
+
+  // Erhua (e.g. huār) keeps its ㄦ after the syllable
+  let suffix = '';
+  if (base.length > 2 && base.endsWith('r') && !isValidPinyinSyllable(base)) {
+    base = base.slice(0, -1);
+    suffix = 'ㄦ';
+  }
+  if (!VALID_PINYIN_SYLLABLES.has(base)) return null;
+
+  const match = ZHUYIN_INITIALS.find(([initial]) => base.startsWith(initial));
+  const glide = /^[yw]/.test(base) ? base[0] : '';
+  const initial = match?.[0] ?? glide;
+  const rest = base.slice(initial.length);
+
+  let symbols: string | undefined;
+  if (rest === 'i' && BARE_INITIALS.has(initial)) {
+    symbols = match![1];
+  } else {
+    const final = ZHUYIN_FINALS.get(expandPinyinFinal(initial, rest));
+    if (final) symbols = (glide ? '' : match?.[1] ?? '') + final;
+  }
+  if (!symbols) return null;
+
+  return { symbols: symbols + suffix, tone, toneMark: ZHUYIN_TONE_MARKS[tone] };
+}
+
+/** One syllable as written zhuyin text: ㄉㄧㄢˇ, ˙ㄉㄜ */
+export function pinyinToZhuyin(syllable: string): string | null {
+  const zhuyin = toZhuyinSyllable(syllable);
+  if (!zhuyin) return null;
+  return zhuyin.tone === 5 ? `${zhuyin.toneMark}${zhuyin.symbols}` : `${zhuyin.symbols}${zhuyin.toneMark}`;
+}
+
+/**
+ * Convert a word's pinyin to space-separated zhuyin, one syllable per character.
+ * Syllables that can't be converted are kept as pinyin.
+ */
+export function convertPinyinToZhuyin(pinyin: string, charCount: number): string {
+  return splitPinyinSyllables(pinyin, charCount)
+    .map((syllable) => pinyinToZhuyin(syllable) ?? syllable)
+    .join(' ');
+}
+
+/** A word's reading in the chosen phonetic system; 'both' puts zhuyin after the pinyin */
+export function formatPhonetic(pinyin: string, chinese: string, system: PhoneticSystem): string {
+  if (system === 'pinyin' || !pinyin) return pinyin;
+  const zhuyin = convertPinyinToZhuyin(pinyin, splitChineseCharacters(chinese).length);
+  return system === 'zhuyin' ? zhuyin : `${pinyin} · ${zhuyin}`;
+}
+
+// Tone-marked forms of each vowel, tones 1-4
+const TONE_MARKED_VOWELS: Record<string, string> = {
+  a: 'āáǎà',
+  e: 'ēéěè',
+  i: 'īíǐì',
+  o: 'ōóǒò',
+  u: 'ūúǔù',
+  ü: 'ǖǘǚǜ',
+};
+
+/**
+ * Rewrite a syllable with another tone, keeping its style (tone mark or
+ * number) and capitalization: setPinyinTone('bù', 2) -> 'bú'.
+ * The mark goes on a/e, the o of ou, otherwise the last vowel.
+ */
+export function setPinyinTone(syllable: string, tone: number): string {
+  const trimmed = syllable.trim();
+  if (/[1-5]$/.test(trimmed)) return `${trimmed.slice(0, -1)}${tone}`;
+
+  const base = stripPinyinTone(trimmed);
+  let marked = base;
+  if (tone >= 1 && tone <= 4) {
+    let index = base.search(/[ae]/);
+    if (index === -1) index = base.indexOf('ou');
+    if (index === -1) {
+      for (let i = base.length - 1; i >= 0; i--) {
+        if (TONE_MARKED_VOWELS[base[i]]) {
+          index = i;
+          break;
+        }
+      }
+    }
+    if (index !== -1) {
+      marked = base.slice(0, index) + TONE_MARKED_VOWELS[base[index]][tone - 1] + base.slice(index + 1);
+    }
+  }
+
+  const isCapitalized = trimmed[0] !== trimmed[0].toLowerCase();
+  return isCapitalized ? marked[0].toUpperCase() + marked.slice(1) : marked;
+}
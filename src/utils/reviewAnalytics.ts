@@ -0,0 +1,95 @@
+// Review history analytics for saved vocabulary
+
+import type { SavedWord, RetentionStats, ReviewLogEntry, CardType } from '../types/vocabulary';
+import { DAY_IN_MS, getCardSRSData } from './srs';
+
+// Review log entries kept per card type; older ones are dropped so the log
+// stays within localStorage and Firestore document limits
+export const MAX_REVIEW_LOG_PER_CARD = 50;
+
+/**
+ * The newest MAX_REVIEW_LOG_PER_CARD entries of each card type, oldest first
+ */
+export function trimReviewLog(log: ReviewLogEntry[]): ReviewLogEntry[] {
+  const counts = new Map<CardType, number>();
+  const kept: ReviewLogEntry[] = [];
+  for (let i = log.length - 1; i >= 0; i--) {
+    const cardType = log[i].cardType ?? 'recognition';
+    const count = counts.get(cardType) ?? 0;
+    if (count >= MAX_REVIEW_LOG_PER_CARD) continue;
+    counts.set(cardType, count + 1);
+    kept.push(log[i]);
+  }
+  return kept.reverse();
+}
+
+/**
+ * Computes actual retention from the review logs of all saved words.
+ * First reviews are excluded since the learner had not memorized the word yet.
+ */
+export function computeRetentionStats(words: SavedWord[]): RetentionStats {
+  let totalReviews = 0;
+  let matureReviews = 0;
+  let recalled = 0;
+  let lapses = 0;
+  let totalResponseMs = 0;
+  let timedReviews = 0;
+
+  for (const word of words) {
+    for (const entry of word.reviewLog ?? []) {
+      totalReviews += 1;
+      if (entry.responseTimeMs > 0) {
+        totalResponseMs += entry.responseTimeMs;
+        timedReviews += 1;
+      }
+      if (entry.previousInterval === 0) continue;
+
+      matureReviews += 1;
+      if (entry.grade === 'again') {
+        lapses += 1;
+      } else {
+        recalled += 1;
+      }
+    }
+  }
+
+  return {
+    totalReviews,
+    trueRetention: matureReviews > 0 ? recalled / matureReviews : 0,
+    lapses,
+    averageResponseMs: timedReviews > 0 ? totalResponseMs / timedReviews : 0,
+  };
+}
+
+/**
+ * Number of cards of the given types coming due on each of the next `days`
+ * days. Index 0 is today and includes overdue cards.
+ */
+export function forecastDueWords(
+  words: SavedWord[],
+  cardTypes: CardType[] = ['recognition'],
+  days: number = 30,
+  now: number = Date.now()
+): number[] {
+  const forecast = new Array<number>(days).fill(0);
+  const today = new Date(now);
+  const startOfToday = new Date(
+    today.getFullYear(),
+    today.getMonth(),
+    today.getDate()
+  ).getTime();
+
+  for (const cardType of cardTypes) {
+    for (const word of words) {
+      const dayIndex = Math.max(
+        0,
+        Math.floor((getCardSRSData(word, cardType).nextReview - startOfToday) / DAY_IN_MS)
+      );
+      if (dayIndex < days) {
+        forecast[dayIndex] += 1;
+      }
+    }
+  }
+
+  return forecast;
+}
@@ -0,0 +1,277 @@
+// Spaced repetition scheduling (FSRS-4.5 memory model with SM-2 style ease)
+//
+// Each card tracks stability (days until recall probability drops to 90%)
+// and difficulty (1-10). Ease is kept alongside as an SM-2 factor so the
+// schedule can round-trip through tools like Anki.
+
+import type { SRSData, ReviewResult, SavedWord, CardType } from '../types/vocabulary';
+
+export const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+// Default FSRS-4.5 parameters
+const W = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+
+// Target probability of recall when a card comes due
+const REQUEST_RETENTION = 0.9;
+
+const MAXIMUM_INTERVAL = 365 * 3;
+
+// Intervals at or above this are considered mastered (Anki's "mature" threshold)
+const MASTERED_INTERVAL = 21;
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const EASE_DELTA: Record<ReviewResult, number> = {
+  again: -0.2,
+  hard: -0.15,
+  good: 0,
+  easy: 0.15,
+};
+
+const GRADE_VALUE: Record<ReviewResult, number> = {
+  again: 1,
+  hard: 2,
+  good: 3,
+  easy: 4,
+};
+
+export const REVIEW_RESULTS: ReviewResult[] = ['again', 'hard', 'good', 'easy'];
+
+// Fuzz ranges spread reviews of cards learned together across several days
+const FUZZ_RANGES = [
+  { start: 2.5, end: 7, factor: 0.15 },
+  { start: 7, end: 20, factor: 0.1 },
+  { start: 20, end: Infinity, factor: 0.05 },
+];
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(Math.max(value, min), max);
+
+function initialStability(result: ReviewResult): number {
+  return Math.max(W[GRADE_VALUE[result] - 1], 0.1);
+}
+
+function initialDifficulty(result: ReviewResult): number {
+  return clamp(W[4] - (GRADE_VALUE[result] - 3) * W[5], 1, 10);
+}
+
+function nextDifficulty(difficulty: number, result: ReviewResult): number {
+  const updated = difficulty - W[6] * (GRADE_VALUE[result] - 3);
+  // Mean reversion towards the default difficulty keeps cards from getting stuck
+  return clamp(W[7] * initialDifficulty('good') + (1 - W[7]) * updated, 1, 10);
+}
+
+function recallStability(
+  difficulty: number,
+  stability: number,
+  retrievability: number,
+  result: ReviewResult
+): number {
+  const hardPenalty = result === 'hard' ? W[15] : 1;
+  const easyBonus = result === 'easy' ? W[16] : 1;
+  return (
+    stability *
+    (1 +
+      Math.exp(W[8]) *
+        (11 - difficulty) *
+        Math.pow(stability, -W[9]) *
+        (Math.exp((1 - retrievability) * W[10]) - 1) *
+        hardPenalty *
+        easyBonus)
+  );
+}
+
+function forgetStability(
+  difficulty: number,
+  stability: number,
+  retrievability: number
+): number {
+  const next =
+    W[11] *
+    Math.pow(difficulty, -W[12]) *
+    (Math.pow(stability + 1, W[13]) - 1) *
+    Math.exp((1 - retrievability) * W[14]);
+  return Math.min(next, stability);
+}
+
+function stabilityToInterval(stability: number): number {
+  const interval =
+    (stability / FACTOR) * (Math.pow(REQUEST_RETENTION, 1 / DECAY) - 1);
+  return clamp(Math.round(interval), 1, MAXIMUM_INTERVAL);
+}
+
+function fuzzInterval(interval: number): number {
+  if (interval < 2.5) return interval;
+
+  let delta = 1;
+  for (const range of FUZZ_RANGES) {
+    delta += range.factor * Math.max(Math.min(interval, range.end) - range.start, 0);
+  }
+
+  const min = Math.max(2, Math.round(interval - delta));
+  const max = Math.min(Math.round(interval + delta), MAXIMUM_INTERVAL);
+  return Math.floor(Math.random() * (max - min + 1)) + min;
+}
+
+/**
+ * Probability (0-1) that the card is still remembered at the given time
+ */
+export function getRetrievability(srsData: SRSData, now: number = Date.now()): number {
+  if (srsData.lastReview === null || srsData.stability <= 0) return 0;
+  const elapsedDays = Math.max(0, (now - srsData.lastReview) / DAY_IN_MS);
+  return Math.pow(1 + (FACTOR * elapsedDays) / srsData.stability, DECAY);
+}
+
+/**
+ * Fresh SRS state for a newly saved word (due immediately)
+ */
+export function createInitialSRSData(now: number = Date.now()): SRSData {
+  return {
+    interval: 1,
+    streak: 0,
+    lastReview: null,
+    nextReview: now,
+    status: 'learning',
+    ease: DEFAULT_EASE,
+    stability: 0,
+    difficulty: 0,
+    reps: 0,
+    lapses: 0,
+  };
+}
+
+/**
+ * Fills in the memory-model fields for SRS data saved by the old fixed-ladder
+ * scheduler (or synced from a device that has not been updated yet).
+ */
+export function normalizeSRSData(srsData: Partial<SRSData> | undefined): SRSData {
+  const base = createInitialSRSData(srsData?.nextReview ?? Date.now());
+  if (!srsData) return base;
+
+  const merged: SRSData = { ...base, ...srsData } as SRSData;
+  const hasBeenReviewed = merged.lastReview !== null;
+
+  if (srsData.stability === undefined) {
+    // The ladder interval is a reasonable stand-in for stability at 90% retention
+    merged.stability = hasBeenReviewed ? Math.max(merged.interval, initialStability('again')) : 0;
+  }
+  if (srsData.difficulty === undefined) {
+    merged.difficulty = hasBeenReviewed ? initialDifficulty('good') : 0;
+  }
+  if (srsData.reps === undefined) {
+    merged.reps = hasBeenReviewed ? Math.max(merged.streak, 1) : 0;
+  }
+  if (srsData.lapses === undefined) {
+    merged.lapses = 0;
+  }
+  if (srsData.ease === undefined) {
+    merged.ease = DEFAULT_EASE;
+  }
+
+  return merged;
+}
+
+function scheduleMemoryState(
+  srsData: SRSData,
+  result: ReviewResult,
+  now: number
+): { stability: number; difficulty: number; interval: number } {
+  if (srsData.lastReview === null || srsData.stability <= 0) {
+    const stability = initialStability(result);
+    return {
+      stability,
+      difficulty: initialDifficulty(result),
+      interval: result === 'again' ? 1 : stabilityToInterval(stability),
+    };
+  }
+
+  const retrievability = getRetrievability(srsData, now);
+  const difficulty = nextDifficulty(srsData.difficulty, result);
+
+  if (result === 'again') {
+    return {
+      stability: forgetStability(srsData.difficulty, srsData.stability, retrievability),
+      difficulty,
+      interval: 1,
+    };
+  }
+
+  const stability = recallStability(srsData.difficulty, srsData.stability, retrievability, result);
+  return { stability, difficulty, interval: stabilityToInterval(stability) };
+}
+
+/**
+ * Computes the next SRS state after a review
+ */
+export function calculateNextReview(
+  srsData: SRSData,
+  result: ReviewResult,
+  now: number = Date.now()
+): SRSData {
+  const current = normalizeSRSData(srsData);
+  const { stability, difficulty, interval } = scheduleMemoryState(current, result, now);
+  const fuzzedInterval = result === 'again' ? interval : fuzzInterval(interval);
+  const isLapse = result === 'again' && current.lastReview !== null;
+
+  let status: SRSData['status'] = 'reviewing';
+  if (result === 'again') {
+    status = 'learning';
+  } else if (fuzzedInterval >= MASTERED_INTERVAL) {
+    status = 'mastered';
+  }
+
+  return {
+    interval: fuzzedInterval,
+    streak: result === 'again' ? 0 : current.streak + 1,
+    lastReview: now,
+    nextReview: now + fuzzedInterval * DAY_IN_MS,
+    status,
+    ease: Math.max(MIN_EASE, current.ease + EASE_DELTA[result]),
+    stability,
+    difficulty,
+    reps: current.reps + 1,
+    lapses: current.lapses + (isLapse ? 1 : 0),
+  };
+}
+
+/**
+ * Unfuzzed interval (in days) each grade would schedule, for button labels
+ */
+export function previewIntervals(
+  srsData: SRSData,
+  now: number = Date.now()
+): Record<ReviewResult, number> {
+  const current = normalizeSRSData(srsData);
+  return REVIEW_RESULTS.reduce(
+    (previews, result) => {
+      previews[result] = scheduleMemoryState(current, result, now).interval;
+      return previews;
+    },
+    {} as Record<ReviewResult, number>
+  );
+}
+
+/**
+ * Short human-readable interval label (e.g. "1d", "3w", "4mo")
+ */
+export function formatInterval(days: number): string {
+  if (days < 14) return `${days}d`;
+  if (days < 60) return `${Math.round(days / 7)}w`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+}
+
+/**
+ * SRS state for one card type of a word. Card types other than recognition
+ * start out new until they are first reviewed.
+ */
+export function getCardSRSData(word: SavedWord, cardType: CardType): SRSData {
+  if (cardType === 'recognition') return word.srsData;
+  return word.cardSrsData?.[cardType] ?? createInitialSRSData(word.createdAt);
+}
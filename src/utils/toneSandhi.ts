@@ -0,0 +1,102 @@
+// Tone sandhi - the tones a verse is actually spoken with
+//
+// Preprocessed pinyin gives citation tones (不是 bù shì, 一個 yī gè). These rules
+// rewrite them as spoken, across word boundaries, within each phrase between
+// punctuation marks:
+//   不 + 4th tone       -> bú      (不是 bú shì)
+//   一 + 4th tone       -> yí      (一個 yí gè)
+//   一 + 1st/2nd/3rd    -> yì      (一起 yì qǐ), except ordinals (第一) and word-final 一 (唯一)
+//   3rd + 3rd           -> 2nd + 3rd; in longer runs every third tone but the last
+
+import { getPinyinTone, setPinyinTone, splitChineseCharacters, splitPinyinSyllables } from './pinyin';
+
+interface SandhiWord {
+  chinese: string;
+  pinyin: string;
+}
+
+interface SandhiSlot {
+  wordIndex: number;
+  syllableIndex: number;
+  char: string;
+  tone: number;
+  isWordFinal: boolean; // Last character of a multi-character word
+}
+
+const PHRASE_BREAK = /[^\s\p{Script=Han}]/u;
+
+/**
+ * Spoken syllables for each word of a verse, or null for words whose tones
+ * don't change (and for punctuation or pinyin that doesn't align).
+ * Pass the verse text so punctuation between words can end a phrase.
+ */
+export function applyToneSandhi(words: SandhiWord[], text = ''): (string[] | null)[] {
+  const syllablesByWord: (string[] | null)[] = [];
+  const phrases: SandhiSlot[][] = [[]];
+  let cursor = 0;
+
+  words.forEach((word, wordIndex) => {
+    const start = text.indexOf(word.chinese, cursor);
+    if (start !== -1) {
+      if (PHRASE_BREAK.test(text.slice(cursor, start)) && phrases[phrases.length - 1].length > 0) {
+        phrases.push([]);
+      }
+      cursor = start + word.chinese.length;
+    }
+
+    const chars = splitChineseCharacters(word.chinese);
+    const syllables = word.pinyin ? splitPinyinSyllables(word.pinyin, chars.length) : [];
+    if (chars.length === 0 || syllables.length !== chars.length) {
+      // Punctuation (or unaligned pinyin) ends the phrase
+      syllablesByWord.push(null);
+      if (phrases[phrases.length - 1].length > 0) phrases.push([]);
+      return;
+    }
+
+    syllablesByWord.push(syllables);
+    chars.forEach((char, syllableIndex) => {
+      phrases[phrases.length - 1].push({
+        wordIndex,
+        syllableIndex,
+        char,
+        tone: getPinyinTone(syllables[syllableIndex]),
+        isWordFinal: chars.length > 1 && syllableIndex === chars.length - 1,
+      });
+    });
+  });
+
+  const changed = new Set<number>();
+  const retone = (slot: SandhiSlot, tone: number) => {
+    if (slot.tone === tone) return;
+    slot.tone = tone;
+    const syllables = syllablesByWord[slot.wordIndex]!;
+    syllables[slot.syllableIndex] = setPinyinTone(syllables[slot.syllableIndex], tone);
+    changed.add(slot.wordIndex);
+  };
+
+  for (const phrase of phrases) {
+    // 一 and 不 take their tone from the original tone that follows
+    const citationTones = phrase.map((slot) => slot.tone);
+    phrase.forEach((slot, i) => {
+      const next = citationTones[i + 1];
+      if (next === undefined) return;
+
+      if (slot.char === '不' && slot.tone === 4 && next === 4) {
+        retone(slot, 2);
+      } else if (slot.char === '一' && slot.tone === 1 && !slot.isWordFinal && phrase[i - 1]?.char !== '第') {
+        if (next === 4) retone(slot, 2);
+        else if (next >= 1 && next <= 3) retone(slot, 4);
+      }
+    });
+
+    // Runs of third tones: all but the last become second tones
+    let runStart = 0;
+    for (let i = 0; i <= phrase.length; i++) {
+      if (i < phrase.length && phrase[i].tone === 3) continue;
+      for (let j = runStart; j < i - 1; j++) retone(phrase[j], 2);
+      runStart = i + 1;
+    }
+  }
+
+  return syllablesByWord.map((syllables, wordIndex) => (changed.has(wordIndex) ? syllables : null));
+}
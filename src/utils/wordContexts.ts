@@ -0,0 +1,31 @@
+// Verses where a saved word has been encountered
+
+import type { SavedWord } from '../types/vocabulary';
+import type { VerseReference } from '../types/bible';
+
+export function isSameVerse(a: VerseReference, b: VerseReference): boolean {
+  return a.bookId === b.bookId && a.chapter === b.chapter && a.verse === b.verse;
+}
+
+/**
+ * Every verse the word was saved or looked up in, starting with the verse
+ * it was first saved from (if it has one)
+ */
+export function getWordContexts(word: SavedWord): VerseReference[] {
+  const contexts: VerseReference[] = word.sourceVerse ? [word.sourceVerse] : [];
+  for (const ref of word.seenIn ?? []) {
+    if (!contexts.some((existing) => isSameVerse(existing, ref))) {
+      contexts.push(ref);
+    }
+  }
+  return contexts;
+}
+
+/**
+ * Example verse for a review, rotating through the word's contexts so each
+ * review shows the word in a different sentence; undefined when it has none
+ */
+export function pickExampleVerse(word: SavedWord, rotation: number): VerseReference | undefined {
+  const contexts = getWordContexts(word);
+  return contexts.length > 0 ? contexts[rotation % contexts.length] : undefined;
+}
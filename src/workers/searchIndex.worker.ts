@@ -0,0 +1,102 @@
+/**
+ * Search index worker - builds the IndexedDB full-text index off the main thread
+ *
+ * Walks every chapter in canonical order and indexes the ones not yet stored
+ * under the current SEARCH_INDEX_VERSION, one transaction per chapter, so an
+ * interrupted build resumes where it stopped. Chapters that fail to load
+ * (e.g. offline) are left for the next build.
+ */
+
+import { BIBLE_BOOKS } from '../data/bible/books';
+import { loadTranslation } from '../data/english';
+import {
+  searchIndexDb,
+  SEARCH_INDEX_VERSION,
+  INDEXED_TRANSLATIONS,
+  TOTAL_CHAPTERS,
+  createIndexVerse,
+  type IndexSourceVerse,
+  type TranslationData,
+  type SearchIndexWorkerRequest,
+  type SearchIndexWorkerMessage,
+} from '../services/searchIndex';
+
+let isBuilding = false;
+
+function post(message: SearchIndexWorkerMessage) {
+  self.postMessage(message);
+}
+
+async function indexChapter(
+  bookId: string,
+  chapter: number,
+  translations: Map<string, TranslationData>
+): Promise<boolean> {
+  const response = await fetch(`/data/preprocessed/${bookId}/chapter-${chapter}.json`);
+  if (!response.ok) return false;
+  const data: { verses: IndexSourceVerse[] } = await response.json();
+
+  const rows = data.verses.map((verse) => createIndexVerse(bookId, chapter, verse, translations));
+
+  await searchIndexDb.transaction('rw', searchIndexDb.verses, searchIndexDb.chapters, async () => {
+    await searchIndexDb.verses.where('[bookId+chapter]').equals([bookId, chapter]).delete();
+    await searchIndexDb.verses.bulkPut(rows);
+    await searchIndexDb.chapters.put({
+      id: `${bookId}:${chapter}`,
+      bookId,
+      chapter,
+      version: SEARCH_INDEX_VERSION,
+      indexedAt: Date.now(),
+    });
+  });
+  return true;
+}
+
+async function buildIndex() {
+  const current = await searchIndexDb.chapters
+    .where('version')
+    .equals(SEARCH_INDEX_VERSION)
+    .primaryKeys();
+  const indexedChapters = new Set(current);
+  let indexed = indexedChapters.size;
+  post({ type: 'progress', indexed, total: TOTAL_CHAPTERS });
+  if (indexed >= TOTAL_CHAPTERS) {
+    post({ type: 'done', indexed, total: TOTAL_CHAPTERS });
+    return;
+  }
+
+  // English text is bundled JSON; load it only when there is work to do
+  const translations = new Map<string, TranslationData>();
+  for (const version of INDEXED_TRANSLATIONS) {
+    translations.set(version, await loadTranslation(version));
+  }
+
+  for (const book of BIBLE_BOOKS) {
+    for (let chapter = 1; chapter <= book.chapterCount; chapter++) {
+      if (indexedChapters.has(`${book.id}:${chapter}`)) continue;
+      try {
+        if (await indexChapter(book.id, chapter, translations)) {
+          indexed++;
+          post({ type: 'progress', indexed, total: TOTAL_CHAPTERS });
+        }
+      } catch (error) {
+        console.warn(`[SearchIndex] Failed to index ${book.id} ${chapter}:`, error);
+      }
+    }
+  }
+
+  post({ type: 'done', indexed, total: TOTAL_CHAPTERS });
+}
+
+self.onmessage = (event: MessageEvent<SearchIndexWorkerRequest>) => {
+  if (event.data.type !== 'build' || isBuilding) return;
+  isBuilding = true;
+
+  buildIndex()
+    .catch((error) => {
+      post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    })
+    .finally(() => {
+      isBuilding = false;
+    });
+};
@@ -10,6 +10,10 @@ export default defineConfig({
   esbuild: {
     drop: process.env.NODE_ENV === 'production' ? ['console', 'debugger'] : [],
   },
+  // ES module workers so the search index worker can lazy-load translation data
+  worker: {
+    format: 'es',
+  },
   server: {
     proxy: {
       '/api/bible': {